@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text, StatusBar } from 'react-native';
 import { useFonts } from 'expo-font';
 import { Camera } from 'react-native-vision-camera';
@@ -10,14 +10,31 @@ import VideoAnalysisScreen from './src/screens/VideoAnalysisScreen';
 import { ExerciseType } from './src/ai/ExerciseAnalyzer';
 import { AnalyticsResult } from './src/services/AnalyticsService';
 import { COLORS } from './src/constants/theme';
+import { Locale, getLocale, setLocale, deviceLocale } from './src/i18n/Messages';
+import { loadLocaleSetting } from './src/services/LocaleStorage';
+import { loadVoiceEnabled, saveVoiceEnabled } from './src/services/VoiceStorage';
+import { DeviceSpeech } from './src/services/DeviceSpeech';
+import { loadScoringSettings, saveScoringSettings } from './src/services/ScoringProfileStorage';
+import { StrictnessLevel } from './src/ai/scoring/ScoringProfile';
 
 type ScreenType = 'Onboarding' | 'Home' | 'Camera' | 'VideoAnalysis' | 'Analytics';
 
+// Owner of the stored settings and calibrations (one local profile for now)
+const USER_ID = 'default';
+
 export default function App() {
     const [currentScreen, setCurrentScreen] = useState<ScreenType>('Onboarding');
     const [selectedExercise, setSelectedExercise] = useState<ExerciseType>('Squat');
     const [analyticsResult, setAnalyticsResult] = useState<AnalyticsResult | null>(null);
     const [uploadedVideoUri, setUploadedVideoUri] = useState<string | null>(null);
+    // Mirrors the Messages locale so the screens re-render when it changes
+    const [, setAppLocale] = useState<Locale>(getLocale());
+    const [voiceEnabled, setVoiceEnabled] = useState(false);
+    const speech = useMemo(() => new DeviceSpeech(), []);
+    const [strictness, setStrictness] = useState<StrictnessLevel>('intermediate');
+    // One-shot: only the next live session relearns the user's range of motion
+    const [calibrateRom, setCalibrateRom] = useState(false);
+    const [tempo, setTempo] = useState<string | null>(null);
 
     const [fontsLoaded] = useFonts({
         'Michroma': require('./assets/fonts/Michroma.ttf'),
@@ -28,6 +45,18 @@ export default function App() {
         checkPermissions();
     }, []);
 
+    useEffect(() => {
+        loadLocaleSetting().then(saved => {
+            const next = saved ?? deviceLocale();
+            setLocale(next);
+            setAppLocale(next);
+        });
+        loadVoiceEnabled().then(setVoiceEnabled);
+        loadScoringSettings(USER_ID)
+            .then(settings => setStrictness(settings.level))
+            .catch(e => console.warn('Failed to load scoring profile', e));
+    }, []);
+
     const checkPermissions = async () => {
         const cameraPermission = await Camera.requestCameraPermission();
         const microphonePermission = await Camera.requestMicrophonePermission();
@@ -42,9 +71,27 @@ export default function App() {
         setCurrentScreen('Camera');
     };
 
-    const onBack = () => setCurrentScreen('Home');
+    const onBack = () => {
+        setCalibrateRom(false);
+        setCurrentScreen('Home');
+    };
+
+    const onToggleVoice = () => {
+        const next = !voiceEnabled;
+        setVoiceEnabled(next);
+        saveVoiceEnabled(next).catch(e => console.warn('Failed to save voice setting', e));
+    };
+
+    // Keeps the user's scoring overrides, only the level changes
+    const onChangeStrictness = (level: StrictnessLevel) => {
+        setStrictness(level);
+        loadScoringSettings(USER_ID)
+            .then(settings => saveScoringSettings(USER_ID, { ...settings, level }))
+            .catch(e => console.warn('Failed to save scoring profile', e));
+    };
 
     const onAnalysisComplete = (result: AnalyticsResult) => {
+        setCalibrateRom(false);
         setAnalyticsResult(result);
         setCurrentScreen('Analytics');
     };
@@ -65,13 +112,30 @@ export default function App() {
         <>
             <StatusBar barStyle="light-content" backgroundColor={COLORS.background} translucent={false} />
             {currentScreen === 'Onboarding' && <OnboardingScreen onStart={navigateToHome} />}
-            {currentScreen === 'Home' && <HomeScreen onSelectExercise={onSelectExercise} />}
+            {currentScreen === 'Home' && (
+                <HomeScreen
+                    onSelectExercise={onSelectExercise}
+                    voiceEnabled={voiceEnabled}
+                    onToggleVoice={onToggleVoice}
+                    strictness={strictness}
+                    onChangeStrictness={onChangeStrictness}
+                    calibrateRom={calibrateRom}
+                    onToggleCalibrateRom={() => setCalibrateRom(!calibrateRom)}
+                    tempo={tempo}
+                    onChangeTempo={setTempo}
+                />
+            )}
             {currentScreen === 'Camera' && (
                 <CameraScreen
                     exerciseType={selectedExercise}
                     onBack={onBack}
                     onAnalysisComplete={onAnalysisComplete}
                     onVideoSelected={onVideoSelected}
+                    tempo={tempo ?? undefined}
+                    userId={USER_ID}
+                    calibrateRom={calibrateRom}
+                    strictness={strictness}
+                    speech={voiceEnabled ? speech : undefined}
                 />
             )}
             {currentScreen === 'VideoAnalysis' && uploadedVideoUri && (
@@ -80,6 +144,9 @@ export default function App() {
                     exerciseType={selectedExercise}
                     onBack={onBack}
                     onAnalysisComplete={onAnalysisComplete}
+                    tempo={tempo ?? undefined}
+                    userId={USER_ID}
+                    strictness={strictness}
                 />
             )}
             {currentScreen === 'Analytics' && analyticsResult && (
@@ -0,0 +1,58 @@
+/**
+ * Classifier regression report
+ *
+ * Usage: npm run evaluate:classifier -- [corpusDir] [--json report.json]
+ *
+ * corpusDir (default: corpus/classifier) holds pose-track files exported from the app
+ * (see src/services/PoseTrackStorage.ts) with a "label" field set to the exercise
+ * actually performed. Sub-folders are searched recursively.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePoseTrack } from '../src/ai/recording/PoseTrack';
+import { evaluateClassifier, formatEvaluationReport, LabeledTrack } from '../src/ai/evaluation/ClassifierEvaluation';
+
+const args = process.argv.slice(2);
+const jsonFlag = args.indexOf('--json');
+const jsonOut = jsonFlag >= 0 ? args[jsonFlag + 1] : null;
+const positional = args.filter((arg, i) => arg !== '--json' && (jsonFlag < 0 || i !== jsonFlag + 1));
+const corpusDir = path.resolve(positional[0] || 'corpus/classifier');
+
+const findTracks = (dir: string): string[] => {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) return findTracks(fullPath);
+        return entry.name.endsWith('.json') ? [fullPath] : [];
+    });
+};
+
+if (!fs.existsSync(corpusDir)) {
+    console.error(`Corpus directory not found: ${corpusDir}`);
+    process.exit(1);
+}
+
+// A broken file is skipped like an unlabeled track, not the end of the run
+const corpus: LabeledTrack[] = findTracks(corpusDir).flatMap(file => {
+    const name = path.relative(corpusDir, file);
+    try {
+        return [{ name, track: parsePoseTrack(fs.readFileSync(file, 'utf8')) }];
+    } catch (e) {
+        console.warn(`Skipping unreadable track: ${name} (${e instanceof Error ? e.message : e})`);
+        return [];
+    }
+});
+
+if (corpus.length === 0) {
+    console.error(`No pose tracks in ${corpusDir}`);
+    process.exit(1);
+}
+
+const report = evaluateClassifier(corpus);
+
+console.log(formatEvaluationReport(report));
+
+if (jsonOut) {
+    fs.writeFileSync(jsonOut, JSON.stringify(report, null, 2));
+    console.log(`\nJSON report written to ${jsonOut}`);
+}
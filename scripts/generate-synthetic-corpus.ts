@@ -0,0 +1,166 @@
+/**
+ * Synthetic classifier corpus
+ *
+ * Usage: npm run generate:corpus -- [outDir]
+ *
+ * Writes labeled pose tracks of a stick figure doing a few exercises, filmed
+ * from the side (outDir default: corpus/classifier/synthetic). They keep
+ * `npm run evaluate:classifier` meaningful on a clean checkout; real sessions
+ * exported from the app are the better regression cases and belong next to them.
+ *
+ * Output is deterministic (seeded jitter), so re-running it only changes the
+ * files when the generator itself changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExerciseType, PoseLandmark } from '../src/ai/ExerciseAnalyzer';
+import { PoseTrackRecorder, serializePoseTrack } from '../src/ai/recording/PoseTrack';
+import { JOINT_INDEX as J } from '../src/ai/skeleton/Skeleton';
+
+const outDir = path.resolve(process.argv[2] || 'corpus/classifier/synthetic');
+
+const FPS = 10;
+const DURATION_MS = 9000;
+const REP_MS = 3000;
+const FLOOR_Y = 0.88;
+
+// Segment lengths for a 0.8-tall figure (normalized units)
+const SHIN = 0.197;
+const THIGH = 0.196;
+const TORSO = 0.23;
+const UPPER_ARM = 0.149;
+const FOREARM = 0.117;
+const HEAD = 0.08;
+
+type Point = { x: number; y: number };
+
+// Deterministic jitter (LCG), about a pixel or two of detector noise
+let seed = 1;
+const jitter = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return (seed / 4294967296 - 0.5) * 0.004;
+};
+
+const deg = (d: number) => (d * Math.PI) / 180;
+
+// Point at `length` from `from`, `angle` degrees clockwise from straight up (facing +x)
+const limb = (from: Point, length: number, angle: number): Point => ({
+    x: from.x + length * Math.sin(deg(angle)),
+    y: from.y - length * Math.cos(deg(angle))
+});
+
+interface SidePose {
+    ankle: Point;
+    knee: Point;
+    hip: Point;
+    shoulder: Point;
+    elbow: Point;
+    wrist: Point;
+}
+
+/**
+ * Side view, athlete facing +x with the left side to the camera: the right
+ * side sits just behind and is tracked less confidently.
+ */
+function landmarks(pose: SidePose): PoseLandmark[] {
+    const points: PoseLandmark[] = new Array(33);
+    const head = limb(pose.shoulder, HEAD, 10);
+    const set = (index: number, p: Point, visibility: number, dx = 0) => {
+        points[index] = { x: round(p.x + dx + jitter()), y: round(p.y + jitter()), z: 0, visibility };
+    };
+    const sides: [Record<string, number>, number, number][] = [
+        [{ shoulder: J.leftShoulder, elbow: J.leftElbow, wrist: J.leftWrist, hip: J.leftHip, knee: J.leftKnee, ankle: J.leftAnkle, heel: J.leftHeel, foot: J.leftFootIndex, pinky: J.leftPinky, index: J.leftIndex, thumb: J.leftThumb }, 0.95, 0],
+        [{ shoulder: J.rightShoulder, elbow: J.rightElbow, wrist: J.rightWrist, hip: J.rightHip, knee: J.rightKnee, ankle: J.rightAnkle, heel: J.rightHeel, foot: J.rightFootIndex, pinky: J.rightPinky, index: J.rightIndex, thumb: J.rightThumb }, 0.6, -0.01]
+    ];
+    sides.forEach(([joints, visibility, dx]) => {
+        set(joints.shoulder, pose.shoulder, visibility, dx);
+        set(joints.elbow, pose.elbow, visibility, dx);
+        set(joints.wrist, pose.wrist, visibility, dx);
+        ['pinky', 'index', 'thumb'].forEach(hand => set(joints[hand], limb(pose.wrist, 0.02, 180), visibility, dx));
+        set(joints.hip, pose.hip, visibility, dx);
+        set(joints.knee, pose.knee, visibility, dx);
+        set(joints.ankle, pose.ankle, visibility, dx);
+        set(joints.heel, { x: pose.ankle.x - 0.02, y: pose.ankle.y + 0.01 }, visibility, dx);
+        set(joints.foot, { x: pose.ankle.x + 0.05, y: pose.ankle.y + 0.015 }, visibility, dx);
+    });
+    set(J.nose, { x: head.x + 0.03, y: head.y }, 0.95);
+    [J.leftEyeInner, J.leftEye, J.leftEyeOuter].forEach(i => set(i, { x: head.x + 0.02, y: head.y - 0.01 }, 0.9));
+    [J.rightEyeInner, J.rightEye, J.rightEyeOuter].forEach(i => set(i, { x: head.x + 0.02, y: head.y - 0.01 }, 0.5));
+    set(J.leftEar, head, 0.9);
+    set(J.rightEar, head, 0.2);
+    set(J.mouthLeft, { x: head.x + 0.025, y: head.y + 0.02 }, 0.9);
+    set(J.mouthRight, { x: head.x + 0.025, y: head.y + 0.02 }, 0.5);
+    return points;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+// 0 -> 1 -> 0 once per rep
+const cycle = (t: number) => (1 - Math.cos((2 * Math.PI * t) / REP_MS)) / 2;
+
+// Standing upright, arms hanging; `depth` bends knees and hips into a squat
+function squat(t: number): PoseLandmark[] {
+    const depth = cycle(t);
+    const ankle = { x: 0.45, y: FLOOR_Y };
+    const knee = limb(ankle, SHIN, 35 * depth);
+    const hip = limb(knee, THIGH, -100 * depth);
+    const shoulder = limb(hip, TORSO, 45 * depth);
+    // Arms reach forward for balance as the athlete sits down
+    const elbow = limb(shoulder, UPPER_ARM, 180 - 90 * depth);
+    const wrist = limb(elbow, FOREARM, 180 - 90 * depth);
+    return landmarks({ ankle, knee, hip, shoulder, elbow, wrist });
+}
+
+// Standing upright, upper arm still, forearm curling up
+function bicepCurl(t: number): PoseLandmark[] {
+    const ankle = { x: 0.5, y: FLOOR_Y };
+    const knee = limb(ankle, SHIN, 0);
+    const hip = limb(knee, THIGH, 0);
+    const shoulder = limb(hip, TORSO, 0);
+    const elbow = limb(shoulder, UPPER_ARM, 175);
+    const wrist = limb(elbow, FOREARM, 160 - 130 * cycle(t));
+    return landmarks({ ankle, knee, hip, shoulder, elbow, wrist });
+}
+
+// Body in a straight line from the feet, hands under the shoulders
+function pushUp(t: number, lowered: (t: number) => number): PoseLandmark[] {
+    const ankle = { x: 0.15, y: 0.8 };
+    const wristX = 0.15 + SHIN + THIGH + TORSO - 0.02;
+    const armHeight = (UPPER_ARM + FOREARM) * (1 - 0.55 * lowered(t));
+    const bodyLength = SHIN + THIGH + TORSO;
+    const lean = Math.asin(Math.min(1, (ankle.y - (ankle.y + 0.02 - armHeight)) / bodyLength));
+    const along = (length: number) => ({ x: ankle.x + length * Math.cos(lean), y: ankle.y - length * Math.sin(lean) });
+    const knee = along(SHIN);
+    const hip = along(SHIN + THIGH);
+    const shoulder = along(bodyLength);
+    const wrist = { x: wristX, y: ankle.y + 0.02 };
+    // Elbow bends back toward the feet (two-link arm from shoulder to wrist)
+    const reach = Math.hypot(wrist.x - shoulder.x, wrist.y - shoulder.y);
+    const bend = Math.acos(Math.min(1, (UPPER_ARM ** 2 + reach ** 2 - FOREARM ** 2) / (2 * UPPER_ARM * reach)));
+    const toWrist = Math.atan2(wrist.y - shoulder.y, wrist.x - shoulder.x);
+    const elbow = { x: shoulder.x + UPPER_ARM * Math.cos(toWrist + bend), y: shoulder.y + UPPER_ARM * Math.sin(toWrist + bend) };
+    return landmarks({ ankle, knee, hip, shoulder, elbow, wrist });
+}
+
+const TRACKS: { file: string; label: ExerciseType; pose: (t: number) => PoseLandmark[] }[] = [
+    { file: 'squat.json', label: 'Squat', pose: squat },
+    { file: 'bicep-curl.json', label: 'Barbell Biceps Curl', pose: bicepCurl },
+    { file: 'push-up.json', label: 'Push Up', pose: t => pushUp(t, cycle) },
+    { file: 'plank.json', label: 'Plank', pose: t => pushUp(t, () => 0.9) }
+];
+
+fs.mkdirSync(outDir, { recursive: true });
+TRACKS.forEach(({ file, label, pose }) => {
+    seed = 1;
+    const recorder = new PoseTrackRecorder();
+    recorder.start('Auto-Detect', 'video', 'unknown', 0);
+    for (let t = 0; t < DURATION_MS; t += 1000 / FPS) recorder.addFrame(pose(t), Math.round(t));
+    const track = recorder.finish()!;
+    track.label = label;
+    track.createdAt = '2026-01-01T00:00:00.000Z'; // Stable output
+    fs.writeFileSync(path.join(outDir, file), serializePoseTrack(track));
+    console.log(`${label}: ${track.frames.length} frames -> ${path.relative(process.cwd(), path.join(outDir, file))}`);
+});
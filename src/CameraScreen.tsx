@@ -1,15 +1,25 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { StyleSheet, Text, View, TouchableOpacity, Alert } from 'react-native';
 import { useCameraDevice, Camera, useFrameProcessor } from 'react-native-vision-camera';
 import { usePoseEstimator } from './ai/PoseEstimator';
 import { FormFeedbackOverlay } from './components/FormFeedbackOverlay';
-import { ExerciseType, Feedback } from './ai/ExerciseAnalyzer';
+import { ExerciseType, Feedback, isHoldExercise } from './ai/ExerciseAnalyzer';
+import { formatCandidates } from './ai/ExerciseClassifier';
 import { COLORS, FONTS, SPACING } from './constants/theme';
 import Svg, { Path, Circle, Rect } from 'react-native-svg';
 import PostRecordingModal from './components/PostRecordingModal';
 import AnalysisLoadingScreen from './components/AnalysisLoadingScreen';
 import { analyzeWorkout, AnalyticsResult, AnalysisPhase } from './services/AnalyticsService';
-import { RepTimestamp } from './ai/reps/RepCounter';
+import { RepTimestamp, RepAttempt, formatAttempts } from './ai/reps/RepCounter';
+import { ExerciseSegment } from './ai/session/SessionSegmenter';
+import { TempoSummary, parseTempo } from './ai/tempo/Tempo';
+import { savePoseTrack } from './services/PoseTrackStorage';
+import { loadRomCalibrations, saveRomCalibrations } from './services/RomCalibrationStorage';
+import { loadScoringSettings } from './services/ScoringProfileStorage';
+import { StrictnessLevel } from './ai/scoring/ScoringProfile';
+import { mergeFaultSummaries } from './ai/faults/FormFault';
+import { SpeechEngine } from './ai/coaching/Speech';
+import { t, plural, isRTL, exerciseLabel, phaseLabel } from './i18n/Messages';
 import * as ImagePicker from 'expo-image-picker';
 
 interface Props {
@@ -17,6 +27,12 @@ interface Props {
     onBack: () => void;
     onAnalysisComplete?: (result: AnalyticsResult) => void;
     onVideoSelected?: (videoUri: string) => void;
+    tempo?: string; // Prescribed tempo, e.g. "3-1-1-0" (eccentric-pause-concentric-pause)
+    userId?: string; // Owner of the stored range-of-motion calibrations
+    calibrateRom?: boolean; // Dedicated calibration set: relearn the user's range from this session's first reps
+    holdTarget?: number; // Target hold time in seconds (holds like Plank; defaults per exercise)
+    strictness?: StrictnessLevel; // Scoring strictness (defaults to the user's saved level)
+    speech?: SpeechEngine; // Voice coaching (rep counts, exercise lock, form cues); text only when not given
 }
 
 const defaultFeedback: Feedback = {
@@ -24,7 +40,7 @@ const defaultFeedback: Feedback = {
     breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
     reps: 0,
     repPhase: 'Ready',
-    message: 'Position yourself in frame...',
+    message: '', // Localized at render time (cues.positionInFrame)
     isGoodForm: false
 };
 
@@ -34,7 +50,7 @@ const formatTime = (seconds: number): string => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
-export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete, onVideoSelected }: Props) {
+export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete, onVideoSelected, tempo, userId = 'default', calibrateRom = false, holdTarget, strictness, speech }: Props) {
     const [cameraPosition, setCameraPosition] = useState<'front' | 'back'>('back');
     const device = useCameraDevice(cameraPosition);
     const camera = useRef<Camera>(null);
@@ -55,6 +71,9 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
     const [finalRepCount, setFinalRepCount] = useState(0);
     const [finalExerciseName, setFinalExerciseName] = useState<string | null>(null);
     const [repTimestamps, setRepTimestamps] = useState<RepTimestamp[]>([]);
+    const [sessionSegments, setSessionSegments] = useState<ExerciseSegment[]>([]);
+    const [tempoSummary, setTempoSummary] = useState<TempoSummary | null>(null);
+    const [repAttempts, setRepAttempts] = useState<RepAttempt[]>([]);
 
     // For uploaded video (no rep count from live detection)
     const [isUploadedVideo, setIsUploadedVideo] = useState(false);
@@ -63,17 +82,34 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
     const latestRepCount = useRef(0);
     const latestExerciseName = useRef(exerciseType);
 
+    const tempoPrescription = useMemo(() => (tempo ? parseTempo(tempo) : null), [tempo]);
+
     const {
         frameProcessor,
         landmarks,
+        frameSize,
         feedback: rawFeedback,
+        cue,
+        setup,
         fps,
         cameraDeviceChangeHandler,
         cameraOrientationChangedHandler,
+        deviceOrientationChangedHandler,
+        previewOrientationChangedHandler,
         cameraViewLayoutChangeHandler,
         getRepTimestamps,
+        getRepAttempts,
+        getTempoSummary,
+        getSessionSegments,
+        setRomCalibration,
+        getRomCalibrations,
+        setScoringProfile,
+        setSpeech,
+        resetSetup,
         setRecordingStartTime,
-    } = usePoseEstimator(exerciseType);
+        startPoseTrack,
+        finishPoseTrack,
+    } = usePoseEstimator(exerciseType, tempoPrescription, holdTarget ?? null);
 
     useEffect(() => {
         if (device) {
@@ -85,6 +121,25 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
         cameraOrientationChangedHandler('portrait');
     }, [cameraOrientationChangedHandler]);
 
+    // Rescale rep positions to this user's range (learned from the first reps when not stored yet)
+    useEffect(() => {
+        loadRomCalibrations(userId)
+            .then(stored => setRomCalibration(calibrateRom ? 'calibrate' : 'auto', stored))
+            .catch(e => console.warn('Failed to load ROM calibration', e));
+    }, [userId, calibrateRom, setRomCalibration]);
+
+    // Pillar weights and fault thresholds from the user's scoring profile
+    useEffect(() => {
+        loadScoringSettings(userId)
+            .then(settings => setScoringProfile(strictness ?? settings.level, settings.overrides))
+            .catch(e => console.warn('Failed to load scoring profile', e));
+    }, [userId, strictness, setScoringProfile]);
+
+    useEffect(() => {
+        setSpeech(speech ?? null);
+        return () => setSpeech(null);
+    }, [speech, setSpeech]);
+
     // Cleanup duration interval
     useEffect(() => {
         return () => {
@@ -94,7 +149,11 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
         };
     }, []);
 
-    const feedback = rawFeedback || defaultFeedback;
+    const feedback = rawFeedback || { ...defaultFeedback, message: t('cues.positionInFrame') };
+    // Right-to-left locales (Arabic) mirror the rows and the back arrow
+    const rtl = isRTL();
+    // Framing guidance ("Step back", "Turn 90°") until the setup check passes; reps aren't counted before
+    const setupMessage = setup && !setup.ready ? setup.message : null;
 
     // Keep refs updated with latest values
     useEffect(() => {
@@ -108,6 +167,7 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
 
     const toggleCamera = () => {
         setCameraPosition(p => p === 'front' ? 'back' : 'front');
+        resetSetup();
     };
 
     const startRecording = async () => {
@@ -119,6 +179,7 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
 
                 // Tell rep counter about recording start time
                 setRecordingStartTime?.(recordingStartTime.current);
+                startPoseTrack(cameraPosition, recordingStartTime.current);
 
                 // Start duration counter
                 durationInterval.current = setInterval(() => {
@@ -137,13 +198,34 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
                         const timestamps = getRepTimestamps?.() || [];
                         console.log('Rep timestamps:', timestamps);
                         setRepTimestamps(timestamps);
+                        setTempoSummary(getTempoSummary());
+                        setRepAttempts(getRepAttempts());
+
+                        // Circuit in Auto-Detect: report every block, total reps across them
+                        const segments = getSessionSegments();
+                        setSessionSegments(segments);
+                        if (segments.length > 1) {
+                            setFinalRepCount(segments
+                                .filter(s => !isHoldExercise(s.exercise))
+                                .reduce((sum, s) => sum + s.reps, 0));
+                        }
+
+                        saveRomCalibrations(userId, getRomCalibrations())
+                            .catch(e => console.warn('Failed to save ROM calibration', e));
+
+                        // Keep the landmark stream so this session can be replayed off-device
+                        const track = finishPoseTrack();
+                        if (track) {
+                            savePoseTrack(track).catch(e => console.warn('Failed to save pose track', e));
+                        }
 
                         // Show post-recording modal
                         setShowPostRecordingModal(true);
                     },
                     onRecordingError: (error) => {
                         console.error('Recording error:', error);
-                        Alert.alert('Recording Error', error.message);
+                        finishPoseTrack();
+                        Alert.alert(t('camera.recordingError'), error.message);
                         setIsRecording(false);
                     },
                 });
@@ -174,7 +256,7 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
             const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
 
             if (!permissionResult.granted) {
-                Alert.alert('Permission Required', 'Please allow access to your photo library to upload videos.');
+                Alert.alert(t('camera.permissionRequired'), t('camera.allowLibrary'));
                 return;
             }
 
@@ -198,7 +280,7 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
             }
         } catch (error) {
             console.error('Error picking video:', error);
-            Alert.alert('Error', 'Failed to select video');
+            Alert.alert(t('camera.error'), t('camera.selectFailed'));
         }
     };
 
@@ -206,7 +288,7 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
         setShowPostRecordingModal(false);
 
         if (!recordedVideoPath) {
-            Alert.alert('Error', 'No video recorded');
+            Alert.alert(t('camera.error'), t('camera.noVideo'));
             return;
         }
 
@@ -244,7 +326,8 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
                 exerciseName,
                 finalRepCount,
                 repTimestamps,
-                (progress) => setUploadProgress(progress)
+                (progress) => setUploadProgress(progress),
+                tempoSummary || undefined
             );
 
             setAnalysisPhase('complete');
@@ -258,9 +341,9 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
             console.error('Analysis error:', error);
             setAnalysisPhase('error');
             Alert.alert(
-                'Analysis Failed',
-                error instanceof Error ? error.message : 'Could not analyze workout',
-                [{ text: 'OK', onPress: () => setAnalysisPhase('idle') }]
+                t('camera.analysisFailed'),
+                error instanceof Error ? error.message : t('camera.analysisFailedDefault'),
+                [{ text: t('camera.ok'), onPress: () => setAnalysisPhase('idle') }]
             );
         }
     };
@@ -290,24 +373,27 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
                 video={true}
                 audio={false}
                 onLayout={cameraViewLayoutChangeHandler}
+                // Landmarks are turned upright for however the phone is held (landscape, tripod)
+                onOutputOrientationChanged={deviceOrientationChangedHandler}
+                onPreviewOrientationChanged={previewOrientationChangedHandler}
             />
 
-            {/* Overlay */}
-            <FormFeedbackOverlay landmarks={landmarks} feedback={feedback} />
+            {/* Overlay (the preview fills the screen: Camera's default "cover" resize mode) */}
+            <FormFeedbackOverlay landmarks={landmarks} feedback={feedback} frameSize={frameSize} fit="cover" />
 
             {/* UI Layer */}
             <View style={styles.uiOverlay}>
                 {/* Header */}
-                <View style={styles.header}>
+                <View style={[styles.header, rtl && styles.rowReverse]}>
                     <TouchableOpacity onPress={onBack} style={styles.backButton} disabled={isRecording}>
-                        <Svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                        <Svg width="24" height="24" viewBox="0 0 24 24" fill="none" style={rtl && styles.mirrored}>
                             <Path d="M19 12H5M5 12L12 19M5 12L12 5" stroke={isRecording ? COLORS.textDim : COLORS.primary} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
                         </Svg>
                     </TouchableOpacity>
                     <View>
-                        <Text style={styles.exerciseTitle}>{exerciseType.toUpperCase()}</Text>
-                        <Text style={[styles.subTitle, isRecording && { color: COLORS.accent }]}>
-                            {isRecording ? '🔴 RECORDING' : 'AI COACH ACTIVE'}
+                        <Text style={[styles.exerciseTitle, rtl && styles.rtlText]}>{exerciseLabel(exerciseType).toUpperCase()}</Text>
+                        <Text style={[styles.subTitle, rtl && styles.rtlText, isRecording && { color: COLORS.accent }]}>
+                            {isRecording ? t('camera.recording') : t('camera.coachActive')}
                         </Text>
                     </View>
 
@@ -321,14 +407,14 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
 
                 {/* Recording Timer (when recording) */}
                 {isRecording && (
-                    <View style={styles.timerContainer}>
+                    <View style={[styles.timerContainer, rtl && styles.rowReverse]}>
                         <View style={styles.recordingDot} />
                         <Text style={styles.timerText}>{formatTime(recordingDuration)}</Text>
                     </View>
                 )}
 
                 <View style={styles.scoreContainer}>
-                    <Text style={styles.scoreLabel}>SCORE</Text>
+                    <Text style={styles.scoreLabel}>{t('camera.score')}</Text>
                     <Text style={[styles.scoreValue, { color: feedback.isGoodForm ? COLORS.success : COLORS.accent }]}>
                         {Math.round(feedback.score)}
                     </Text>
@@ -337,7 +423,7 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
                 {/* Bottom Section */}
                 <View style={styles.bottomSection}>
                     {/* Action Buttons - Record & Upload */}
-                    <View style={styles.actionButtonsRow}>
+                    <View style={[styles.actionButtonsRow, rtl && styles.rowReverse]}>
                         {/* Upload Button */}
                         <TouchableOpacity
                             style={styles.uploadButton}
@@ -367,7 +453,7 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
                                     strokeLinejoin="round"
                                 />
                             </Svg>
-                            <Text style={[styles.uploadLabel, isRecording && { color: COLORS.textDim }]}>UPLOAD</Text>
+                            <Text style={[styles.uploadLabel, isRecording && { color: COLORS.textDim }]}>{t('camera.upload')}</Text>
                         </TouchableOpacity>
 
                         {/* Record Button */}
@@ -384,33 +470,69 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
 
                         {/* Spacer to balance the layout */}
                         <View style={styles.uploadButton}>
-                            <Text style={styles.uploadLabel}>{isRecording ? 'REC' : 'LIVE'}</Text>
+                            <Text style={styles.uploadLabel}>{isRecording ? t('camera.rec') : t('camera.live')}</Text>
                         </View>
                     </View>
 
                     {/* Footer Stats */}
-                    <View style={styles.footer}>
+                    <View style={[styles.footer, rtl && styles.rowReverse]}>
                         <View style={styles.statBox}>
                             <Text style={styles.statLabel}>
-                                {(exerciseType === 'Plank' || feedback.detectedExercise === 'Plank') ? 'TIME' : 'REPS'}
+                                {(isHoldExercise(exerciseType) || isHoldExercise(feedback.detectedExercise)) ? t('camera.time') : t('camera.reps')}
                             </Text>
                             <Text style={styles.statValue}>
-                                {(exerciseType === 'Plank' || feedback.detectedExercise === 'Plank')
+                                {(isHoldExercise(exerciseType) || isHoldExercise(feedback.detectedExercise))
                                     ? formatTime(feedback.reps)
                                     : feedback.reps}
                             </Text>
+                            {feedback.hold && (
+                                <Text style={styles.attemptsText}>
+                                    {feedback.hold.target !== null ? `/ ${formatTime(feedback.hold.target)}` : ''}
+                                    {feedback.hold.breaks > 0 ? ` • ${plural('camera.breaks', feedback.hold.breaks)}` : ''}
+                                </Text>
+                            )}
+                            {feedback.sides && (
+                                <Text style={styles.attemptsText}>
+                                    {phaseLabel('L')} {feedback.sides.left.reps} • {phaseLabel('R')} {feedback.sides.right.reps}
+                                </Text>
+                            )}
+                            {formatAttempts(feedback.partialReps || 0, feedback.failedReps || 0) !== '' && (
+                                <Text style={styles.attemptsText}>
+                                    {formatAttempts(feedback.partialReps || 0, feedback.failedReps || 0)}
+                                </Text>
+                            )}
                         </View>
 
                         {/* Feedback Text Box */}
                         <View style={[styles.statBox, styles.feedbackBox]}>
-                            <Text style={styles.statLabel}>FEEDBACK</Text>
-                            <Text style={styles.phaseText}>{feedback.repPhase}</Text>
-                            <Text style={styles.feedbackText} numberOfLines={2}>{feedback.message}</Text>
+                            <Text style={styles.statLabel}>{t('camera.feedback')}</Text>
+                            <Text style={[styles.phaseText, rtl && styles.rtlText]}>{phaseLabel(feedback.repPhase)}</Text>
+                            {feedback.candidates && feedback.candidates.length > 1 && (
+                                <Text style={styles.candidatesText}>{formatCandidates(feedback.candidates)}</Text>
+                            )}
+                            {/* Setup guidance, then the scheduled cue (tempo and praise cues share the line, in their own colour) */}
+                            <Text
+                                style={[
+                                    styles.feedbackText,
+                                    setupMessage !== null && styles.setupCueText,
+                                    setupMessage === null && cue?.kind === 'tempo' && styles.tempoCueText,
+                                    setupMessage === null && cue?.kind === 'praise' && styles.praiseCueText,
+                                    rtl && styles.rtlText
+                                ]}
+                                numberOfLines={2}
+                            >
+                                {setupMessage ?? (cue ? cue.text : feedback.message)}
+                            </Text>
+                            {feedback.calibration && (
+                                <Text style={styles.candidatesText}>
+                                    {t('camera.calibrating', { cycles: feedback.calibration.cycles, target: feedback.calibration.target })}
+                                </Text>
+                            )}
                         </View>
 
                         <View style={styles.statBox}>
-                            <Text style={styles.statLabel}>PHASE</Text>
-                            <Text style={styles.statValue}>{feedback.repPhase.substring(0, 3)}</Text>
+                            <Text style={styles.statLabel}>{t('camera.phase')}</Text>
+                            <Text style={styles.statValue}>{phaseLabel(feedback.repPhase).substring(0, 3)}</Text>
                         </View>
                     </View>
                 </View>
@@ -422,6 +544,12 @@ export default function CameraScreen({ exerciseType, onBack, onAnalysisComplete,
                 repCount={finalRepCount}
                 duration={recordingDuration}
                 exerciseName={finalExerciseName || (exerciseType !== 'Auto-Detect' ? exerciseType : undefined)}
+                segments={sessionSegments}
+                tempo={tempoSummary || undefined}
+                attempts={repAttempts}
+                sides={sessionSegments.length === 1 ? sessionSegments[0].sides : undefined}
+                hold={sessionSegments.length === 1 ? sessionSegments[0].hold : undefined}
+                faults={mergeFaultSummaries(sessionSegments.map(segment => segment.faults))}
                 onAnalyze={handleAnalyze}
                 onDiscard={handleDiscard}
             />
@@ -536,8 +664,16 @@ const styles = StyleSheet.create({
     statBox: { flex: 1, alignItems: 'center', justifyContent: 'center' },
     statLabel: { color: COLORS.textDim, fontSize: 10, fontWeight: 'bold', marginBottom: 4 },
     statValue: { color: COLORS.text, fontSize: 28, fontFamily: FONTS.title },
+    attemptsText: { color: COLORS.textDim, fontSize: 10, marginTop: 2 },
 
     phaseText: { color: COLORS.secondary, fontSize: 12, marginBottom: 4, fontWeight: 'bold' },
+    candidatesText: { color: COLORS.textDim, fontSize: 11, marginBottom: 4 },
+    tempoCueText: { color: COLORS.warning },
+    setupCueText: { color: COLORS.warning },
+    praiseCueText: { color: COLORS.success },
+    rowReverse: { flexDirection: 'row-reverse' },
+    rtlText: { writingDirection: 'rtl' },
+    mirrored: { transform: [{ scaleX: -1 }] },
     feedbackText: { color: COLORS.text, fontSize: 14, fontWeight: 'bold', textAlign: 'center', paddingHorizontal: SPACING.xs },
     feedbackBox: {
         flex: 2,
@@ -1,10 +1,24 @@
-import { RepTimestamp } from './reps/RepCounter';
+import { RepTimestamp, RepRecord, RepAttempt } from './reps/RepCounter';
+import { RomCalibrator } from './reps/RomCalibration';
+import { BodySide } from './analysis/BodySide';
+import { UnilateralSummary } from './exercises/UnilateralAnalyzer';
+import { HoldSummary } from './holds/HoldTimer';
+import { ExerciseScoring, Pillar } from './scoring/ScoringProfile';
+import { FormFault } from './faults/FormFault';
+import { AnglePolicy, JointAngle, measureAngle } from './analysis/JointAngles';
 
 export interface PoseLandmark {
   x: number;
   y: number;
   z: number;
   visibility: number;
+  world?: WorldPoint; // Metric world landmark (origin between the hips), when the model provides one
+}
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+  z: number;
 }
 
 export interface ScoreBreakdown {
@@ -21,29 +35,95 @@ export type ExerciseType =
   | 'Incline Bench Press'
   | 'Lat Pulldown' | 'Lateral Raises' | 'Leg Extension' | 'Leg Raises'
   | 'Plank' | 'Pull Up' | 'Push Up' | 'Russian Twist'
-  | 'Squat' | 'T-Bar Row' | 'Tricep Dips' | 'Auto-Detect';
+  | 'Squat' | 'T-Bar Row' | 'Tricep Dips' | 'Auto-Detect'
+  // Unilateral / alternating (one rep counter per side)
+  | 'Alternating Dumbbell Curl' | 'Single Arm Dumbbell Row' | 'Alternating Lunge'
+  // Isometric holds (timed, reps = seconds held)
+  | 'Side Plank' | 'Wall Sit' | 'Dead Hang' | 'Hollow Hold';
+
+export const HOLD_EXERCISES: ExerciseType[] = ['Plank', 'Side Plank', 'Wall Sit', 'Dead Hang', 'Hollow Hold'];
+
+// Timed holds report seconds held in place of reps
+export function isHoldExercise(exercise?: ExerciseType | null): boolean {
+  return !!exercise && HOLD_EXERCISES.includes(exercise);
+}
 
 export interface Feedback {
   score: number;
   breakdown: ScoreBreakdown;
   reps: number;
   repPhase: string; // 'Eccentric', 'Concentric', 'Rest'
-  message: string;
+  message: string;                  // Cue of the most severe fault (or a phase message when there is none)
   correction?: string;
+  faults?: FormFault[];             // Every fault seen on this frame, most severe first
   isGoodForm: boolean;
   jointAngles?: Record<string, number>;
   detectedExercise?: ExerciseType;
+  exerciseLocked?: ExerciseType;    // Set on the one frame where Auto-Detect locks onto an exercise
+  candidates?: ExerciseCandidate[]; // Auto-Detect ranking while no exercise is locked
+  tempoCue?: string;                // Shown for a few seconds after a rep that missed the prescribed tempo
+  partialReps?: number;             // Attempts that didn't count (see RepAttempt)
+  failedReps?: number;
+  calibration?: { cycles: number; target: number }; // ROM calibration progress while the user's range is learned
+  sides?: Record<BodySide, SideFeedback>; // Unilateral exercises: each side counted separately (reps = left + right)
+  asymmetry?: number;               // 0-100, difference in rep range between the sides so far
+  hold?: HoldFeedback;              // Isometric holds: time held vs target
+}
+
+export interface HoldFeedback {
+  seconds: number;
+  target: number | null;
+  breaks: number;
+}
+
+export interface SideFeedback {
+  reps: number;
+  repPhase: string;
+  score: number;
+}
+
+export interface ExerciseCandidate {
+  exercise: ExerciseType;
+  confidence: number; // 0-1, the candidates of one frame sum to 1
+  matched: boolean;   // True for the exercise whose rule fired (always ranked first)
 }
 
 export abstract class ExerciseAnalyzer {
   abstract exerciseName: string;
   abstract analyze(landmarks: PoseLandmark[], timestamp?: number): Feedback;
 
-  protected calculateAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark): number {
-    const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
-    let angle = Math.abs((radians * 180.0) / Math.PI);
-    if (angle > 180.0) angle = 360 - angle;
-    return angle;
+  // Pillar weights, good-form cutoff and fault thresholds (set by GeometricRuleEngine from the scoring profile)
+  protected scoring: ExerciseScoring = { weights: {}, goodForm: 80, faults: {} };
+
+  setScoring(scoring: ExerciseScoring): void {
+    this.scoring = scoring;
+  }
+
+  // Total score: pillar scores weighted by the profile
+  protected weightedScore(pillars: Partial<ScoreBreakdown>): number {
+    return (Object.entries(this.scoring.weights) as [Pillar, number][])
+      .reduce((total, [pillar, weight]) => total + (pillars[pillar] || 0) * weight, 0);
+  }
+
+  protected isGoodScore(score: number): boolean {
+    return score > this.scoring.goodForm;
+  }
+
+  // Named fault threshold from the profile (a missing name is a bug in the profile, not a disabled check)
+  protected threshold(fault: string): number {
+    const value = this.scoring.faults[fault];
+    if (value === undefined) throw new Error(`Scoring profile has no "${fault}" threshold for ${this.constructor.name}`);
+    return value;
+  }
+
+  // Angle at b in degrees (2D or 3D per the policy, see analysis/JointAngles.ts)
+  protected calculateAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark, policy: AnglePolicy = '2d'): number {
+    return measureAngle(a, b, c, policy).value;
+  }
+
+  // Same, with both readings (for Feedback.jointAngles)
+  protected measureAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark, policy: AnglePolicy = '2d'): JointAngle {
+    return measureAngle(a, b, c, policy);
   }
 
   // Optional interface for analytics
@@ -54,4 +134,29 @@ export abstract class ExerciseAnalyzer {
   getRepTimestamps(): RepTimestamp[] {
     return [];
   }
+
+  // Per-rep detail (angles, phases, pillar scores, faults) for completed reps
+  getRepRecords(): RepRecord[] {
+    return [];
+  }
+
+  // Partial and failed rep attempts (not counted as reps)
+  getRepAttempts(): RepAttempt[] {
+    return [];
+  }
+
+  // Per-side reps, scores and asymmetry (unilateral exercises only)
+  getSideSummary(): UnilateralSummary | null {
+    return null;
+  }
+
+  // Time held, breaks and hold quality (isometric holds only)
+  getHoldSummary(): HoldSummary | null {
+    return null;
+  }
+
+  // Rescales the rep position to the user's learned range (see RomCalibration)
+  setRomCalibrator(calibrator: RomCalibrator | null): void {
+    // Default no-op
+  }
 }
@@ -1,11 +1,38 @@
-import { PoseLandmark, ExerciseType } from './ExerciseAnalyzer';
+import { PoseLandmark, ExerciseType, ExerciseCandidate } from './ExerciseAnalyzer';
+import { adaptToCanonical } from './skeleton/SkeletonAdapters';
+import { measureAngle } from './analysis/JointAngles';
+import { BodyProportions, REFERENCE_BODY } from './analysis/BodyScale';
+import { exerciseLabel } from '../i18n/Messages';
 
 /**
- * Detects the exercise type based on pose landmarks.
+ * Ranks exercise candidates for a pose.
  * Pure function to avoid Worklet context issues with Class instances.
+ *
+ * Every rule condition is evaluated as a degree (0-1) instead of a boolean:
+ * 0.5 sits exactly on the hand-tuned threshold and the degree saturates a
+ * soft margin (POS / ANG) away from it. A rule's strength is its weakest
+ * condition, so a rule "fires" when all of its conditions are on the right
+ * side of their thresholds - the same decisions as the original if-chain.
+ *
+ * Rules are registered in priority order; the first rule that fires wins
+ * (ranked first, matched = true). Other exercises whose rules came close are
+ * ranked behind it by strength. Returns [] when no rule fires.
+ *
+ * Screen-distance thresholds are tuned at the reference body size and scaled
+ * by body.scale; without a body estimate they apply as tuned.
  */
-export function classifyExercise(landmarks: PoseLandmark[]): ExerciseType | null {
-    if (landmarks.length < 33) return null;
+export function classifyExercise(landmarks: PoseLandmark[], body: BodyProportions = REFERENCE_BODY): ExerciseCandidate[] {
+    landmarks = adaptToCanonical(landmarks);
+    if (landmarks.length < 33) return [];
+
+    const rules: Rule[] = [];
+    const rule = (exercise: ExerciseType, ...conditions: number[]) => {
+        rules.push({ exercise, strength: Math.min(...conditions) });
+    };
+
+    // Screen distances are tuned at the reference body size; scale them to the athlete's
+    const d = (distance: number) => distance * body.scale;
+    const pos = d(POS);
 
     // --- REUSABLE COORDINATES & MEASUREMENTS ---
     const shoulderY = (landmarks[11].y + landmarks[12].y) / 2;
@@ -13,6 +40,7 @@ export function classifyExercise(landmarks: PoseLandmark[]): ExerciseType | null
     const wristY = (landmarks[15].y + landmarks[16].y) / 2;
     const kneeY = (landmarks[25].y + landmarks[26].y) / 2;
     const ankleY = (landmarks[27].y + landmarks[28].y) / 2;
+    const elbowY = (landmarks[13].y + landmarks[14].y) / 2;
     const noseY = landmarks[0].y;
 
     const shoulderX = (landmarks[11].x + landmarks[12].x) / 2;
@@ -27,23 +55,25 @@ export function classifyExercise(landmarks: PoseLandmark[]): ExerciseType | null
     const reclineAngleDeg = Math.atan(reclineRatio) * 180 / Math.PI;
 
     // Orientation
-    const upright = shoulderY < hipY;
-    const isStanding = upright && (verticalDiff > horizontalDiff * 0.5);
-    const isLying = horizontalDiff > verticalDiff * 0.7;
+    const upright = below(shoulderY, hipY, pos);
+    const isStanding = all(upright, above(verticalDiff, horizontalDiff * 0.5, pos));
+    const isLying = above(horizontalDiff, verticalDiff * 0.7, pos);
 
     // Limb Angles
     const elbowAngle = getAvgAngle(landmarks, 11, 13, 15, 12, 14, 16);
     const hipAngle = getAvgAngle(landmarks, 11, 23, 25, 12, 24, 26);
     const kneeAngle = getAvgAngle(landmarks, 23, 25, 27, 24, 26, 28);
 
-    // Common Booleans
-    const feetOnFloor = ankleY > 0.72;
+    // Common Conditions
+    // Ankles down near the floor once it has been seen, else low in the frame (as tuned)
+    const floorLine = body.floorY !== null ? body.floorY - d(FLOOR_CLEARANCE) : 0.72;
+    const feetOnFloor = above(ankleY, floorLine, pos);
     // Robust handsOverhead: Use nose as primary, but shoulder as fallback for back views
-    const handsOverhead = (wristY < noseY) || (wristY < shoulderY - 0.15);
+    const handsOverhead = any(below(wristY, noseY, pos), below(wristY, shoulderY - d(0.15), pos));
     const wristTorsoDistanceX = Math.abs(wristX - shoulderX);
     const elbowWidth = Math.abs(landmarks[13].x - landmarks[14].x);
     const wristWidth = Math.abs(landmarks[15].x - landmarks[16].x);
-    const elbowsTucked = elbowWidth < torsoHeight * 1.0;
+    const elbowsTucked = below(elbowWidth, torsoHeight * 1.0, pos);
 
     // === GLOBAL T-BAR ROW CHECK ===
     const bodyStraightness = Math.abs(180 - hipAngle);
@@ -52,230 +82,266 @@ export function classifyExercise(landmarks: PoseLandmark[]): ExerciseType | null
     const bodyDx = Math.abs(shoulderX - ankleX);
     const bodyInclinationDeg = Math.atan2(bodyDx, bodyDy) * (180 / Math.PI);
 
-    const isBodyStraight = bodyStraightness < 30 && legStraightness < 30;
-    const isInclinedHypotenuse = bodyInclinationDeg > 20 && bodyInclinationDeg < 80;
-    const handsAreLow = wristY > shoulderY;
+    const isBodyStraight = all(below(bodyStraightness, 30, ANG), below(legStraightness, 30, ANG));
+    const isInclinedHypotenuse = between(bodyInclinationDeg, 20, 80, ANG);
+    const handsAreLow = above(wristY, shoulderY, pos);
+    // Push Up / Plank: the hands are down on the floor with the feet; in a row they hang above it
+    const handsOnFloor = below(Math.abs(wristY - ankleY), d(0.08), pos);
 
-    if (isBodyStraight && isInclinedHypotenuse && handsAreLow) {
-        return 'T-Bar Row';
-    }
+    rule('T-Bar Row', isBodyStraight, isInclinedHypotenuse, handsAreLow, not(handsOnFloor));
 
-    const torsoInclined = Math.abs(shoulderX - hipX) > Math.abs(shoulderY - hipY) * 0.3;
-    const isHinging = bodyStraightness > 30;
-    const kneesBentRange = kneeAngle < 165 && kneeAngle > 70;
+    const torsoInclined = above(horizontalDiff, verticalDiff * 0.3, pos);
+    const isHinging = above(bodyStraightness, 30, ANG);
+    const kneesBentRange = between(kneeAngle, 70, 165, ANG);
 
-    if (upright && torsoInclined && handsAreLow && kneesBentRange && feetOnFloor && isHinging) {
-        return 'T-Bar Row';
-    }
+    rule('T-Bar Row', upright, torsoInclined, handsAreLow, kneesBentRange, feetOnFloor, isHinging);
 
     // === GLOBAL RUSSIAN TWIST CHECK ===
     // Russian Twist is UNIQUE: Reclined torso + bent knees + hands at torso level
     // Key: V-sit position (shoulders higher than hips OR reclined angle)
-    const hipCenterX = hipX;
-    const wristCenterX = wristX;
-    const handsOffsetFromHips = Math.abs(wristCenterX - hipCenterX);
-    const isHandsToOneSide = handsOffsetFromHips > torsoHeight * 0.1; // Lowered threshold
-    const isReclined = reclineAngleDeg > 10 && reclineAngleDeg < 80; // Wider range
-    const kneesBentForTwist = kneeAngle < 150; // Relaxed
-    const handsAtTorsoLevel = wristY < hipY + 0.2 && wristY > shoulderY - 0.15;
-    const isVSitPosture = shoulderY < hipY; // Shoulders higher than hips (reclined)
+    const isReclined = between(reclineAngleDeg, 10, 80, ANG); // Wider range
+    const kneesBentForTwist = below(kneeAngle, 150, ANG); // Relaxed
+    const handsAtTorsoLevel = all(below(wristY, hipY + d(0.2), pos), above(wristY, shoulderY - d(0.15), pos));
+    const isVSitPosture = below(shoulderY, hipY, pos); // Shoulders higher than hips (reclined)
 
     // Trigger if: NOT upright + reclined posture + bent knees + hands at torso level
     // Exclude upright positions (like Tricep Dips where skeleton is vertical)
-    if (!upright && (isReclined || isVSitPosture) && kneesBentForTwist && handsAtTorsoLevel) {
-        return 'Russian Twist';
-    }
+    rule('Russian Twist', not(upright), any(isReclined, isVSitPosture), kneesBentForTwist, handsAtTorsoLevel);
 
     // === CHEST FLY MACHINE ===
-    const thighIsHorizontalCF = Math.abs(kneeY - hipY) < torsoHeight * 0.25;
-    const isSeatedCF = kneeAngle < 155 && hipAngle < 150 && thighIsHorizontalCF;
-    const isWideArmSpan = (elbowWidth > torsoHeight * 1.0) || (wristWidth > torsoHeight * 0.9);
-    const isWideSpanSideView = wristTorsoDistanceX > torsoHeight * 0.4;
+    const thighIsHorizontal = below(Math.abs(kneeY - hipY), torsoHeight * 0.25, pos);
+    const isSeatedCF = all(below(kneeAngle, 155, ANG), below(hipAngle, 150, ANG), thighIsHorizontal);
+    const isWideArmSpan = any(above(elbowWidth, torsoHeight * 1.0, pos), above(wristWidth, torsoHeight * 0.9, pos));
+    const isWideSpanSideView = above(wristTorsoDistanceX, torsoHeight * 0.4, pos);
 
     // Chest height requirement (Cannot be overhead)
-    const handsBelowShoulders = wristY > shoulderY - 0.05;
-    const handsAboveHips = wristY < hipY - (torsoHeight * 0.1);
-    const handsInChestZone = handsBelowShoulders && handsAboveHips;
+    const handsBelowShoulders = above(wristY, shoulderY - d(0.05), pos);
+    const handsAboveHips = below(wristY, hipY - (torsoHeight * 0.1), pos);
+    const handsInChestZone = all(handsBelowShoulders, handsAboveHips);
 
     // CRITICAL: Chest Fly machine has a vertical backrest (!torsoInclined)
-    if (upright && !handsOverhead && !torsoInclined && isSeatedCF && handsInChestZone) {
-        if (isWideArmSpan || isWideSpanSideView) {
-            return 'Chest Fly Machine';
-        }
-    }
-
+    rule('Chest Fly Machine', upright, not(handsOverhead), not(torsoInclined), isSeatedCF, handsInChestZone,
+        any(isWideArmSpan, isWideSpanSideView));
 
     // --- 2. STANDING / SEATED EXERCISES ---
-    if (isStanding) {
-        // T-Bar Row Check fallback
-        const isBentOverHighKnee = kneeAngle < 150 && wristY > hipY;
-        if ((torsoInclined || isBentOverHighKnee) && wristY > shoulderY && kneeY > hipY + 0.1) {
-            if (kneeAngle > 90) return 'T-Bar Row';
-        }
-
-        // === LEG EXTENSION (Seated Machine - Inclined Body) ===
-        const thighIsHorizontal = Math.abs(kneeY - hipY) < torsoHeight * 0.25;
-        const handsAtSides = wristTorsoDistanceX < torsoHeight * 0.45;
-        const handsNearSeat = Math.abs(wristY - hipY) < torsoHeight * 0.4;
-        const hipFlexedLE = hipAngle < 160;
-        // V-Sit exclusion (Russian Twist): In a Leg Extension, shoulders are NOT higher than hips
-        const notVSit = shoulderY >= hipY - 0.05;
-
-        // CRITICAL: Leg extension requires feet on floor/machine and NOT in V-sit position
-        if (torsoInclined && hipFlexedLE && thighIsHorizontal && handsNearSeat && handsAtSides && feetOnFloor && notVSit) {
-            return 'Leg Extension';
-        }
-
-        // Tricep Dips
-        const feetVisible = (landmarks[27].visibility || 0) > 0.5;
-        const handsInDipZone = wristY > (shoulderY - 0.1) && wristY < (hipY + 0.2);
-
-        if (handsInDipZone) {
-            if (feetVisible && !feetOnFloor) return 'Tricep Dips';
-            if (!torsoInclined && kneeAngle < 150 && elbowsTucked) {
-                return 'Tricep Dips';
-            }
-        }
-
-        // === SQUAT DETECTION (Strict) ===
-        const wristsElevated = wristY < shoulderY + 0.15;
-        const wristsNearShoulders = Math.abs(wristY - shoulderY) < 0.2;
-        const isDeepSquat = kneeAngle < 120 && hipAngle < 120;
-
-        // Barbell Squat
-        if (torsoInclined && kneeAngle < 140 && hipAngle < 150 && (wristsElevated || wristsNearShoulders) && feetOnFloor) {
-            return 'Squat';
-        }
-
-        // Bodyweight Squat (Feet MUST be flat)
-        if (isDeepSquat && feetOnFloor && !thighIsHorizontal) {
-            return 'Squat';
-        }
-
-
-
-        // === BARBELL BICEPS CURL (Strictly Standing) ===
-        const elbowsLow = (landmarks[13].y + landmarks[14].y) / 2 > shoulderY + 0.05;
-        // Bicep Curl MUST have straight legs. If legs are moving, it's not a standing curl.
-        const isLegMoving = kneeAngle < 160 || hipAngle < 160;
-        const legsStraightish = !isLegMoving;
-
-        if (!torsoInclined && !handsOverhead && elbowAngle < 170 && elbowsTucked && elbowsLow && legsStraightish) {
-            return 'Barbell Biceps Curl';
-        }
-
-        // === LEG RAISES ON PARALLEL BARS (Straight Body) ===
-        const wristNearHips = Math.abs(wristY - hipY) < 0.25;
-        const elbowsLocked = elbowAngle > 150;
-        if (!torsoInclined && wristNearHips && elbowsLocked && elbowsTucked) {
-            const ankleAboveKnee = ankleY < kneeY - 0.05;
-            const hipFlexed = hipAngle < 155; // Legs lifting
-
-            // For Leg Raises, the upper body is straight, unlike Leg Extension machine
-            if (ankleAboveKnee || hipFlexed) {
-                return 'Leg Raises';
-            }
-        }
-
-        // === LATERAL RAISES (Standing) ===
-        const isStandingStraight = kneeAngle > 165 && hipAngle > 165;
-        const handsBelowShouldersLR = wristY > shoulderY - 0.05;
-
-        // "Wide Arc" Rule: Wrists must be significantly wider than elbows to be a Raise (bird wings)
-        const isWideArc = wristWidth > elbowWidth * 1.2;
-        const armIsExtendedLR = ((wristWidth > torsoHeight * 0.7) || (wristTorsoDistanceX > torsoHeight * 0.35)) && isWideArc;
-
-        if (isStandingStraight && armIsExtendedLR && handsBelowShouldersLR && !handsOverhead) {
-            return 'Lateral Raises';
-        }
-
-        // === OVERHEAD EXERCISES ===
-        if (handsOverhead) {
-            const armIsExtendedOut = wristTorsoDistanceX > 0.15;
-
-            if (armIsExtendedOut && !elbowsTucked && (feetOnFloor || hipAngle > 160)) return 'Lateral Raises';
-
-            const thighIsHorizontal = Math.abs(kneeY - hipY) < torsoHeight * 0.25;
-            const anklesBelowKnees = ankleY > kneeY + 0.05;
-            // Perspective Fix (Back View): If thighs are horizontal and feet are down, user is seated regardless of 2D hipAngle
-            const isSeatedOnMachine = (hipAngle < 135 || (thighIsHorizontal && anklesBelowKnees)) && (feetOnFloor || thighIsHorizontal);
-            const handsAboveShoulders = wristY < shoulderY - 0.05;
-
-            // 1. Incline Bench Press Check (Seated but reclined)
-            const avgShoulderFlexion = (calculateAngle(landmarks[23], landmarks[11], landmarks[15]) + calculateAngle(landmarks[24], landmarks[12], landmarks[16])) / 2;
-            if (reclineAngleDeg >= 25 && reclineAngleDeg <= 65 && avgShoulderFlexion < 160 && handsAboveShoulders) {
-                return 'Incline Bench Press';
-            }
-
-            // 2. Lat Pulldown requires sitting (bent hips) and horizontal thighs/feet down
-            if (isSeatedOnMachine && handsAboveShoulders) return 'Lat Pulldown';
-
-            // 3. Pull Up: Hands above shoulders, NOT seated on machine, and feet dangling
-            if (handsAboveShoulders && !isSeatedOnMachine && !feetOnFloor) return 'Pull Up';
-        }
-
-        return null;
-    }
+    // T-Bar Row Check fallback
+    const isBentOverHighKnee = all(below(kneeAngle, 150, ANG), above(wristY, hipY, pos));
+    rule('T-Bar Row', isStanding, any(torsoInclined, isBentOverHighKnee), above(wristY, shoulderY, pos),
+        above(kneeY, hipY + d(0.1), pos), above(kneeAngle, 90, ANG));
 
-    // --- 3. LYING EXERCISES ---
-    if (isLying) {
-        const legsAreVertical = kneeY > hipY + 0.15;
-        const shouldersHigherThanHips = shoulderY < hipY - 0.05;
+    // === LEG EXTENSION (Seated Machine - Inclined Body) ===
+    const handsAtSides = below(wristTorsoDistanceX, torsoHeight * 0.45, pos);
+    const handsNearSeat = below(Math.abs(wristY - hipY), torsoHeight * 0.4, pos);
+    const hipFlexedLE = below(hipAngle, 160, ANG);
+    // V-Sit exclusion (Russian Twist): In a Leg Extension, shoulders are NOT higher than hips
+    const notVSit = above(shoulderY, hipY - d(0.05), pos);
+
+    // CRITICAL: Leg extension requires feet on floor/machine and NOT in V-sit position
+    rule('Leg Extension', isStanding, torsoInclined, hipFlexedLE, thighIsHorizontal, handsNearSeat, handsAtSides, feetOnFloor, notVSit);
+
+    // Tricep Dips
+    const feetVisible = above(landmarks[27].visibility || 0, 0.5, 0.1);
+    const handsInDipZone = all(above(wristY, shoulderY - d(0.1), pos), below(wristY, hipY + d(0.2), pos));
+
+    rule('Tricep Dips', isStanding, handsInDipZone, feetVisible, not(feetOnFloor));
+    rule('Tricep Dips', isStanding, handsInDipZone, not(torsoInclined), below(kneeAngle, 150, ANG), elbowsTucked);
+
+    // === SQUAT DETECTION (Strict) ===
+    const wristsElevated = below(wristY, shoulderY + d(0.15), pos);
+    const wristsNearShoulders = below(Math.abs(wristY - shoulderY), d(0.2), pos);
+    const isDeepSquat = all(below(kneeAngle, 120, ANG), below(hipAngle, 120, ANG));
+
+    // Barbell Squat
+    rule('Squat', isStanding, torsoInclined, below(kneeAngle, 140, ANG), below(hipAngle, 150, ANG),
+        any(wristsElevated, wristsNearShoulders), feetOnFloor);
+
+    // Bodyweight Squat (Feet MUST be flat)
+    rule('Squat', isStanding, isDeepSquat, feetOnFloor, not(thighIsHorizontal));
+
+    // === BARBELL BICEPS CURL (Strictly Standing) ===
+    const elbowsLow = above(elbowY, shoulderY + d(0.05), pos);
+    // Bicep Curl MUST have straight legs. If legs are moving, it's not a standing curl.
+    const legsStraightish = all(above(kneeAngle, 160, ANG), above(hipAngle, 160, ANG));
+
+    rule('Barbell Biceps Curl', isStanding, not(torsoInclined), not(handsOverhead), below(elbowAngle, 170, ANG),
+        elbowsTucked, elbowsLow, legsStraightish);
 
-        // === RUSSIAN TWIST (Priority) ===
-        // In a Russian Twist, knees are bent, shoulders are higher than hips (V-sit), and body is reclined
-        const kneesBentRT = kneeAngle < 140;
-        const isVSitPosition = shouldersHigherThanHips && kneesBentRT && !legsAreVertical;
-        // Relaxed conditions: Don't require elbowsTucked (arms can be extended holding weight)
-        if (isVSitPosition && reclineAngleDeg > 15 && reclineAngleDeg < 70) {
-            return 'Russian Twist';
-        }
+    // === LEG RAISES ON PARALLEL BARS (Straight Body) ===
+    const wristNearHips = below(Math.abs(wristY - hipY), d(0.25), pos);
+    const elbowsLocked = above(elbowAngle, 150, ANG);
+    const ankleAboveKnee = below(ankleY, kneeY - d(0.05), pos);
+    const hipFlexed = below(hipAngle, 155, ANG); // Legs lifting
 
-        if (legsAreVertical) return 'T-Bar Row';
+    // For Leg Raises, the upper body is straight, unlike Leg Extension machine
+    rule('Leg Raises', isStanding, not(torsoInclined), wristNearHips, elbowsLocked, elbowsTucked, any(ankleAboveKnee, hipFlexed));
 
-        const isProne = wristY > shoulderY;
-        const faceIsUp = noseY < shoulderY + 0.1;
-        const kneesBent = kneeAngle < 135;
-        const legsStraight = kneeAngle > 150;
+    // === LATERAL RAISES (Standing) ===
+    const isStandingStraight = all(above(kneeAngle, 165, ANG), above(hipAngle, 165, ANG));
+    const handsBelowShouldersLR = above(wristY, shoulderY - d(0.05), pos);
 
+    // "Wide Arc" Rule: Wrists must be significantly wider than elbows to be a Raise (bird wings)
+    const isWideArc = above(wristWidth, elbowWidth * 1.2, pos);
+    const armIsExtendedLR = all(any(above(wristWidth, torsoHeight * 0.7, pos), above(wristTorsoDistanceX, torsoHeight * 0.35, pos)), isWideArc);
 
-        // === PUSH UP / PLANK ===
-        const legsHorizontal = Math.abs(kneeY - hipY) < 0.15;
-        const bodyIsFlat = Math.abs(shoulderY - ankleY) < 0.15;
+    rule('Lateral Raises', isStanding, isStandingStraight, armIsExtendedLR, handsBelowShouldersLR, not(handsOverhead));
 
-        if (!legsHorizontal) return 'T-Bar Row';
-        if (shouldersHigherThanHips && !bodyIsFlat) return 'T-Bar Row';
+    // === OVERHEAD EXERCISES ===
+    const isOverhead = all(isStanding, handsOverhead);
+    const armIsExtendedOut = above(wristTorsoDistanceX, d(0.15), pos);
 
-        if (legsStraight && legsHorizontal && bodyIsFlat) {
-            const avgElbow = (calculateAngle(landmarks[11], landmarks[13], landmarks[15]) + calculateAngle(landmarks[12], landmarks[14], landmarks[16])) / 2;
-            if (Math.abs(wristY - (landmarks[13].y + landmarks[14].y) / 2) < 0.15 && avgElbow < 130) return 'Plank';
-            return 'Push Up';
-        }
+    rule('Lateral Raises', isOverhead, armIsExtendedOut, not(elbowsTucked), any(feetOnFloor, above(hipAngle, 160, ANG)));
 
-        if (isProne && !faceIsUp && !kneesBent && legsHorizontal && bodyIsFlat) return 'Push Up';
+    const anklesBelowKnees = above(ankleY, kneeY + d(0.05), pos);
+    // Perspective Fix (Back View): If thighs are horizontal and feet are down, user is seated regardless of 2D hipAngle
+    const isSeatedOnMachine = all(any(below(hipAngle, 135, ANG), all(thighIsHorizontal, anklesBelowKnees)), any(feetOnFloor, thighIsHorizontal));
+    const handsAboveShoulders = below(wristY, shoulderY - d(0.05), pos);
 
-        if (kneesBent || !isProne) {
-            if (reclineAngleDeg <= 65) return 'Incline Bench Press';
-            return 'Bench Press';
-        }
+    // 1. Incline Bench Press Check (Seated but reclined)
+    const avgShoulderFlexion = (calculateAngle(landmarks[23], landmarks[11], landmarks[15]) + calculateAngle(landmarks[24], landmarks[12], landmarks[16])) / 2;
+    rule('Incline Bench Press', isOverhead, between(reclineAngleDeg, 25, 65, ANG), below(avgShoulderFlexion, 160, ANG), handsAboveShoulders);
 
-        if (isProne && legsHorizontal && bodyIsFlat) return 'Push Up';
-        if (reclineAngleDeg <= 65) return 'Incline Bench Press';
-        return 'Bench Press';
-    }
+    // 2. Lat Pulldown requires sitting (bent hips) and horizontal thighs/feet down
+    rule('Lat Pulldown', isOverhead, isSeatedOnMachine, handsAboveShoulders);
 
-    return null;
+    // 3. Pull Up: Hands above shoulders, NOT seated on machine, and feet dangling
+    rule('Pull Up', isOverhead, handsAboveShoulders, not(isSeatedOnMachine), not(feetOnFloor));
+
+    // --- 3. LYING EXERCISES ---
+    // Standing poses never fall through to the lying rules
+    const lying = all(not(isStanding), isLying);
+    const legsAreVertical = above(kneeY, hipY + d(0.15), pos);
+    const shouldersHigherThanHips = below(shoulderY, hipY - d(0.05), pos);
+
+    // === RUSSIAN TWIST (Priority) ===
+    // In a Russian Twist, knees are bent, shoulders are higher than hips (V-sit), and body is reclined
+    const kneesBentRT = below(kneeAngle, 140, ANG);
+    const isVSitPosition = all(shouldersHigherThanHips, kneesBentRT, not(legsAreVertical));
+    // Relaxed conditions: Don't require elbowsTucked (arms can be extended holding weight)
+    rule('Russian Twist', lying, isVSitPosition, between(reclineAngleDeg, 15, 70, ANG));
+
+    rule('T-Bar Row', lying, legsAreVertical);
+
+    const isProne = above(wristY, shoulderY, pos);
+    const faceIsUp = below(noseY, shoulderY + d(0.1), pos);
+    const kneesBent = below(kneeAngle, 135, ANG);
+    const legsStraight = above(kneeAngle, 150, ANG);
+
+    // === PUSH UP / PLANK ===
+    const legsHorizontal = below(Math.abs(kneeY - hipY), d(0.15), pos);
+    const bodyIsFlat = below(Math.abs(shoulderY - ankleY), d(0.15), pos);
+
+    rule('T-Bar Row', lying, not(legsHorizontal));
+    rule('T-Bar Row', lying, shouldersHigherThanHips, not(bodyIsFlat), not(handsOnFloor));
+
+    const avgElbow = (calculateAngle(landmarks[11], landmarks[13], landmarks[15]) + calculateAngle(landmarks[12], landmarks[14], landmarks[16])) / 2;
+    const isPlankHold = all(below(Math.abs(wristY - elbowY), d(0.15), pos), below(avgElbow, 130, ANG));
+    rule('Plank', lying, legsStraight, legsHorizontal, bodyIsFlat, isPlankHold);
+    // At lockout the shoulders are an arm's length up: straight body resting on the hands
+    const supportedOnHands = all(isBodyStraight, handsOnFloor);
+    rule('Push Up', lying, legsStraight, legsHorizontal, any(bodyIsFlat, supportedOnHands));
+
+    rule('Push Up', lying, isProne, not(faceIsUp), not(kneesBent), legsHorizontal, bodyIsFlat);
+
+    const isPressing = any(kneesBent, not(isProne));
+    rule('Incline Bench Press', lying, isPressing, below(reclineAngleDeg, 65, ANG));
+    rule('Bench Press', lying, isPressing, above(reclineAngleDeg, 65, ANG));
+
+    rule('Push Up', lying, isProne, legsHorizontal, bodyIsFlat);
+    rule('Incline Bench Press', lying, below(reclineAngleDeg, 65, ANG));
+    rule('Bench Press', lying, above(reclineAngleDeg, 65, ANG));
+
+    return rankCandidates(rules);
+}
+
+/**
+ * The exercise the classifier committed to (the fired rule), or null.
+ */
+export function topExercise(candidates: ExerciseCandidate[]): ExerciseType | null {
+    return candidates.length > 0 && candidates[0].matched ? candidates[0].exercise : null;
+}
+
+/**
+ * "Squat 72% / Leg Extension 20%"
+ */
+export function formatCandidates(candidates: ExerciseCandidate[], limit: number = 2): string {
+    return candidates
+        .slice(0, limit)
+        .map(c => `${exerciseLabel(c.exercise)} ${Math.round(c.confidence * 100)}%`)
+        .join(' / ');
 }
 
 // --- Helper Functions (Pure) ---
 
+interface Rule {
+    exercise: ExerciseType;
+    strength: number;
+}
+
+// Soft margins: how far past a threshold a condition becomes fully true/false
+const POS = 0.03; // Normalized image coordinates (at the reference body size)
+const ANG = 10;   // Degrees
+
+// How far above the floor the ankles may still count as "feet on the floor"
+const FLOOR_CLEARANCE = 0.16;
+
+// Rules weaker than this are not worth showing as alternatives
+const MIN_CANDIDATE_STRENGTH = 0.25;
+
+function rankCandidates(rules: Rule[]): ExerciseCandidate[] {
+    const winner = rules.find(r => r.strength > 0.5);
+    if (!winner) return [];
+
+    const strengths = new Map<ExerciseType, number>();
+    rules.forEach(r => strengths.set(r.exercise, Math.max(strengths.get(r.exercise) ?? 0, r.strength)));
+
+    // Rule priority decides between several fired rules, so the winner takes the top strength
+    strengths.set(winner.exercise, Math.max(...strengths.values()));
+
+    const ranked = [...strengths.entries()]
+        .filter(([exercise, strength]) => exercise === winner.exercise || strength >= MIN_CANDIDATE_STRENGTH)
+        .sort((a, b) => (a[0] === winner.exercise ? -1 : b[0] === winner.exercise ? 1 : b[1] - a[1]));
+
+    const total = ranked.reduce((sum, [, strength]) => sum + strength, 0);
+    return ranked.map(([exercise, strength]) => ({
+        exercise,
+        confidence: strength / total,
+        matched: exercise === winner.exercise
+    }));
+}
+
+// Degree (0-1) to which value > threshold; 0.5 at the threshold itself
+function above(value: number, threshold: number, margin: number): number {
+    return clamp01(0.5 + (value - threshold) / (2 * margin));
+}
+
+function below(value: number, threshold: number, margin: number): number {
+    return clamp01(0.5 + (threshold - value) / (2 * margin));
+}
+
+function between(value: number, low: number, high: number, margin: number): number {
+    return Math.min(above(value, low, margin), below(value, high, margin));
+}
+
+function all(...conditions: number[]): number {
+    return Math.min(...conditions);
+}
+
+function any(...conditions: number[]): number {
+    return Math.max(...conditions);
+}
+
+function not(condition: number): number {
+    return 1 - condition;
+}
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
 function getAvgAngle(lm: PoseLandmark[], a1: number, b1: number, c1: number, a2: number, b2: number, c2: number): number {
     return (calculateAngle(lm[a1], lm[b1], lm[c1]) + calculateAngle(lm[a2], lm[b2], lm[c2])) / 2;
 }
 
 function calculateAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark): number {
-    const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
-    let angle = Math.abs((radians * 180.0) / Math.PI);
-    if (angle > 180.0) angle = 360 - angle;
-    return angle;
+    return measureAngle(a, b, c).value;
 }
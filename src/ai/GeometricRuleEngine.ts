@@ -1,4 +1,4 @@
-import { ExerciseAnalyzer, Feedback, PoseLandmark, ExerciseType } from './ExerciseAnalyzer';
+import { ExerciseAnalyzer, Feedback, PoseLandmark, ExerciseType, ExerciseCandidate, isHoldExercise } from './ExerciseAnalyzer';
 import { SquatAnalyzer } from './exercises/SquatAnalyzer';
 import { PushUpAnalyzer } from './exercises/PushupAnalyzer';
 import { BenchPressAnalyzer } from './exercises/BenchPressAnalyzer';
@@ -14,8 +14,94 @@ import { TricepDipsAnalyzer } from './exercises/TricepDipsAnalyzer';
 import { TBarRowAnalyzer } from './exercises/TBarRowAnalyzer';
 import { LatPulldownAnalyzer } from './exercises/LatPulldownAnalyzer';
 import { LateralRaiseAnalyzer } from './exercises/LateralRaiseAnalyzer';
+import { AlternatingCurlAnalyzer } from './exercises/AlternatingCurlAnalyzer';
+import { SingleArmRowAnalyzer } from './exercises/SingleArmRowAnalyzer';
+import { AlternatingLungeAnalyzer } from './exercises/AlternatingLungeAnalyzer';
+import { UnilateralAnalyzer } from './exercises/UnilateralAnalyzer';
+import { SidePlankAnalyzer } from './exercises/SidePlankAnalyzer';
+import { WallSitAnalyzer } from './exercises/WallSitAnalyzer';
+import { DeadHangAnalyzer } from './exercises/DeadHangAnalyzer';
+import { HollowHoldAnalyzer } from './exercises/HollowHoldAnalyzer';
+import { IsometricHoldAnalyzer } from './exercises/IsometricHoldAnalyzer';
 
-import { classifyExercise } from './ExerciseClassifier';
+import { topExercise } from './ExerciseClassifier';
+import { TemporalClassifier } from './motion/TemporalClassifier';
+import { LandmarkSmoother, SmoothingOptions } from './filters/LandmarkSmoother';
+import { adaptToCanonical, FrameSize } from './skeleton/SkeletonAdapters';
+import { toIsotropic } from './skeleton/FrameSpace';
+import { t, exerciseLabel } from '../i18n/Messages';
+import { SessionSegmenter, ExerciseSegment, SegmentEndReason, SegmentResults } from './session/SessionSegmenter';
+import { RepTimestamp, RepRecord, RepAttempt } from './reps/RepCounter';
+import { TempoPrescription, TempoSummary, tempoCue, summarizeTempo } from './tempo/Tempo';
+import { RomCalibrator, RomCalibrations, CalibrationKey, CalibrationMode, sideCalibrationKey } from './reps/RomCalibration';
+import { StrictnessLevel, ScoringOverrides, exerciseScoring } from './scoring/ScoringProfile';
+
+// Share of its Auto-Detect evidence an exercise keeps per frame it is not a candidate
+const EVIDENCE_DECAY = 0.5;
+
+// Auto-Detect gives up a lock after this long without the locked exercise being seen (or a rep counted)
+const UNLOCK_MISMATCH_MS = 4000;
+// No rep for this long ends the current block (rest between exercises)
+const REST_NO_REP_MS = 12000;
+// Pose lost for this long ends the current block
+const REST_GAP_MS = 5000;
+
+// A rep's tempo is judged once its return movement has settled (RepCounter counts it mid-way)
+const TEMPO_SETTLE_MS = 500;
+// How long a tempo cue stays up
+const TEMPO_CUE_MS = 3000;
+
+/**
+ * Everything set on the engine that changes what it reports for the same
+ * frames. Pose tracks carry it so a replay scores the session the way the
+ * user saw it.
+ */
+export interface EngineSettings {
+    scoringLevel: StrictnessLevel;
+    scoringOverrides: ScoringOverrides | null;
+    romCalibrationMode: CalibrationMode;
+    romCalibrations: RomCalibrations;
+    tempoPrescription: TempoPrescription | null;
+    holdTarget: number | null; // Seconds
+}
+
+const ANALYZER_FACTORIES = {
+    // Legs
+    'Squat': () => new SquatAnalyzer(),
+    'Leg Extension': () => new LegExtensionAnalyzer(),
+    'Leg Raises': () => new LegRaisesAnalyzer(),
+
+    // Push
+    'Push Up': () => new PushUpAnalyzer(),
+    'Bench Press': () => new BenchPressAnalyzer(),
+    'Incline Bench Press': () => new InclineBenchAnalyzer(),
+    'Chest Fly Machine': () => new ChestFlyAnalyzer(),
+    'Tricep Dips': () => new TricepDipsAnalyzer(),
+
+    // Pull
+    'Pull Up': () => new PullUpAnalyzer(),
+    'Lat Pulldown': () => new LatPulldownAnalyzer(),
+    'T-Bar Row': () => new TBarRowAnalyzer(),
+    'Barbell Biceps Curl': () => new BicepCurlAnalyzer(),
+    'Lateral Raises': () => new LateralRaiseAnalyzer(),
+
+    // Core
+    'Plank': () => new PlankAnalyzer(),
+    'Russian Twist': () => new RussianTwistAnalyzer(),
+
+    // Unilateral (manual selection only, Auto-Detect has no rules for them)
+    'Alternating Dumbbell Curl': () => new AlternatingCurlAnalyzer(),
+    'Single Arm Dumbbell Row': () => new SingleArmRowAnalyzer(),
+    'Alternating Lunge': () => new AlternatingLungeAnalyzer(),
+
+    // Holds (manual selection only, Auto-Detect only recognizes Plank)
+    'Side Plank': () => new SidePlankAnalyzer(),
+    'Wall Sit': () => new WallSitAnalyzer(),
+    'Dead Hang': () => new DeadHangAnalyzer(),
+    'Hollow Hold': () => new HollowHoldAnalyzer(),
+
+    'Auto-Detect': () => new SquatAnalyzer(),
+} as unknown as Record<ExerciseType, () => ExerciseAnalyzer>;
 
 export class GeometricRuleEngine {
     private analyzers: Record<ExerciseType, ExerciseAnalyzer>;
@@ -24,64 +110,192 @@ export class GeometricRuleEngine {
     // Locking Mechanism
     private isLocked: boolean = false;
     private lockedExercise: ExerciseType | null = null;
-    private consecutiveFrames: number = 0;
+    private evidence: Partial<Record<ExerciseType, number>> = {};
     private potentialExercise: ExerciseType | null = null;
+    private detectionStart = 0; // Frame time potentialExercise was first detected
+    private newlyLocked: ExerciseType | null = null; // Reported once, in Feedback.exerciseLocked
     private shoulderHistory: number[] = [];
 
+    // Posture rules + motion over a sliding window
+    private classifier = new TemporalClassifier();
+
+    // Session segmentation (one block per exercise, see SessionSegmenter)
+    private segmenter = new SessionSegmenter();
+    private recordingStartTime = 0;
+    private lastFrameTime: number | null = null;
+    private lastRepTime = 0;
+    private lastReps = 0;
+    private mismatchSince: number | null = null;
+
+    // Prescribed tempo (e.g. 3-1-1-0) and the live cue for the last rep
+    private tempoPrescription: TempoPrescription | null = null;
+    private tempoCue: { text: string; until: number } | null = null;
+    private tempoCheckAt: number | null = null;
+
+    // Target duration for holds (null = each exercise's default)
+    private holdTarget: number | null = null;
+
+    // Scoring profile: strictness level plus the user's overrides (see ScoringProfile)
+    private scoringLevel: StrictnessLevel = 'intermediate';
+    private scoringOverrides: ScoringOverrides | null = null;
+
+    // Suppress the Auto-Detect debug log (headless replay, evaluation runs)
+    private quiet = false;
+
+    // Per-user ROM calibration: one calibrator per exercise (per side for unilateral ones), shared by the analyzers of every block
+    private calibrators: Partial<Record<CalibrationKey, RomCalibrator>> = {};
+    private romCalibrationMode: CalibrationMode = 'off';
+
+    // Temporal jitter filter shared by classifier and all analyzers
+    private smoother = new LandmarkSmoother();
+
     constructor() {
-        this.analyzers = {
-            // Legs
-            'Squat': new SquatAnalyzer(),
-            'Leg Extension': new LegExtensionAnalyzer(),
-            'Leg Raises': new LegRaisesAnalyzer(),
-
-            // Push
-            'Push Up': new PushUpAnalyzer(),
-            'Bench Press': new BenchPressAnalyzer(),
-            'Incline Bench Press': new InclineBenchAnalyzer(),
-            'Chest Fly Machine': new ChestFlyAnalyzer(),
-            'Tricep Dips': new TricepDipsAnalyzer(),
-
-            // Pull
-            'Pull Up': new PullUpAnalyzer(),
-            'Lat Pulldown': new LatPulldownAnalyzer(),
-            'T-Bar Row': new TBarRowAnalyzer(),
-            'Barbell Biceps Curl': new BicepCurlAnalyzer(),
-            'Lateral Raises': new LateralRaiseAnalyzer(),
-
-            // Core
-            'Plank': new PlankAnalyzer(),
-            'Russian Twist': new RussianTwistAnalyzer(),
-            'Auto-Detect': new SquatAnalyzer(),
-        } as unknown as Record<ExerciseType, ExerciseAnalyzer>;
+        this.analyzers = {} as Record<ExerciseType, ExerciseAnalyzer>;
+        (Object.keys(ANALYZER_FACTORIES) as ExerciseType[]).forEach(exercise => {
+            this.analyzers[exercise] = ANALYZER_FACTORIES[exercise]();
+            this.applyScoring(exercise, this.analyzers[exercise]);
+        });
     }
 
     setExercise(exercise: ExerciseType) {
         this.currentExercise = exercise;
         this.isLocked = false;
         this.lockedExercise = null;
-        this.consecutiveFrames = 0;
+        this.evidence = {};
         this.potentialExercise = null;
+        this.newlyLocked = null;
+        this.classifier.reset();
+        this.mismatchSince = null;
+        this.lastFrameTime = null;
+        this.segmenter.reset();
+    }
+
+    setQuiet(quiet: boolean) {
+        this.quiet = quiet;
+    }
+
+    setSmoothing(options: Partial<SmoothingOptions>) {
+        this.smoother.setOptions(options);
+        this.smoother.reset();
+    }
+
+    setTempoPrescription(prescription: TempoPrescription | null) {
+        this.tempoPrescription = prescription;
+        this.segmenter.setTempoPrescription(prescription);
+        this.tempoCue = null;
+        this.tempoCheckAt = null;
+    }
+
+    /**
+     * Target hold time in seconds for every hold exercise (null restores their defaults).
+     */
+    setHoldTarget(seconds: number | null) {
+        this.holdTarget = seconds;
+        Object.values(this.analyzers).forEach(analyzer => this.applyHoldTarget(analyzer));
+    }
+
+    /**
+     * Pillar weights, good-form cutoff and fault thresholds for every analyzer.
+     */
+    setScoringProfile(level: StrictnessLevel, overrides: ScoringOverrides | null = null) {
+        this.scoringLevel = level;
+        this.scoringOverrides = overrides;
+        (Object.keys(this.analyzers) as ExerciseType[]).forEach(exercise => {
+            this.applyScoring(exercise, this.analyzers[exercise]);
+        });
+    }
+
+    /**
+     * 'auto' applies the stored calibrations and learns the missing ones from
+     * the first reps; 'calibrate' relearns every exercise (dedicated calibration set).
+     */
+    setRomCalibration(mode: CalibrationMode, stored: RomCalibrations = {}) {
+        this.romCalibrationMode = mode;
+        this.calibrators = {};
+        (Object.keys(this.analyzers) as ExerciseType[]).forEach(exercise => {
+            if (mode !== 'off' && exercise !== 'Auto-Detect') {
+                this.calibrationKeys(exercise).forEach(key => {
+                    const calibrator = new RomCalibrator();
+                    const calibration = stored[key];
+                    if (mode === 'auto' && calibration) calibrator.setCalibration(calibration);
+                    else calibrator.startLearning();
+                    this.calibrators[key] = calibrator;
+                });
+            }
+            this.applyRomCalibration(exercise, this.analyzers[exercise]);
+        });
+    }
+
+    // Calibrations learned or refined so far (to persist per user)
+    getRomCalibrations(): RomCalibrations {
+        const calibrations: RomCalibrations = {};
+        (Object.keys(this.calibrators) as CalibrationKey[]).forEach(key => {
+            const calibration = this.calibrators[key]?.getCalibration();
+            if (calibration) calibrations[key] = calibration;
+        });
+        return calibrations;
+    }
+
+    getSettings(): EngineSettings {
+        return {
+            scoringLevel: this.scoringLevel,
+            scoringOverrides: this.scoringOverrides,
+            romCalibrationMode: this.romCalibrationMode,
+            romCalibrations: this.getRomCalibrations(),
+            tempoPrescription: this.tempoPrescription,
+            holdTarget: this.holdTarget
+        };
+    }
+
+    // Restore settings captured with getSettings (missing fields keep their current value)
+    applySettings(settings: Partial<EngineSettings>) {
+        if (settings.scoringLevel) this.setScoringProfile(settings.scoringLevel, settings.scoringOverrides ?? null);
+        if (settings.romCalibrationMode) this.setRomCalibration(settings.romCalibrationMode, settings.romCalibrations || {});
+        if (settings.tempoPrescription !== undefined) this.setTempoPrescription(settings.tempoPrescription);
+        if (settings.holdTarget !== undefined) this.setHoldTarget(settings.holdTarget);
     }
 
     setRecordingStartTime(timestamp: number) {
+        this.recordingStartTime = timestamp;
         Object.values(this.analyzers).forEach(analyzer => {
             analyzer.setRecordingStartTime(timestamp);
         });
+
+        // A recording is a new session: drop blocks from before it
+        this.segmenter.reset();
+        if (this.currentExercise === 'Auto-Detect' && this.isLocked && this.lockedExercise) {
+            this.startSegment(this.lockedExercise, timestamp);
+        }
     }
 
-    analyzeFrame(landmarks: PoseLandmark[], timestamp?: number): Feedback {
+    // frameSize: the image the landmarks were detected on (omit when x and y already share a scale)
+    analyzeFrame(landmarks: PoseLandmark[], timestamp?: number, frameSize?: FrameSize | null): Feedback {
         if (!landmarks || landmarks.length === 0) {
             return {
                 score: 0,
                 breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
                 reps: 0,
                 repPhase: 'Rest',
-                message: "No pose detected",
+                message: t('cues.noPoseDetected'),
                 isGoodForm: false
             };
         }
 
+        // Non-MediaPipe models (COCO-17 / MoveNet) are mapped onto the 33-joint layout
+        landmarks = adaptToCanonical(landmarks);
+        // Angles and distances are measured in frame-height units on both axes
+        landmarks = toIsotropic(landmarks, frameSize);
+
+        // Smooth raw detections before anything reads them (uses frame time, not wall clock)
+        const now = timestamp ?? Date.now();
+        landmarks = this.smoother.smooth(landmarks, now);
+
+        // Pose lost for a while: the user walked away / rested, end the current block
+        if (this.lastFrameTime !== null && now - this.lastFrameTime > REST_GAP_MS && this.currentExercise === 'Auto-Detect') {
+            this.unlock('rest', now);
+        }
+        this.lastFrameTime = now;
+
         let targetExercise = this.currentExercise;
 
         // GLOBAL MOVEMENT TRACKING (Runs every frame to detect breaking out of static locks)
@@ -95,82 +309,88 @@ export class GeometricRuleEngine {
 
         // Auto-Detection Logic with User's Tuned Thresholds
         if (targetExercise === 'Auto-Detect') {
+            // Keep classifying while locked so a change of exercise can be noticed
+            const candidates = this.classifier.classify(landmarks, now);
+            this.accumulateEvidence(candidates);
+
             if (this.isLocked && this.lockedExercise) {
                 // DYNAMIC UNLOCK: If locked to PLANK but User is MOVING -> Switch to PUSH UP
                 if (this.lockedExercise === 'Plank' && variance > 0.05) {
-                    console.log(`Locked Plank detecting movement (Var: ${variance.toFixed(3)}). Switching to Push Up.`);
+                    this.log(`Locked Plank detecting movement (Var: ${variance.toFixed(3)}). Switching to Push Up.`);
+                    this.endSegment('switch');
                     this.lockedExercise = 'Push Up';
+                    this.newlyLocked = 'Push Up';
+                    this.startSegment('Push Up', now);
+                }
+
+                if (this.exerciseChanged(candidates, now)) {
+                    this.log(`Auto-Detect: ${this.lockedExercise} no longer detected, unlocking`);
+                    this.unlock('switch', now);
+                } else if (!isHoldExercise(this.lockedExercise) && now - this.lastRepTime > REST_NO_REP_MS) {
+                    this.log(`Auto-Detect: no ${this.lockedExercise} reps for ${REST_NO_REP_MS / 1000}s, unlocking`);
+                    this.unlock('rest', now);
                 }
+            }
+
+            if (this.isLocked && this.lockedExercise) {
                 targetExercise = this.lockedExercise;
             } else {
-                let detected = classifyExercise(landmarks);
-                if (detected) {
-                    if (detected === this.potentialExercise) {
-                        this.consecutiveFrames++;
-                    } else {
-                        this.potentialExercise = detected;
-                        this.consecutiveFrames = 1;
-                    }
-
-                    // Lock threshold varies by exercise
+                let detected = this.leadingExercise();
+                if (candidates.length > 0 && detected) {
+                    // Lock threshold varies by exercise (accumulated confidence, ~1 per confident frame)
                     // VIDEO MODE: At 6 FPS, thresholds are doubled from 3 FPS
                     // Standard: 6 frames = 1 second
                     // Static (Plank/Twist): 30 frames = 5 seconds (Extremely conservative for Plank)
                     // Dynamic: 4 frames = 0.67 seconds
-                    let lockThreshold = 6;
-                    if (detected === 'Plank') lockThreshold = 30; // Wait 5s to confirm it's actually static
-                    if (detected === 'Russian Twist') lockThreshold = 12;
-                    if (detected === 'Lateral Raises') lockThreshold = 12; // Wait ~2s to confirm it's not just bar support
-                    if (detected === 'Pull Up' || detected === 'Lat Pulldown' || detected === 'Bench Press' || detected === 'Leg Raises') lockThreshold = 4;
-
-                    // Dynamic Movement Check (Push Up vs Plank Resolution)
-                    const shoulderY = (landmarks[11].y + landmarks[12].y) / 2;
-                    // (Global history used)
+                    let lockThreshold = this.getLockThreshold(detected);
 
-                    const minY = Math.min(...this.shoulderHistory);
-                    const maxY = Math.max(...this.shoulderHistory);
-                    const variance = maxY - minY;
-
-                    // If we are seeing Plank or Push Up, check movement
+                    // If we are seeing Plank or Push Up, check movement (global shoulder history)
                     if (detected === 'Plank' || detected === 'Push Up') {
                         // Any slight movement (> 0.05 height change) implies Push Up reps started or Setup
                         // Push Up stroke is usually ~0.2 - 0.3. 
                         // 0.05 is small enough to catch the start of descent or adjustment.
                         if (variance > 0.05) {
-                            console.log(`Movement Detected (Var: ${variance.toFixed(3)})! Switching/Locking to Push Up`);
+                            this.log(`Movement Detected (Var: ${variance.toFixed(3)})! Switching/Locking to Push Up`);
+                            const wasPushUp = this.potentialExercise === 'Push Up';
+
+                            // Evidence gathered for the hold counts towards the Push Up
+                            this.evidence['Push Up'] = (this.evidence['Push Up'] || 0) + (this.evidence['Plank'] || 0);
+                            delete this.evidence['Plank'];
                             detected = 'Push Up';
                             lockThreshold = 4; // Lock quickly if confirmed moving
 
-                            // Boost consecutive frames to speed up lock if we were already pending
-                            if (this.potentialExercise === 'Push Up') {
-                                this.consecutiveFrames += 2;
+                            // Boost evidence to speed up lock if we were already pending
+                            if (wasPushUp) {
+                                this.evidence['Push Up'] += 2;
                             }
                         }
                     }
+                    if (detected !== this.potentialExercise) this.detectionStart = now;
+                    this.potentialExercise = detected;
 
-                    if (this.consecutiveFrames > lockThreshold) {
+                    if ((this.evidence[detected] || 0) > lockThreshold) {
                         this.lockedExercise = detected;
                         this.isLocked = true;
+                        this.newlyLocked = detected;
                         targetExercise = detected;
-                        console.log(`Auto-Locked Exercise: ${detected}`);
-
-                        // Plank Optimization: Start with elapsed time
-                        if (targetExercise === 'Plank') {
-                            const plankAnalyzer = this.analyzers['Plank'] as unknown as PlankAnalyzer;
-                            if (plankAnalyzer && 'setElapsedTime' in plankAnalyzer) {
-                                // @ts-ignore
-                                plankAnalyzer.setElapsedTime(lockThreshold / 6); // Set correct elapsed time
-                            }
+                        this.log(`Auto-Locked Exercise: ${detected}`);
+                        this.startSegment(detected, now);
+
+                        // Holds: the time spent detecting was already held (frame time, so uploads match live)
+                        const lockedAnalyzer = this.analyzers[targetExercise];
+                        if (lockedAnalyzer instanceof IsometricHoldAnalyzer) {
+                            lockedAnalyzer.setElapsedTime((now - this.detectionStart) / 1000);
                         }
                     } else {
                         return {
                             score: 0,
                             breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
                             reps: 0,
-                            repPhase: `Detecting ${this.potentialExercise}...`, // Show what we are checking
-                            message: (detected === 'Plank') ? "Hold still for Plank..." : `Start moving for ${detected}...`,
+                            repPhase: t('cues.detecting', { exercise: exerciseLabel(this.potentialExercise) }), // Show what we are checking
+                            message: t(isHoldExercise(detected) ? 'cues.holdStillFor' : 'cues.startMovingFor', { exercise: exerciseLabel(detected) }),
                             isGoodForm: false,
-                            detectedExercise: this.potentialExercise || undefined
+                            detectedExercise: this.potentialExercise || undefined,
+                            candidates
                         };
                     }
                 } else {
@@ -178,8 +398,8 @@ export class GeometricRuleEngine {
                         score: 0,
                         breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
                         reps: 0,
-                        repPhase: 'Scanning...',
-                        message: "Get in position...",
+                        repPhase: t('cues.scanning'),
+                        message: t('cues.getInPosition'),
                         isGoodForm: false
                     };
                 }
@@ -191,24 +411,245 @@ export class GeometricRuleEngine {
         // Pass timestamp for Uploaded Video support (Crucial improvement over old version)
         const feedback = analyzer.analyze(landmarks, timestamp);
 
+        if (this.currentExercise !== 'Auto-Detect' && !this.segmenter.isOpen()) {
+            this.segmenter.start(this.currentExercise, now - this.recordingStartTime);
+        }
+        if (feedback.reps > this.lastReps) {
+            this.lastRepTime = now;
+            this.tempoCheckAt = now + TEMPO_SETTLE_MS;
+        }
+        this.lastReps = feedback.reps;
+        if (this.tempoCheckAt !== null && now >= this.tempoCheckAt) {
+            this.tempoCheckAt = null;
+            this.updateTempoCue(analyzer, now);
+        }
+        if (this.tempoCue && now < this.tempoCue.until) feedback.tempoCue = this.tempoCue.text;
+
+        const attempts = analyzer.getRepAttempts();
+        feedback.partialReps = attempts.filter(a => a.outcome === 'partial').length;
+        feedback.failedReps = attempts.filter(a => a.outcome === 'failed').length;
+
+        const calibration = this.calibrationProgress(targetExercise);
+        if (calibration) feedback.calibration = calibration;
+        this.segmenter.addFrame(feedback, now - this.recordingStartTime);
+
         // Inject detected exercise info into feedback for UI
         if (this.currentExercise === 'Auto-Detect') {
-            feedback.message = `[${targetExercise}] ${feedback.message}`;
+            feedback.message = `[${exerciseLabel(targetExercise)}] ${feedback.message}`;
         }
         feedback.detectedExercise = this.lockedExercise || (this.currentExercise !== 'Auto-Detect' ? this.currentExercise : undefined);
+        if (this.newlyLocked) {
+            feedback.exerciseLocked = this.newlyLocked;
+            this.newlyLocked = null;
+        }
 
         return feedback;
     }
 
-    // Helper used in snippet
-    private consecutiveFramesMatches(newExercise: ExerciseType): boolean {
-        return this.potentialExercise === newExercise;
+    /**
+     * Adds this frame's candidate confidences to the running evidence.
+     * Exercises missing from a classified frame decay quickly, so a switch of
+     * detection effectively restarts the count. Frames where no rule fired
+     * leave the evidence untouched.
+     */
+    private accumulateEvidence(candidates: ExerciseCandidate[]) {
+        if (candidates.length === 0) return;
+
+        (Object.keys(this.evidence) as ExerciseType[]).forEach(exercise => {
+            if (!candidates.some(c => c.exercise === exercise)) {
+                this.evidence[exercise] = (this.evidence[exercise] || 0) * EVIDENCE_DECAY;
+            }
+        });
+        candidates.forEach(c => {
+            this.evidence[c.exercise] = (this.evidence[c.exercise] || 0) + c.confidence;
+        });
+    }
+
+    // Compare the last completed rep with the prescribed tempo
+    private updateTempoCue(analyzer: ExerciseAnalyzer, now: number) {
+        const records = analyzer.getRepRecords();
+        const last = records[records.length - 1];
+        if (!this.tempoPrescription || !last) return;
+
+        const cue = tempoCue(last.tempo, this.tempoPrescription);
+        this.tempoCue = cue ? { text: cue, until: now + TEMPO_CUE_MS } : null;
+    }
+
+    // Auto-Detect lock threshold (accumulated evidence) per exercise
+    private getLockThreshold(exercise: ExerciseType): number {
+        if (exercise === 'Plank') return 30; // Wait 5s to confirm it's actually static
+        if (exercise === 'Russian Twist') return 12;
+        if (exercise === 'Lateral Raises') return 12; // Wait ~2s to confirm it's not just bar support
+        if (exercise === 'Pull Up' || exercise === 'Lat Pulldown' || exercise === 'Bench Press' || exercise === 'Leg Raises') return 4;
+        return 6;
+    }
+
+    /**
+     * Sustained mismatch check while locked: the classifier keeps picking another
+     * exercise and the locked analyzer counts no reps for UNLOCK_MISMATCH_MS.
+     * Frames where no rule fired are neutral. Plank and Push Up share a pose,
+     * so they never count as a mismatch for each other.
+     */
+    private exerciseChanged(candidates: ExerciseCandidate[], now: number): boolean {
+        const detected = topExercise(candidates);
+        if (!detected || !this.lockedExercise) return false;
+
+        const samePose = (detected === 'Plank' || detected === 'Push Up') && (this.lockedExercise === 'Plank' || this.lockedExercise === 'Push Up');
+        if (detected === this.lockedExercise || samePose || this.lastRepTime > (this.mismatchSince ?? now)) {
+            this.mismatchSince = null;
+            return false;
+        }
+
+        if (this.mismatchSince === null) this.mismatchSince = now;
+        return now - this.mismatchSince >= UNLOCK_MISMATCH_MS;
+    }
+
+    // Fresh analyzer per block so reps and rep timestamps start from zero
+    private startSegment(exercise: ExerciseType, now: number) {
+        const analyzer = ANALYZER_FACTORIES[exercise]();
+        analyzer.setRecordingStartTime(this.recordingStartTime);
+        this.applyRomCalibration(exercise, analyzer);
+        this.applyHoldTarget(analyzer);
+        this.applyScoring(exercise, analyzer);
+        this.analyzers[exercise] = analyzer;
+
+        this.segmenter.start(exercise, now - this.recordingStartTime);
+        this.lastRepTime = now;
+        this.lastReps = 0;
+        this.mismatchSince = null;
+    }
+
+    private applyHoldTarget(analyzer: ExerciseAnalyzer) {
+        if (analyzer instanceof IsometricHoldAnalyzer) analyzer.setTarget(this.holdTarget);
+    }
+
+    // Unilateral analyzers count each side separately and learn each side's range on its own
+    private calibrationKeys(exercise: ExerciseType): CalibrationKey[] {
+        if (!(this.analyzers[exercise] instanceof UnilateralAnalyzer)) return [exercise];
+        return [sideCalibrationKey(exercise, 'left'), sideCalibrationKey(exercise, 'right')];
+    }
+
+    private applyRomCalibration(exercise: ExerciseType, analyzer: ExerciseAnalyzer) {
+        if (analyzer instanceof UnilateralAnalyzer) {
+            analyzer.setSideRomCalibrators({
+                left: this.calibrators[sideCalibrationKey(exercise, 'left')] || null,
+                right: this.calibrators[sideCalibrationKey(exercise, 'right')] || null
+            });
+        } else {
+            analyzer.setRomCalibrator(this.calibrators[exercise] || null);
+        }
+    }
+
+    // Learning progress of an exercise's calibrators (both sides together for unilateral ones)
+    private calibrationProgress(exercise: ExerciseType): { cycles: number; target: number } | null {
+        const learning = this.calibrationKeys(exercise)
+            .map(key => this.calibrators[key])
+            .filter((calibrator): calibrator is RomCalibrator => !!calibrator && calibrator.isLearning());
+        if (learning.length === 0) return null;
+        return learning.map(calibrator => calibrator.getProgress())
+            .reduce((sum, progress) => ({ cycles: sum.cycles + progress.cycles, target: sum.target + progress.target }));
+    }
+
+    private applyScoring(exercise: ExerciseType, analyzer: ExerciseAnalyzer) {
+        // Auto-Detect runs the Squat analyzer until an exercise locks
+        const scored = exercise === 'Auto-Detect' ? 'Squat' : exercise;
+        analyzer.setScoring(exerciseScoring(scored, this.scoringLevel, this.scoringOverrides));
+    }
+
+    private endSegment(reason: SegmentEndReason) {
+        const exercise = this.segmenter.getExercise();
+        if (!exercise) return;
+        const analyzer = this.analyzers[exercise];
+        this.segmenter.close(reason, this.segmentResults(analyzer));
+    }
+
+    private segmentResults(analyzer: ExerciseAnalyzer): SegmentResults {
+        return {
+            repTimestamps: analyzer.getRepTimestamps(),
+            repRecords: analyzer.getRepRecords(),
+            attempts: analyzer.getRepAttempts(),
+            sides: analyzer.getSideSummary() || undefined,
+            hold: analyzer.getHoldSummary() || undefined
+        };
+    }
+
+    /**
+     * Back to scanning. On a switch the evidence for the new exercise is kept
+     * (it has been building up during the mismatch) so it locks quickly;
+     * after a rest detection starts from scratch.
+     */
+    private unlock(reason: SegmentEndReason, now: number) {
+        if (!this.isLocked) return;
+
+        this.endSegment(reason);
+        if (reason === 'rest') {
+            this.evidence = {};
+        } else if (this.lockedExercise) {
+            delete this.evidence[this.lockedExercise];
+        }
+
+        this.isLocked = false;
+        this.lockedExercise = null;
+        this.potentialExercise = null;
+        this.mismatchSince = null;
+        this.lastRepTime = now;
+    }
+
+    private log(message: string) {
+        if (!this.quiet) console.log(message);
+    }
+
+    private leadingExercise(): ExerciseType | null {
+        let leader: ExerciseType | null = null;
+        (Object.keys(this.evidence) as ExerciseType[]).forEach(exercise => {
+            if (!leader || (this.evidence[exercise] || 0) > (this.evidence[leader] || 0)) leader = exercise;
+        });
+        return leader;
+    }
+
+    // Exercise Auto-Detect has locked onto (null while still scanning)
+    getLockedExercise(): ExerciseType | null {
+        return this.isLocked ? this.lockedExercise : null;
     }
 
     getRepTimestamps(): any[] {
-        if (this.currentExercise === 'Auto-Detect' && this.lockedExercise) {
-            return this.analyzers[this.lockedExercise]?.getRepTimestamps() || [];
+        if (this.currentExercise === 'Auto-Detect') {
+            // Every block of the session, in order
+            return this.getSegments().reduce<RepTimestamp[]>((all, segment) => all.concat(segment.repTimestamps), []);
         }
         return this.analyzers[this.currentExercise]?.getRepTimestamps() || [];
     }
+
+    /**
+     * Per-rep records of the session (every block in Auto-Detect).
+     */
+    getRepRecords(): RepRecord[] {
+        if (this.currentExercise === 'Auto-Detect') {
+            return this.getSegments().reduce<RepRecord[]>((all, segment) => all.concat(segment.repRecords), []);
+        }
+        return this.analyzers[this.currentExercise]?.getRepRecords() || [];
+    }
+
+    // Partial and failed attempts of the session (every block in Auto-Detect)
+    getRepAttempts(): RepAttempt[] {
+        if (this.currentExercise === 'Auto-Detect') {
+            return this.getSegments().reduce<RepAttempt[]>((all, segment) => all.concat(segment.attempts), []);
+        }
+        return this.analyzers[this.currentExercise]?.getRepAttempts() || [];
+    }
+
+    // Tempo of every rep of the session, against the prescription if one is set
+    getTempoSummary(): TempoSummary {
+        return summarizeTempo(this.getRepRecords(), this.tempoPrescription);
+    }
+
+    /**
+     * Exercise blocks of the session so far (the open block is included with endReason 'end').
+     */
+    getSegments(): ExerciseSegment[] {
+        const exercise = this.segmenter.getExercise();
+        if (!exercise) return this.segmenter.getSegments();
+        const analyzer = this.analyzers[exercise];
+        return this.segmenter.getSegments(this.segmentResults(analyzer));
+    }
 }
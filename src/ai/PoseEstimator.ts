@@ -1,22 +1,63 @@
 import { usePoseDetection } from 'react-native-mediapipe';
 import { Delegate, RunningMode } from 'react-native-mediapipe';
 import { runOnJS } from 'react-native-reanimated';
+import { CameraDevice } from 'react-native-vision-camera';
 import { GeometricRuleEngine } from './GeometricRuleEngine';
 import { useState, useRef, useMemo, useEffect, useCallback } from 'react';
 import { Feedback, ExerciseType } from './ExerciseAnalyzer';
+import { PoseTrackRecorder, PoseTrack, CameraPosition } from './recording/PoseTrack';
+import { TempoPrescription } from './tempo/Tempo';
+import { RomCalibration, CalibrationMode } from './reps/RomCalibration';
+import { StrictnessLevel, ScoringOverrides } from './scoring/ScoringProfile';
+import { CueScheduler, LiveCue } from './coaching/CueScheduler';
+import { VoiceCoach } from './coaching/VoiceCoach';
+import { SpeechEngine } from './coaching/Speech';
+import { SetupCheck, SetupStatus } from './setup/SetupCheck';
+import { FrameSize } from './skeleton/SkeletonAdapters';
+import { DeviceOrientation, cameraFrameTransform, orientPose } from './skeleton/FrameTransform';
 
-export function usePoseEstimator(exerciseType: ExerciseType) {
+export function usePoseEstimator(exerciseType: ExerciseType, tempo: TempoPrescription | null = null, holdTarget: number | null = null) {
     const [feedback, setFeedback] = useState<Feedback | null>(null);
+    const [cue, setCue] = useState<LiveCue | null>(null);
+    const [setup, setSetup] = useState<SetupStatus | null>(null);
     const [landmarks, setLandmarks] = useState<any[]>([]);
+    const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
     const [fps, setFps] = useState(0);
 
     // Keep one engine instance
     const engine = useMemo(() => new GeometricRuleEngine(), []);
+    const trackRecorder = useMemo(() => new PoseTrackRecorder(), []);
+    // Steadies the per-frame messages into one readable (and speakable) cue
+    const cueScheduler = useMemo(() => new CueScheduler(), []);
+    const voiceCoach = useMemo(() => new VoiceCoach(), []);
+    // Nothing is counted until the athlete is framed for the exercise
+    const setupCheck = useMemo(() => new SetupCheck(), []);
 
     // Update engine when exercise type changes
     useEffect(() => {
         engine.setExercise(exerciseType);
-    }, [engine, exerciseType]);
+        cueScheduler.reset();
+        voiceCoach.reset();
+        setupCheck.setExercise(exerciseType);
+        setSetup(null);
+    }, [engine, cueScheduler, voiceCoach, setupCheck, exerciseType]);
+
+    useEffect(() => {
+        engine.setTempoPrescription(tempo);
+    }, [engine, tempo]);
+
+    useEffect(() => {
+        engine.setHoldTarget(holdTarget);
+    }, [engine, holdTarget]);
+
+    // What the landmark transform needs to know about the camera (see FrameTransform).
+    // Until the device is known: back camera, sensor at 90°, phone and preview upright.
+    const cameraSetup = useRef<{ sensor: DeviceOrientation; device: DeviceOrientation; preview: DeviceOrientation; position: CameraPosition }>({
+        sensor: 'landscape-left',
+        device: 'portrait',
+        preview: 'portrait',
+        position: 'back'
+    });
 
     // Throttle updates to UI
     const lastUpdate = useRef(0);
@@ -29,7 +70,8 @@ export function usePoseEstimator(exerciseType: ExerciseType) {
                 'worklet';
                 if (result.results && result.results.length > 0 && result.results[0].landmarks && result.results[0].landmarks.length > 0) {
                     const person = result.results[0].landmarks[0];
-                    runOnJS(processFeedback)(person);
+                    const world = result.results[0].worldLandmarks?.[0] ?? null;
+                    runOnJS(processFeedback)(person, world, result.inputImageWidth, result.inputImageHeight);
                 }
             },
             onError: (error) => {
@@ -46,7 +88,7 @@ export function usePoseEstimator(exerciseType: ExerciseType) {
         }
     );
 
-    function processFeedback(detectedLandmarks: any[]) {
+    function processFeedback(detectedLandmarks: any[], detectedWorld: any[] | null, imageWidth: number, imageHeight: number) {
         const timestamp = Date.now();
         frameCount.current++;
 
@@ -59,19 +101,33 @@ export function usePoseEstimator(exerciseType: ExerciseType) {
 
         // Update Analysis at ~15fps (every 66ms)
         if (timestamp - lastUpdate.current > 66) {
-            // Manual 90-degree CW Rotation (Head Left -> Head Top)
-            // x' = 1 - y
-            // y' = x
-            const rotatedLandmarks = detectedLandmarks.map(lm => ({
-                ...lm,
-                x: 1 - lm.y,
-                y: lm.x
-            }));
-
-            const result = engine.analyzeFrame(rotatedLandmarks);
-            setFeedback(result);
-            setLandmarks(rotatedLandmarks);
+            // Analysis gets the athlete upright (however the phone is held) and
+            // true-sided; the overlay gets the pose the way the preview shows it
+            const imageSize: FrameSize = { width: imageWidth, height: imageHeight };
+            const { sensor, device, preview, position } = cameraSetup.current;
+            const pose = orientPose(detectedLandmarks, detectedWorld, imageSize, cameraFrameTransform(sensor, device, position));
+            const shown = orientPose(detectedLandmarks, null, imageSize, {
+                rotation: cameraFrameTransform(sensor, preview, position).rotation,
+                mirrored: false // The preview is mirrored along with the frames
+            });
+
+            setLandmarks(shown.landmarks);
+            setFrameSize(current => current && current.width === shown.frameSize.width && current.height === shown.frameSize.height ? current : shown.frameSize);
             lastUpdate.current = timestamp;
+
+            if (!setupCheck.isReady()) {
+                const status = setupCheck.update(pose.landmarks, timestamp, pose.frameSize);
+                setSetup(status);
+                if (!status.ready) return;
+            }
+
+            // Recorded here, not above: the track holds exactly what the engine saw
+            trackRecorder.addFrame(pose.landmarks, timestamp, pose.frameSize);
+            const result = engine.analyzeFrame(pose.landmarks, timestamp, pose.frameSize);
+            setFeedback(result);
+            // Counts are spoken before (and cut off) the frame's cue
+            voiceCoach.observe(result);
+            setCue(cueScheduler.update(result, timestamp));
         }
     }
 
@@ -80,19 +136,107 @@ export function usePoseEstimator(exerciseType: ExerciseType) {
         return engine.getRepTimestamps();
     }, [engine]);
 
+    const getRepRecords = useCallback(() => {
+        return engine.getRepRecords();
+    }, [engine]);
+
+    // Per-rep tempo and set consistency (vs the prescribed tempo, if any)
+    const getTempoSummary = useCallback(() => {
+        return engine.getTempoSummary();
+    }, [engine]);
+
+    const getRepAttempts = useCallback(() => {
+        return engine.getRepAttempts();
+    }, [engine]);
+
+    // Exercise blocks of the session (several when Auto-Detect saw a circuit)
+    const getSessionSegments = useCallback(() => {
+        return engine.getSegments();
+    }, [engine]);
+
+    // Per-user range of motion (stored calibrations in, learned ones out)
+    const setRomCalibration = useCallback((mode: CalibrationMode, stored: Partial<Record<ExerciseType, RomCalibration>>) => {
+        engine.setRomCalibration(mode, stored);
+    }, [engine]);
+
+    const getRomCalibrations = useCallback(() => {
+        return engine.getRomCalibrations();
+    }, [engine]);
+
+    // Strictness level and the user's scoring overrides
+    const setScoringProfile = useCallback((level: StrictnessLevel, overrides: ScoringOverrides | null) => {
+        engine.setScoringProfile(level, overrides);
+    }, [engine]);
+
+    // Voice coaching through the given TTS (null for text only)
+    const setSpeech = useCallback((speech: SpeechEngine | null) => {
+        voiceCoach.setSpeech(speech);
+        cueScheduler.setSpokenOutput(speech ? cue => voiceCoach.speakCue(cue) : null);
+    }, [cueScheduler, voiceCoach]);
+
+    // Check the framing again (e.g. after switching cameras)
+    const resetSetup = useCallback(() => {
+        setupCheck.reset();
+        setSetup(null);
+    }, [setupCheck]);
+
+    // Camera switched: the sensor mounting and mirroring come with the device
+    const cameraDeviceChangeHandler = useCallback((device: CameraDevice | undefined) => {
+        if (device) {
+            cameraSetup.current.sensor = device.sensorOrientation;
+            cameraSetup.current.position = device.position === 'front' ? 'front' : 'back';
+        }
+        pipe.cameraDeviceChangeHandler(device);
+    }, [pipe]);
+
+    // How the phone is held (Camera onOutputOrientationChanged, reported even with rotation locked)
+    const deviceOrientationChangedHandler = useCallback((orientation: DeviceOrientation) => {
+        cameraSetup.current.device = orientation;
+    }, []);
+
+    // How the preview is shown (Camera onPreviewOrientationChanged), for the overlay
+    const previewOrientationChangedHandler = useCallback((orientation: DeviceOrientation) => {
+        cameraSetup.current.preview = orientation;
+    }, []);
+
     const setRecordingStartTime = useCallback((time: number) => {
         engine.setRecordingStartTime(time);
     }, [engine]);
 
+    // Pose track recording (for off-device replay of this session)
+    const startPoseTrack = useCallback((cameraPosition: CameraPosition, recordingStartTime: number) => {
+        trackRecorder.start(exerciseType, 'live', cameraPosition, recordingStartTime, engine.getSettings());
+    }, [trackRecorder, exerciseType, engine]);
+
+    const finishPoseTrack = useCallback((): PoseTrack | null => {
+        return trackRecorder.finish();
+    }, [trackRecorder]);
+
     return {
         frameProcessor: pipe.frameProcessor,
         feedback,
+        cue,
+        setup,
         landmarks,
+        frameSize,
         fps,
         getRepTimestamps,
+        getRepRecords,
+        getRepAttempts,
+        getTempoSummary,
+        getSessionSegments,
+        setRomCalibration,
+        getRomCalibrations,
+        setScoringProfile,
+        setSpeech,
+        resetSetup,
         setRecordingStartTime,
+        startPoseTrack,
+        finishPoseTrack,
         resizeModeChangeHandler: pipe.resizeModeChangeHandler,
-        cameraDeviceChangeHandler: pipe.cameraDeviceChangeHandler,
+        cameraDeviceChangeHandler,
+        deviceOrientationChangedHandler,
+        previewOrientationChangedHandler,
         cameraOrientationChangedHandler: pipe.cameraOrientationChangedHandler,
         cameraViewLayoutChangeHandler: pipe.cameraViewLayoutChangeHandler
     };
@@ -1,5 +1,9 @@
 import { PoseLandmark, ScoreBreakdown } from '../ExerciseAnalyzer';
 import { RepPhase } from '../reps/RepCounter';
+import { BodySide, SideLandmarks, SideResolver, getSideLandmarks } from './BodySide';
+import { AnglePolicy, JointAngle, measureAngle } from './JointAngles';
+import { ViewEstimator, ViewEstimate, MIN_VIEW_CONFIDENCE } from './ViewEstimator';
+import { BodyScaleEstimator, BodyProportions, REFERENCE_BODY } from './BodyScale';
 
 export type CameraView = 'Front' | 'Side' | '45' | 'Unknown';
 
@@ -7,42 +11,55 @@ export abstract class BiomechanicalAnalyzer {
     protected history: PoseLandmark[][] = [];
     protected readonly maxHistoryLength = 30; // 1 second @ 30fps
 
-    // Detect View based on Shoulder alignment
-    detectView(landmarks: PoseLandmark[]): CameraView {
-        if (landmarks.length < 33) return 'Unknown';
-
-        const leftShoulder = landmarks[11];
-        const rightShoulder = landmarks[12];
+    // Camera-facing side (resolved once per frame, with hysteresis)
+    private sideResolver = new SideResolver();
+    protected side: BodySide = 'right';
 
-        // Calculate 2D Width (X-axis separation)
-        const xDiff = Math.abs(leftShoulder.x - rightShoulder.x);
+    // Camera view (smoothed over frames); its facing side is the resolver's
+    private viewEstimator = new ViewEstimator(this.sideResolver);
+    protected viewEstimate: ViewEstimate = { view: 'Unknown', facing: null, confidence: 0 };
 
-        // Calculate 3D Depth (Z-axis separation, if available)
-        // Visbility check? usually valid.
-        // Note: MediaPipe Z is relative to hip center usually.
-        const zDiff = Math.abs((leftShoulder.z || 0) - (rightShoulder.z || 0));
+    // Athlete's size in the frame (screen-distance thresholds scale with it)
+    private bodyScale = new BodyScaleEstimator();
+    protected body: BodyProportions = REFERENCE_BODY;
 
-        // Ratio: Z / X
-        // Front View: X is large, Z is small. Ratio ~ 0.
-        // Side View: X is small, Z is large. Ratio > 1.
+    // Detect the view for this frame (and update the body size). Call once per
+    // frame; 'Unknown' while the estimate is too unsure for view-specific checks.
+    detectView(landmarks: PoseLandmark[]): CameraView {
+        this.body = this.bodyScale.update(landmarks);
+        this.viewEstimate = this.viewEstimator.estimate(landmarks);
+        return this.viewEstimate.confidence >= MIN_VIEW_CONFIDENCE ? this.viewEstimate.view : 'Unknown';
+    }
 
-        if (xDiff === 0) return 'Side'; // Avoid divide by zero, highly likely side
+    // Last estimate from detectView (view, facing side, confidence)
+    getViewEstimate(): ViewEstimate {
+        return this.viewEstimate;
+    }
 
-        const ratio = zDiff / xDiff;
+    // Screen distance tuned at the reference body size, scaled to this athlete
+    bodyDistance(distance: number): number {
+        return distance * this.body.scale;
+    }
 
-        // Thresholds need tuning.
-        // Front: < 0.5
-        // 45: 0.5 - 1.5
-        // Side: > 1.5
+    // Pick the side of the body facing the camera. Call once per frame before analyzePillars.
+    resolveSide(landmarks: PoseLandmark[]): BodySide {
+        this.side = this.sideResolver.resolve(landmarks);
+        return this.side;
+    }
 
-        if (ratio < 0.5) return 'Front';
-        if (ratio > 1.5) return 'Side';
-        return '45';
+    // Ear/shoulder/elbow/.../foot of the resolved side
+    sideLandmarks(landmarks: PoseLandmark[]): SideLandmarks {
+        return getSideLandmarks(landmarks, this.side);
     }
 
     // Reset analysis for a new set
     reset() {
         this.history = [];
+        this.sideResolver.reset();
+        this.viewEstimator.reset();
+        this.viewEstimate = { view: 'Unknown', facing: null, confidence: 0 };
+        this.bodyScale.reset();
+        this.body = REFERENCE_BODY;
     }
 
     // Core Analysis Method
@@ -80,9 +97,7 @@ export abstract class BiomechanicalAnalyzer {
     // --- PILLAR 3: POSTURE (Joint Stacking) ---
     protected calculatePosture(current: PoseLandmark[], view?: CameraView): number {
         // Default: Vertical align of Head-Shoulder-Hip (Standing posture)
-        const ear = current[8]; // Right Ear
-        const shoulder = current[12];
-        const hip = current[24];
+        const { ear, shoulder, hip } = this.sideLandmarks(current);
 
         // Deviation from vertical line
         const angle = this.calculateAngle(ear, shoulder, hip);
@@ -105,10 +120,11 @@ export abstract class BiomechanicalAnalyzer {
     }
 
     // --- UTILS ---
-    protected calculateAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark): number {
-        const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
-        let angle = Math.abs((radians * 180.0) / Math.PI);
-        if (angle > 180.0) angle = 360 - angle;
-        return angle;
+    protected calculateAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark, policy: AnglePolicy = '2d'): number {
+        return measureAngle(a, b, c, policy).value;
+    }
+
+    protected measureAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark, policy: AnglePolicy = '2d'): JointAngle {
+        return measureAngle(a, b, c, policy);
     }
 }
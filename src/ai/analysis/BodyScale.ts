@@ -0,0 +1,166 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { JOINT_INDEX as J } from '../skeleton/Skeleton';
+
+/**
+ * Body Scale - The athlete's size in the frame, for distance thresholds
+ *
+ * Screen-distance checks ("hip more than 0.05 below the shoulder-knee line")
+ * were tuned with the athlete filling most of the frame; standing twice as far
+ * away halves every distance and the same sag stops being flagged. The
+ * estimator keeps the recent lengths of the torso and limb segments, takes a
+ * high percentile of each (a segment pointing at the camera only ever looks
+ * shorter) and converts them to a stature through average body proportions.
+ * Thresholds are then given at the reference stature and multiplied by scale.
+ *
+ * It also estimates where the feet stand (floorY), so "feet on the floor"
+ * doesn't depend on how the phone is tilted. Only frames where the athlete
+ * stands upright with the hands below the head count (a hang or a dip lifts the
+ * feet), and the floor is a high percentile of their recent ankle heights, so
+ * one bad ankle detection near the bottom edge doesn't move it.
+ * Until a segment has been seen a few times it doesn't count; with nothing
+ * measured yet the reference body is used and results match the tuned values.
+ */
+export interface BodyProportions {
+    stature: number;       // Estimated height, normalized image units
+    scale: number;         // stature / REFERENCE_STATURE (1 = the body the thresholds were tuned on)
+    floorY: number | null; // Ankle height while standing (null until measured)
+}
+
+// Stature (head to heel, normalized) the hand-tuned distance thresholds assume
+export const REFERENCE_STATURE = 0.8;
+
+export const REFERENCE_BODY: BodyProportions = { stature: REFERENCE_STATURE, scale: 1, floorY: null };
+
+type Segment = 'torso' | 'upperArm' | 'forearm' | 'thigh' | 'shin';
+
+// Segment length as a share of stature (Drillis & Contini)
+const PROPORTION: Record<Segment, number> = {
+    torso: 0.288,
+    upperArm: 0.186,
+    forearm: 0.146,
+    thigh: 0.245,
+    shin: 0.246
+};
+
+const SEGMENT_JOINTS: Record<Exclude<Segment, 'torso'>, [number, number][]> = {
+    upperArm: [[J.leftShoulder, J.leftElbow], [J.rightShoulder, J.rightElbow]],
+    forearm: [[J.leftElbow, J.leftWrist], [J.rightElbow, J.rightWrist]],
+    thigh: [[J.leftHip, J.leftKnee], [J.rightHip, J.rightKnee]],
+    shin: [[J.leftKnee, J.leftAnkle], [J.rightKnee, J.rightAnkle]]
+};
+
+const WINDOW_FRAMES = 150;      // ~10 s at the engine's analysis rate
+const MIN_SAMPLES = 5;          // A segment counts once seen this many times
+const LENGTH_PERCENTILE = 0.9;  // Near-full length, ignoring the odd overshoot
+const MIN_VISIBILITY = 0.5;
+
+const FLOOR_WINDOW = 300;       // Standing frames the floor is estimated from
+const FLOOR_MIN_SAMPLES = 15;   // ~1 s of standing before there is a floor
+const FLOOR_PERCENTILE = 0.9;   // Low in the frame, but a few outliers can't set it
+// Upright: torso and legs within ~27° of vertical
+const MAX_LEAN = 0.5;
+
+export class BodyScaleEstimator {
+    private lengths: Record<Segment, number[]> = { torso: [], upperArm: [], forearm: [], thigh: [], shin: [] };
+    private ankleHeights: number[] = []; // While standing, newest last
+    private body: BodyProportions = REFERENCE_BODY;
+
+    update(landmarks: PoseLandmark[]): BodyProportions {
+        if (!landmarks || landmarks.length < 33) return this.body;
+
+        const torso = torsoLength(landmarks);
+        if (torso !== null) this.push('torso', torso);
+        (Object.keys(SEGMENT_JOINTS) as Exclude<Segment, 'torso'>[]).forEach(segment => {
+            const sides = SEGMENT_JOINTS[segment]
+                .filter(([a, b]) => visible(landmarks[a]) && visible(landmarks[b]))
+                .map(([a, b]) => distance(landmarks[a], landmarks[b]));
+            if (sides.length > 0) this.push(segment, Math.max(...sides));
+        });
+
+        // Ankles past the bottom edge are extrapolated, not seen
+        const ankles = [landmarks[J.leftAnkle], landmarks[J.rightAnkle]].filter(a => visible(a) && a.y <= 1);
+        if (ankles.length > 0 && isStanding(landmarks)) {
+            this.ankleHeights.push(Math.max(...ankles.map(a => a.y)));
+            if (this.ankleHeights.length > FLOOR_WINDOW) this.ankleHeights.shift();
+        }
+        const floorY = this.ankleHeights.length >= FLOOR_MIN_SAMPLES ? percentile(this.ankleHeights, FLOOR_PERCENTILE) : null;
+
+        // Each measured segment's idea of the stature; the median ignores one bad limb
+        const statures = (Object.keys(PROPORTION) as Segment[])
+            .filter(segment => this.lengths[segment].length >= MIN_SAMPLES)
+            .map(segment => percentile(this.lengths[segment], LENGTH_PERCENTILE) / PROPORTION[segment]);
+
+        const stature = statures.length > 0 ? median(statures) : REFERENCE_STATURE;
+        this.body = { stature, scale: stature / REFERENCE_STATURE, floorY };
+        return this.body;
+    }
+
+    get(): BodyProportions {
+        return this.body;
+    }
+
+    reset() {
+        (Object.keys(this.lengths) as Segment[]).forEach(segment => { this.lengths[segment] = []; });
+        this.ankleHeights = [];
+        this.body = REFERENCE_BODY;
+    }
+
+    private push(segment: Segment, length: number) {
+        const lengths = this.lengths[segment];
+        lengths.push(length);
+        if (lengths.length > WINDOW_FRAMES) lengths.shift();
+    }
+}
+
+// Shoulder midpoint to hip midpoint (null unless one side of each is tracked)
+function torsoLength(landmarks: PoseLandmark[]): number | null {
+    const shoulders = [landmarks[J.leftShoulder], landmarks[J.rightShoulder]];
+    const hips = [landmarks[J.leftHip], landmarks[J.rightHip]];
+    if (!shoulders.some(visible) || !hips.some(visible)) return null;
+
+    return Math.hypot(
+        (shoulders[0].x + shoulders[1].x - hips[0].x - hips[1].x) / 2,
+        (shoulders[0].y + shoulders[1].y - hips[0].y - hips[1].y) / 2
+    );
+}
+
+/**
+ * Upright on straight legs, hands below the nose: shoulders over hips over
+ * knees over ankles. Hanging from a bar looks the same apart from the hands.
+ */
+function isStanding(landmarks: PoseLandmark[]): boolean {
+    const mid = (a: number, b: number) => ({
+        x: (landmarks[a].x + landmarks[b].x) / 2,
+        y: (landmarks[a].y + landmarks[b].y) / 2
+    });
+    const joints = [J.leftShoulder, J.rightShoulder, J.leftHip, J.rightHip, J.leftKnee, J.rightKnee, J.leftAnkle, J.rightAnkle, J.nose];
+    if (!joints.every(index => visible(landmarks[index]))) return false;
+
+    const shoulder = mid(J.leftShoulder, J.rightShoulder);
+    const hip = mid(J.leftHip, J.rightHip);
+    const knee = mid(J.leftKnee, J.rightKnee);
+    const ankle = mid(J.leftAnkle, J.rightAnkle);
+    const upright = (top: { x: number; y: number }, bottom: { x: number; y: number }) =>
+        bottom.y > top.y && Math.abs(bottom.x - top.x) < MAX_LEAN * (bottom.y - top.y);
+    const handsOverhead = [landmarks[J.leftWrist], landmarks[J.rightWrist]]
+        .some(wrist => visible(wrist) && wrist.y < landmarks[J.nose].y);
+
+    return upright(shoulder, hip) && upright(hip, knee) && upright(knee, ankle) && !handsOverhead;
+}
+
+function visible(lm: PoseLandmark | undefined): boolean {
+    return !!lm && (lm.visibility ?? 1) >= MIN_VISIBILITY;
+}
+
+function distance(a: PoseLandmark, b: PoseLandmark): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function percentile(values: number[], p: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function median(values: number[]): number {
+    return percentile(values, 0.5);
+}
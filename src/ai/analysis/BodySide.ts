@@ -0,0 +1,116 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { JOINT_INDEX as J } from '../skeleton/Skeleton';
+
+/**
+ * Body Side Resolution
+ *
+ * From a side view only one half of the body is reliably tracked; the far side is
+ * occluded and MediaPipe guesses it (low visibility, garbage angles).
+ * SideResolver picks the camera-facing side per frame from landmark visibility,
+ * with hysteresis so the choice doesn't flip-flop when both sides score similarly.
+ * It is the only facing-side estimate: ViewEstimator reports the side of the
+ * resolver it is given, so the view and the analyzer never disagree.
+ */
+export type BodySide = 'left' | 'right';
+
+export interface SideIndices {
+    ear: number;
+    shoulder: number;
+    elbow: number;
+    wrist: number;
+    hip: number;
+    knee: number;
+    ankle: number;
+    heel: number;
+    footIndex: number;
+}
+
+export type SideLandmarks = Record<keyof SideIndices, PoseLandmark>;
+
+// Canonical (BlazePose-33) indices
+export const SIDE_INDICES: Record<BodySide, SideIndices> = {
+    left: {
+        ear: J.leftEar, shoulder: J.leftShoulder, elbow: J.leftElbow, wrist: J.leftWrist,
+        hip: J.leftHip, knee: J.leftKnee, ankle: J.leftAnkle, heel: J.leftHeel, footIndex: J.leftFootIndex
+    },
+    right: {
+        ear: J.rightEar, shoulder: J.rightShoulder, elbow: J.rightElbow, wrist: J.rightWrist,
+        hip: J.rightHip, knee: J.rightKnee, ankle: J.rightAnkle, heel: J.rightHeel, footIndex: J.rightFootIndex
+    }
+};
+
+// Joints used to score a side (face/feet are too often out of frame)
+const SCORED_JOINTS: (keyof SideIndices)[] = ['shoulder', 'elbow', 'wrist', 'hip', 'knee', 'ankle'];
+
+export function getSideLandmarks(landmarks: PoseLandmark[], side: BodySide): SideLandmarks {
+    const indices = SIDE_INDICES[side];
+    return {
+        ear: landmarks[indices.ear],
+        shoulder: landmarks[indices.shoulder],
+        elbow: landmarks[indices.elbow],
+        wrist: landmarks[indices.wrist],
+        hip: landmarks[indices.hip],
+        knee: landmarks[indices.knee],
+        ankle: landmarks[indices.ankle],
+        heel: landmarks[indices.heel],
+        footIndex: landmarks[indices.footIndex]
+    };
+}
+
+// Mean visibility of the scored joints on one side (0-1)
+export function sideVisibility(landmarks: PoseLandmark[], side: BodySide): number {
+    const indices = SIDE_INDICES[side];
+    const total = SCORED_JOINTS.reduce((sum, joint) => sum + (landmarks[indices[joint]]?.visibility ?? 0), 0);
+    return total / SCORED_JOINTS.length;
+}
+
+export class SideResolver {
+    private current: BodySide | null = null;
+    private challengerFrames = 0;
+    private lastFrame: PoseLandmark[] | null = null; // A shared resolver is asked again for the same frame
+
+    constructor(
+        private readonly margin = 0.1,     // Other side must be this much more visible...
+        private readonly switchFrames = 3  // ...for this many consecutive frames
+    ) { }
+
+    resolve(landmarks: PoseLandmark[]): BodySide {
+        if (landmarks.length < 33) return this.current || 'right';
+        if (landmarks === this.lastFrame) return this.getSide();
+        this.lastFrame = landmarks;
+
+        const left = sideVisibility(landmarks, 'left');
+        const right = sideVisibility(landmarks, 'right');
+
+        // First frame: take the better side directly (ties keep the historic right-side default)
+        if (this.current === null) {
+            this.current = left > right ? 'left' : 'right';
+            return this.current;
+        }
+
+        const currentScore = this.current === 'left' ? left : right;
+        const otherScore = this.current === 'left' ? right : left;
+
+        if (otherScore > currentScore + this.margin) {
+            this.challengerFrames++;
+            if (this.challengerFrames >= this.switchFrames) {
+                this.current = this.current === 'left' ? 'right' : 'left';
+                this.challengerFrames = 0;
+            }
+        } else {
+            this.challengerFrames = 0;
+        }
+
+        return this.current;
+    }
+
+    getSide(): BodySide {
+        return this.current || 'right';
+    }
+
+    reset() {
+        this.current = null;
+        this.challengerFrames = 0;
+        this.lastFrame = null;
+    }
+}
@@ -0,0 +1,109 @@
+import { PoseLandmark, WorldPoint } from '../ExerciseAnalyzer';
+
+/**
+ * Joint Angles - 2D (image) and 3D (world landmark) angle at a joint
+ *
+ * Image landmarks are a projection: a limb pointing at the camera looks
+ * short and the angle it makes collapses (elbow flare filmed from the side,
+ * knee bend filmed from the front). MediaPipe also returns world landmarks,
+ * metric and centred between the hips, which keep the depth. Analyzers get
+ * them on PoseLandmark.world when the model provides them.
+ *
+ * Which reading a check trusts is its AnglePolicy, '2d' unless the check opts in:
+ *   '2d'   the image angle; for checks that are about what the camera sees,
+ *          e.g. angles against the image vertical
+ *   '3d'   the world angle whenever there is one; for checks whose movement
+ *          is mostly in depth from the usual camera position
+ *   'auto' the world angle only when a segment points noticeably toward or
+ *          away from the camera (world z is noisier than image x/y, so 2D
+ *          is kept while it is accurate)
+ *
+ * Without world landmarks (uploaded clips through other models, synthetic
+ * reference points) every policy falls back to 2D.
+ */
+export type AnglePolicy = '2d' | '3d' | 'auto';
+
+export interface JointAngle {
+    value: number;          // Degrees, the reading picked by the policy
+    angle2d: number;
+    angle3d: number | null; // Null without world landmarks
+}
+
+// Share of a segment's length along the camera axis beyond which it's foreshortened (sin 30°)
+const FORESHORTENED_DEPTH_SHARE = 0.5;
+
+export function angle2d(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark): number {
+    const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
+    let angle = Math.abs((radians * 180.0) / Math.PI);
+    if (angle > 180.0) angle = 360 - angle;
+    return angle;
+}
+
+export function angle3d(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark): number | null {
+    if (!a.world || !b.world || !c.world) return null;
+
+    const u = subtract(a.world, b.world);
+    const v = subtract(c.world, b.world);
+    const lengths = length(u) * length(v);
+    if (lengths === 0) return null;
+
+    const cos = (u.x * v.x + u.y * v.y + u.z * v.z) / lengths;
+    return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180.0) / Math.PI;
+}
+
+/**
+ * Angle at b (between b->a and b->c) under the given policy
+ */
+export function measureAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark, policy: AnglePolicy = '2d'): JointAngle {
+    const flat = angle2d(a, b, c);
+    const deep = angle3d(a, b, c);
+
+    const useDeep = deep !== null && policy !== '2d'
+        && (policy === '3d' || isForeshortened(a.world!, b.world!) || isForeshortened(c.world!, b.world!));
+    return { value: useDeep ? deep : flat, angle2d: flat, angle3d: deep };
+}
+
+// Mean of the same joint on both sides (each reading averaged on its own)
+export function averageAngles(first: JointAngle, second: JointAngle): JointAngle {
+    return {
+        value: (first.value + second.value) / 2,
+        angle2d: (first.angle2d + second.angle2d) / 2,
+        angle3d: first.angle3d !== null && second.angle3d !== null ? (first.angle3d + second.angle3d) / 2 : null
+    };
+}
+
+/**
+ * Feedback.jointAngles entries: the policy's reading under the joint's name
+ * plus both readings ("elbow", "elbow2d", "elbow3d")
+ */
+export function jointAngleValues(angles: Record<string, JointAngle>): Record<string, number> {
+    const values: Record<string, number> = {};
+    Object.entries(angles).forEach(([joint, angle]) => {
+        values[joint] = angle.value;
+        values[`${joint}2d`] = angle.angle2d;
+        if (angle.angle3d !== null) values[`${joint}3d`] = angle.angle3d;
+    });
+    return values;
+}
+
+/**
+ * Attach world landmarks (same order as the image landmarks) as PoseLandmark.world
+ */
+export function withWorldLandmarks(landmarks: PoseLandmark[], world: WorldPoint[] | null | undefined): PoseLandmark[] {
+    if (!world || world.length !== landmarks.length) return landmarks;
+    return landmarks.map((lm, i) => ({ ...lm, world: { x: world[i].x, y: world[i].y, z: world[i].z } }));
+}
+
+function isForeshortened(from: WorldPoint, to: WorldPoint): boolean {
+    const segment = subtract(to, from);
+    const total = length(segment);
+    return total > 0 && Math.abs(segment.z) / total > FORESHORTENED_DEPTH_SHARE;
+}
+
+function subtract(p: WorldPoint, q: WorldPoint): WorldPoint {
+    return { x: p.x - q.x, y: p.y - q.y, z: p.z - q.z };
+}
+
+function length(p: WorldPoint): number {
+    return Math.sqrt(p.x * p.x + p.y * p.y + p.z * p.z);
+}
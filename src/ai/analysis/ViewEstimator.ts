@@ -0,0 +1,158 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { CameraView } from './BiomechanicalAnalyzer';
+import { BodySide, SideResolver } from './BodySide';
+import { JOINT_INDEX as J, isLandmarkAvailable } from '../skeleton/Skeleton';
+
+/**
+ * View Estimator - Which way the body is turned relative to the camera
+ *
+ * A single cue flips between views mid-rep (shoulder depth is noisy, widths
+ * shrink when the arms cross the torso), so each frame combines several, each
+ * giving a "turn" from 0 (square to the camera) to 1 (side on):
+ *   shoulders  shoulder width relative to torso length
+ *   hips       hip width relative to torso length
+ *   depth      how much of the shoulder line runs along the camera axis
+ *              (world landmarks when there are any, else image z)
+ *   ears       one ear hidden while the other is visible
+ * The turn is smoothed over frames and the view only changes once it is
+ * clearly past a boundary. The facing side is not estimated here: it comes
+ * from a SideResolver (shared with the analyzer, see BiomechanicalAnalyzer).
+ *
+ * Confidence (0-1) drops when the cues disagree, the torso is poorly tracked
+ * or the turn is still moving; checks that only make sense from one view
+ * should not run on a low-confidence frame.
+ */
+export interface ViewEstimate {
+    view: CameraView;
+    facing: BodySide | null; // Side nearer the camera (null when square to it or unknown)
+    confidence: number;      // 0-1
+}
+
+// Below this the view isn't trusted for view-specific checks
+export const MIN_VIEW_CONFIDENCE = 0.4;
+
+// Shoulder / hip width as a share of torso length when square to the camera
+const FRONT_SHOULDER_RATIO = 0.7;
+const FRONT_HIP_RATIO = 0.5;
+
+// Turn ranges of each view; leaving the current one takes VIEW_HYSTERESIS extra
+const FRONT_MAX_TURN = 0.35;
+const SIDE_MIN_TURN = 0.65;
+const VIEW_HYSTERESIS = 0.05;
+
+// Weight of the newest frame in the running turn and confidence
+const SMOOTHING = 0.3;
+
+interface TurnCue {
+    turn: number;   // 0 = front, 1 = side
+    weight: number;
+}
+
+const UNKNOWN: ViewEstimate = { view: 'Unknown', facing: null, confidence: 0 };
+
+export class ViewEstimator {
+    private turn: number | null = null;
+    private confidence = 0;
+    private view: CameraView = 'Unknown';
+
+    constructor(private readonly sides: SideResolver = new SideResolver()) { }
+
+    estimate(landmarks: PoseLandmark[]): ViewEstimate {
+        if (landmarks.length < 33) return UNKNOWN;
+
+        const cues = turnCues(landmarks);
+        if (cues.length === 0) return UNKNOWN;
+
+        const totalWeight = cues.reduce((sum, c) => sum + c.weight, 0);
+        const frameTurn = cues.reduce((sum, c) => sum + c.turn * c.weight, 0) / totalWeight;
+        const spread = Math.sqrt(cues.reduce((sum, c) => sum + c.weight * (c.turn - frameTurn) ** 2, 0) / totalWeight);
+
+        const previousTurn = this.turn ?? frameTurn;
+        this.turn = previousTurn + SMOOTHING * (frameTurn - previousTurn);
+
+        // Agreeing cues, a well-tracked torso, and a turn that isn't swinging
+        const agreement = clamp01(1 - 2 * spread);
+        const steadiness = clamp01(1 - 2 * Math.abs(frameTurn - previousTurn));
+        const frameConfidence = agreement * torsoVisibility(landmarks) * steadiness;
+        this.confidence = this.view === 'Unknown' ? frameConfidence : this.confidence + SMOOTHING * (frameConfidence - this.confidence);
+
+        this.view = this.classify(this.turn);
+        const facing = this.sides.resolve(landmarks);
+
+        return {
+            view: this.view,
+            facing: this.view === 'Front' ? null : facing,
+            confidence: this.confidence
+        };
+    }
+
+    reset() {
+        this.turn = null;
+        this.confidence = 0;
+        this.view = 'Unknown';
+        this.sides.reset();
+    }
+
+    private classify(turn: number): CameraView {
+        const target: CameraView = turn < FRONT_MAX_TURN ? 'Front' : turn > SIDE_MIN_TURN ? 'Side' : '45';
+        if (this.view === 'Unknown' || target === this.view) return target;
+
+        // Stay in the current view until the turn is clearly outside its range
+        const [low, high] = this.view === 'Front' ? [0, FRONT_MAX_TURN]
+            : this.view === 'Side' ? [SIDE_MIN_TURN, 1]
+                : [FRONT_MAX_TURN, SIDE_MIN_TURN];
+        return turn < low - VIEW_HYSTERESIS || turn > high + VIEW_HYSTERESIS ? target : this.view;
+    }
+}
+
+function turnCues(landmarks: PoseLandmark[]): TurnCue[] {
+    const leftShoulder = landmarks[J.leftShoulder];
+    const rightShoulder = landmarks[J.rightShoulder];
+    const leftHip = landmarks[J.leftHip];
+    const rightHip = landmarks[J.rightHip];
+
+    const torso = Math.hypot(
+        (leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2,
+        (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2
+    );
+    const cues: TurnCue[] = [];
+
+    if (torso > 0) {
+        const shoulderWidth = Math.hypot(leftShoulder.x - rightShoulder.x, leftShoulder.y - rightShoulder.y);
+        const hipWidth = Math.hypot(leftHip.x - rightHip.x, leftHip.y - rightHip.y);
+        cues.push({ turn: 1 - clamp01(shoulderWidth / torso / FRONT_SHOULDER_RATIO), weight: 1 });
+        cues.push({ turn: 1 - clamp01(hipWidth / torso / FRONT_HIP_RATIO), weight: 0.7 });
+    }
+
+    // World landmarks keep real depth; image z is a rougher estimate (and 0 for 2D-only models)
+    const [left, right, weight] = leftShoulder.world && rightShoulder.world
+        ? [leftShoulder.world, rightShoulder.world, 1]
+        : [leftShoulder, rightShoulder, 0.7];
+    const dx = Math.abs(left.x - right.x);
+    const dz = Math.abs((left.z || 0) - (right.z || 0));
+    if (dz > 0 && dx + dz > 0) {
+        cues.push({ turn: dz / Math.hypot(dx, dz), weight });
+    }
+
+    // Side on, the far ear is hidden behind the head
+    const leftEar = landmarks[J.leftEar];
+    const rightEar = landmarks[J.rightEar];
+    if (isLandmarkAvailable(leftEar) || isLandmarkAvailable(rightEar)) {
+        const leftVis = leftEar.visibility ?? 1;
+        const rightVis = rightEar.visibility ?? 1;
+        cues.push({ turn: Math.abs(leftVis - rightVis) / Math.max(leftVis, rightVis), weight: 0.5 });
+    }
+
+    return cues;
+}
+
+// The far side of a side view is guessed: judge the torso by its better-tracked half
+function torsoVisibility(landmarks: PoseLandmark[]): number {
+    const left = ((landmarks[J.leftShoulder].visibility ?? 1) + (landmarks[J.leftHip].visibility ?? 1)) / 2;
+    const right = ((landmarks[J.rightShoulder].visibility ?? 1) + (landmarks[J.rightHip].visibility ?? 1)) / 2;
+    return Math.max(left, right);
+}
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,205 @@
+import { Feedback } from '../ExerciseAnalyzer';
+import { FormFault, FaultSeverity, faultMessage } from '../faults/FormFault';
+import { t, phaseLabel } from '../../i18n/Messages';
+
+/**
+ * CueScheduler - Picks the one coaching cue shown (and spoken) right now
+ *
+ * The engine recomputes Feedback.message on every analysis tick (~15 fps), so
+ * a fault hovering around its threshold makes the text flicker faster than it
+ * can be read. The scheduler sits between the engine and the UI and turns the
+ * per-frame candidates into a steady cue:
+ *
+ *   Ranking       major fault > moderate > minor / tempo > praise > status
+ *                 (status = the phase or detection message when nothing is wrong)
+ *   Debounce      a fault has to be seen for confirmMs before it is shown (gaps
+ *                 shorter than confirmMs don't restart the clock)
+ *   Min display   a cue stays up for minDisplayMs unless a higher-ranked one arrives
+ *   Cooldown      a cue that was just taken down isn't shown again for cooldownMs
+ *   Praise        a rep finished without faults earns a short positive cue
+ *                 (at most one per praiseCooldownMs)
+ *
+ * Each new cue other than a status change also goes to the spoken-cue output
+ * when one is set. Times are frame timestamps in ms, like the engine's.
+ */
+export type CueKind = 'fault' | 'tempo' | 'praise' | 'status';
+
+export interface LiveCue {
+    key: string;      // Identity for debounce and cooldown, e.g. 'fault:kneeValgus'
+    text: string;     // Localized cue
+    kind: CueKind;
+    priority: number;
+    since: number;    // ms, when it went up
+}
+
+export type SpokenCueOutput = (cue: LiveCue) => void;
+
+export interface CueSchedulingOptions {
+    minDisplayMs: number;     // Shortest time a cue stays up
+    cooldownMs: number;       // Before a cue that was taken down can come back
+    confirmMs: number;        // A fault must persist this long to be shown
+    praiseCooldownMs: number; // Between two praise cues
+}
+
+export const DEFAULT_CUE_SCHEDULING: CueSchedulingOptions = {
+    minDisplayMs: 1500,
+    cooldownMs: 4000,
+    confirmMs: 250,
+    praiseCooldownMs: 8000
+};
+
+const PRIORITY: Record<FaultSeverity | 'tempo' | 'praise' | 'status', number> = {
+    major: 4,
+    moderate: 3,
+    minor: 2,
+    tempo: 2,
+    praise: 1,
+    status: 0
+};
+
+const PRAISE_KEYS = ['praise.niceForm', 'praise.lookingGood', 'praise.keepItUp', 'praise.perfect'];
+
+// Praise that couldn't go up this soon after the rep is stale and dropped
+const PRAISE_WINDOW_MS = 1500;
+
+type Candidate = Omit<LiveCue, 'since'>;
+
+export class CueScheduler {
+    private options: CueSchedulingOptions;
+    private current: LiveCue | null = null;
+    private spokenOutput: SpokenCueOutput | null = null;
+
+    private faultSeenSince = new Map<string, number>();
+    private faultLastSeen = new Map<string, number>();
+    private takenDownAt = new Map<string, number>();
+    private lastStatus: string | null = null;
+
+    private lastReps = 0;
+    private repClean = true;
+    private praiseDueAt: number | null = null;
+    private lastPraiseAt = -Infinity;
+    private praiseIndex = 0;
+
+    constructor(options: Partial<CueSchedulingOptions> = {}) {
+        this.options = { ...DEFAULT_CUE_SCHEDULING, ...options };
+    }
+
+    setSpokenOutput(output: SpokenCueOutput | null) {
+        this.spokenOutput = output;
+    }
+
+    reset() {
+        this.current = null;
+        this.faultSeenSince.clear();
+        this.faultLastSeen.clear();
+        this.takenDownAt.clear();
+        this.lastStatus = null;
+        this.lastReps = 0;
+        this.repClean = true;
+        this.praiseDueAt = null;
+        this.lastPraiseAt = -Infinity;
+    }
+
+    /**
+     * Feed one frame's feedback; returns the cue to show for it
+     */
+    update(feedback: Feedback, now: number): LiveCue {
+        const candidates = this.candidates(feedback, now);
+        const best = candidates[0];
+        const current = this.current;
+
+        if (!current || best.priority > current.priority) {
+            return this.show(best, now);
+        }
+
+        // A fault inside its debounce gap is still there, just missed a frame
+        const stillActive = candidates.some(c => c.key === current.key) || this.faultLastSeen.has(current.key);
+        const held = now - current.since < this.options.minDisplayMs;
+        if (stillActive || held) return current;
+
+        return this.show(best, now);
+    }
+
+    private show(candidate: Candidate, now: number): LiveCue {
+        if (this.current) this.takenDownAt.set(this.current.key, now);
+        this.current = { ...candidate, since: now };
+
+        if (candidate.kind === 'praise') {
+            this.praiseDueAt = null;
+            this.lastPraiseAt = now;
+            this.praiseIndex++;
+        }
+        if (candidate.kind !== 'status' && this.spokenOutput) this.spokenOutput(this.current);
+        return this.current;
+    }
+
+    // Everything that could be shown this frame, highest priority first (status is always there)
+    private candidates(feedback: Feedback, now: number): Candidate[] {
+        const faults = feedback.faults || [];
+        const candidates: Candidate[] = [];
+
+        this.trackReps(feedback.reps, faults.length > 0, now);
+
+        // Debounce: only faults seen (almost) continuously for confirmMs count
+        Array.from(this.faultLastSeen.entries()).forEach(([key, lastSeen]) => {
+            if (now - lastSeen > this.options.confirmMs) {
+                this.faultLastSeen.delete(key);
+                this.faultSeenSince.delete(key);
+            }
+        });
+        faults.forEach(fault => {
+            const key = faultKey(fault);
+            this.faultLastSeen.set(key, now);
+            if (!this.faultSeenSince.has(key)) this.faultSeenSince.set(key, now);
+            if (now - this.faultSeenSince.get(key)! >= this.options.confirmMs) {
+                candidates.push({ key, text: faultText(fault), kind: 'fault', priority: PRIORITY[fault.severity] });
+            }
+        });
+
+        if (feedback.tempoCue) {
+            candidates.push({ key: `tempo:${feedback.tempoCue}`, text: feedback.tempoCue, kind: 'tempo', priority: PRIORITY.tempo });
+        }
+
+        if (this.praiseDueAt !== null) {
+            if (now - this.praiseDueAt > PRAISE_WINDOW_MS) {
+                this.praiseDueAt = null;
+            } else {
+                const text = t(PRAISE_KEYS[this.praiseIndex % PRAISE_KEYS.length]);
+                candidates.push({ key: 'praise', text, kind: 'praise', priority: PRIORITY.praise });
+            }
+        }
+
+        const ready = candidates.filter(c => c.key === this.current?.key || !this.coolingDown(c.key, now));
+
+        // While a fault is reported, Feedback.message is its raw (undebounced) cue
+        if (faults.length === 0) this.lastStatus = feedback.message;
+        const status = this.lastStatus ?? phaseLabel(feedback.repPhase);
+        ready.push({ key: `status:${status}`, text: status, kind: 'status', priority: PRIORITY.status });
+
+        return ready.sort((a, b) => b.priority - a.priority);
+    }
+
+    private trackReps(reps: number, faulty: boolean, now: number) {
+        if (reps > this.lastReps) {
+            if (this.repClean && now - this.lastPraiseAt >= this.options.praiseCooldownMs) this.praiseDueAt = now;
+            this.repClean = true;
+        }
+        this.lastReps = reps;
+        if (faulty) this.repClean = false;
+    }
+
+    private coolingDown(key: string, now: number): boolean {
+        const at = this.takenDownAt.get(key);
+        return at !== undefined && now - at < this.options.cooldownMs;
+    }
+}
+
+function faultKey(fault: FormFault): string {
+    return fault.side ? `fault:${fault.code}:${fault.side}` : `fault:${fault.code}`;
+}
+
+// Unilateral faults carry the side, like the analyzer's own headline ("Pin Elbows (L)")
+function faultText(fault: FormFault): string {
+    if (!fault.side) return faultMessage(fault);
+    return `${faultMessage(fault)} (${phaseLabel(fault.side === 'left' ? 'L' : 'R')})`;
+}
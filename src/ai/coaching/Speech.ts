@@ -0,0 +1,46 @@
+import { Locale } from '../../i18n/Messages';
+
+/**
+ * Speech - The text-to-speech layer voice coaching talks to
+ *
+ * Coaching logic only depends on this interface; the app passes in an
+ * implementation backed by the platform's TTS. RecordingSpeech keeps what
+ * would have been said instead, for tests and for checking the coach's
+ * timing on recorded pose tracks.
+ */
+export interface SpeechOptions {
+    locale: Locale;
+    interrupt: boolean; // Cut off whatever is being said (otherwise queued)
+}
+
+export interface SpeechEngine {
+    speak(text: string, options: SpeechOptions): void;
+    stop(): void;
+}
+
+export interface Utterance extends SpeechOptions {
+    text: string;
+}
+
+export class RecordingSpeech implements SpeechEngine {
+    utterances: Utterance[] = [];
+    stops = 0;
+
+    speak(text: string, options: SpeechOptions) {
+        this.utterances.push({ text, ...options });
+    }
+
+    stop() {
+        this.stops++;
+    }
+
+    // Just the texts, in order
+    spoken(): string[] {
+        return this.utterances.map(u => u.text);
+    }
+
+    clear() {
+        this.utterances = [];
+        this.stops = 0;
+    }
+}
@@ -0,0 +1,87 @@
+import { Feedback } from '../ExerciseAnalyzer';
+import { BodySide } from '../analysis/BodySide';
+import { LiveCue } from './CueScheduler';
+import { SpeechEngine } from './Speech';
+import { t, plural, getLocale, exerciseLabel, phaseLabel } from '../../i18n/Messages';
+
+/**
+ * VoiceCoach - Spoken coaching for a live session
+ *
+ * For athletes who can't read the screen from where the phone is:
+ * - the rep count as each rep completes ("3", or "Left 3" when the sides are
+ *   counted separately), and the time every HOLD_ANNOUNCE_S during holds
+ * - the exercise Auto-Detect locks onto
+ * - the cues the CueScheduler puts up (faults, tempo, praise), so the spoken
+ *   cue is always the top-ranked one and never repeats faster than the screen
+ *
+ * Counts and lock announcements cut off whatever is being said (they are only
+ * useful right away); cues queue behind them.
+ */
+
+// Holds: announce the time held every this many seconds
+const HOLD_ANNOUNCE_S = 10;
+
+const SIDE_NAME: Record<BodySide, string> = { left: 'Left', right: 'Right' };
+
+export class VoiceCoach {
+    private speech: SpeechEngine | null = null;
+    private lastReps = 0;
+    private lastSides: Record<BodySide, number> | null = null;
+    private lastHoldSeconds = 0;
+
+    setSpeech(speech: SpeechEngine | null) {
+        if (this.speech && this.speech !== speech) this.speech.stop();
+        this.speech = speech;
+    }
+
+    reset() {
+        this.lastReps = 0;
+        this.lastSides = null;
+        this.lastHoldSeconds = 0;
+        if (this.speech) this.speech.stop();
+    }
+
+    /**
+     * Feed every frame's feedback (counts are tracked even while muted, so
+     * turning speech on mid-set doesn't announce old reps)
+     */
+    observe(feedback: Feedback) {
+        if (feedback.exerciseLocked) {
+            // A new block starts counting from zero
+            this.lastReps = 0;
+            this.lastSides = null;
+            this.lastHoldSeconds = 0;
+            this.say(t('voice.locked', { exercise: exerciseLabel(feedback.exerciseLocked) }), true);
+        }
+
+        if (feedback.hold) {
+            const seconds = feedback.hold.seconds;
+            if (Math.floor(seconds / HOLD_ANNOUNCE_S) > Math.floor(this.lastHoldSeconds / HOLD_ANNOUNCE_S)) {
+                this.say(plural('voice.seconds', Math.floor(seconds / HOLD_ANNOUNCE_S) * HOLD_ANNOUNCE_S), true);
+            }
+            this.lastHoldSeconds = seconds;
+        } else if (feedback.reps > this.lastReps) {
+            this.say(this.repText(feedback), true);
+        }
+
+        this.lastReps = feedback.reps;
+        this.lastSides = feedback.sides ? { left: feedback.sides.left.reps, right: feedback.sides.right.reps } : null;
+    }
+
+    // Spoken-cue output for the CueScheduler
+    speakCue(cue: LiveCue) {
+        if (cue.kind === 'status') return;
+        this.say(cue.text, false);
+    }
+
+    private repText(feedback: Feedback): string {
+        if (!feedback.sides || !this.lastSides) return String(feedback.reps);
+
+        const side: BodySide = feedback.sides.left.reps > this.lastSides.left ? 'left' : 'right';
+        return t('voice.sideRep', { side: phaseLabel(SIDE_NAME[side]), count: feedback.sides[side].reps });
+    }
+
+    private say(text: string, interrupt: boolean) {
+        if (this.speech) this.speech.speak(text, { locale: getLocale(), interrupt });
+    }
+}
@@ -0,0 +1,266 @@
+import { ExerciseType } from '../ExerciseAnalyzer';
+import { classifyExercise, topExercise } from '../ExerciseClassifier';
+import { GeometricRuleEngine } from '../GeometricRuleEngine';
+import { PoseTrack } from '../recording/PoseTrack';
+import { TemporalClassifier } from '../motion/TemporalClassifier';
+import { toIsotropic } from '../skeleton/FrameSpace';
+
+/**
+ * Classifier Evaluation - Regression report for classifyExercise + Auto-Detect locking
+ *
+ * Feeds labeled pose tracks (PoseTrack.label) through:
+ * 1. classifyExercise() frame by frame  -> frame-level confusion matrix
+ * 2. TemporalClassifier frame by frame  -> same, with the motion window (what Auto-Detect uses)
+ * 3. GeometricRuleEngine in Auto-Detect -> which exercise it locks onto and how fast
+ *
+ * Run it before and after touching a threshold in ExerciseClassifier.ts to see
+ * whether the change helped one exercise at the expense of another.
+ */
+
+// Row/column key used when the classifier returns null or the engine never locks
+export const NO_PREDICTION = 'None';
+export type PredictionLabel = ExerciseType | typeof NO_PREDICTION;
+
+export type ConfusionMatrix = Record<string, Record<string, number>>;
+
+export interface ClassMetrics {
+    precision: number; // 0-1 (NaN when the class was never predicted)
+    recall: number;    // 0-1 (NaN when the class never appears in the corpus)
+    support: number;   // Number of ground-truth samples
+}
+
+export interface TrackLockResult {
+    name: string;
+    label: ExerciseType;
+    lockedExercise: PredictionLabel;
+    timeToLockMs: number | null; // null when the engine never locked
+    framesToLock: number | null;
+}
+
+export interface FrameEvaluation {
+    total: number;
+    accuracy: number;
+    confusion: ConfusionMatrix;
+    metrics: Record<string, ClassMetrics>;
+}
+
+export interface EvaluationReport {
+    labels: PredictionLabel[];
+    frames: FrameEvaluation;
+    temporalFrames: FrameEvaluation;
+    locks: {
+        total: number;
+        accuracy: number;
+        confusion: ConfusionMatrix;
+        metrics: Record<string, ClassMetrics>;
+        tracks: TrackLockResult[];
+        meanTimeToLockMs: Record<string, number>;
+    };
+}
+
+export interface LabeledTrack {
+    name: string;
+    track: PoseTrack;
+}
+
+export function evaluateClassifier(corpus: LabeledTrack[]): EvaluationReport {
+    const frameConfusion: ConfusionMatrix = {};
+    const temporalConfusion: ConfusionMatrix = {};
+    const lockConfusion: ConfusionMatrix = {};
+    const tracks: TrackLockResult[] = [];
+    const labelSet = new Set<PredictionLabel>();
+
+    let frameTotal = 0;
+
+    for (const { name, track } of corpus) {
+        const label = track.label;
+        if (!label || label === 'Auto-Detect') {
+            console.warn(`Skipping unlabeled track: ${name}`);
+            continue;
+        }
+        labelSet.add(label);
+
+        // 1. Frame-level classification (stateless) and 2. with the motion window
+        const temporal = new TemporalClassifier();
+        for (const frame of track.frames) {
+            // The engine classifies in square coordinates; so do the classifier passes
+            const landmarks = toIsotropic(frame.landmarks, frame.frameSize);
+            const predicted: PredictionLabel = topExercise(classifyExercise(landmarks)) || NO_PREDICTION;
+            labelSet.add(predicted);
+            increment(frameConfusion, label, predicted);
+
+            const temporalPredicted: PredictionLabel = topExercise(temporal.classify(landmarks, frame.timestamp)) || NO_PREDICTION;
+            labelSet.add(temporalPredicted);
+            increment(temporalConfusion, label, temporalPredicted);
+            frameTotal++;
+        }
+
+        // 3. Auto-Detect locking (stateful)
+        const lock = replayLocking(track);
+        labelSet.add(lock.lockedExercise);
+        increment(lockConfusion, label, lock.lockedExercise);
+        tracks.push({ name, label, ...lock });
+    }
+
+    const labels = [...labelSet].sort((a, b) => {
+        // Keep 'None' as the last row/column
+        if (a === NO_PREDICTION) return 1;
+        if (b === NO_PREDICTION) return -1;
+        return a.localeCompare(b);
+    });
+
+    return {
+        labels,
+        frames: {
+            total: frameTotal,
+            accuracy: accuracy(frameConfusion),
+            confusion: frameConfusion,
+            metrics: computeMetrics(frameConfusion, labels)
+        },
+        temporalFrames: {
+            total: frameTotal,
+            accuracy: accuracy(temporalConfusion),
+            confusion: temporalConfusion,
+            metrics: computeMetrics(temporalConfusion, labels)
+        },
+        locks: {
+            total: tracks.length,
+            accuracy: accuracy(lockConfusion),
+            confusion: lockConfusion,
+            metrics: computeMetrics(lockConfusion, labels),
+            tracks,
+            meanTimeToLockMs: meanTimeToLock(tracks)
+        }
+    };
+}
+
+/**
+ * Plain-text report (confusion matrix columns use 5-letter abbreviations)
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+    const lines: string[] = [];
+    const pct = (v: number) => isNaN(v) ? '  -  ' : `${(v * 100).toFixed(1).padStart(5)}%`;
+
+    const section = (title: string, total: number, acc: number, confusion: ConfusionMatrix, metrics: Record<string, ClassMetrics>) => {
+        lines.push(`=== ${title} (n=${total}, accuracy ${pct(acc)}) ===`);
+        lines.push('');
+        lines.push(`${'Exercise'.padEnd(22)} Precision  Recall  Support`);
+        report.labels.forEach(label => {
+            const m = metrics[label];
+            if (!m || (m.support === 0 && isNaN(m.precision))) return;
+            lines.push(`${label.padEnd(22)} ${pct(m.precision)}    ${pct(m.recall)}  ${String(m.support).padStart(7)}`);
+        });
+        lines.push('');
+        lines.push('Confusion (rows = label, columns = predicted)');
+        lines.push(''.padEnd(22) + report.labels.map(l => abbreviate(l).padStart(7)).join(''));
+        report.labels.forEach(label => {
+            const row = confusion[label];
+            if (!row) return;
+            lines.push(label.padEnd(22) + report.labels.map(p => String(row[p] || 0).padStart(7)).join(''));
+        });
+        lines.push('');
+    };
+
+    section('FRAME CLASSIFICATION', report.frames.total, report.frames.accuracy, report.frames.confusion, report.frames.metrics);
+    section('FRAME CLASSIFICATION (MOTION WINDOW)', report.temporalFrames.total, report.temporalFrames.accuracy, report.temporalFrames.confusion, report.temporalFrames.metrics);
+    section('AUTO-DETECT LOCK', report.locks.total, report.locks.accuracy, report.locks.confusion, report.locks.metrics);
+
+    lines.push('Mean time to lock (correct locks only)');
+    Object.entries(report.locks.meanTimeToLockMs).forEach(([label, ms]) => {
+        lines.push(`${label.padEnd(22)} ${(ms / 1000).toFixed(2)}s`);
+    });
+    lines.push('');
+
+    const misses = report.locks.tracks.filter(t => t.lockedExercise !== t.label);
+    if (misses.length > 0) {
+        lines.push('Wrong / missing locks');
+        misses.forEach(t => lines.push(`  ${t.name}: ${t.label} -> ${t.lockedExercise}`));
+    }
+
+    return lines.join('\n');
+}
+
+// --- Helpers ---
+
+function replayLocking(track: PoseTrack): Omit<TrackLockResult, 'name' | 'label'> {
+    const engine = new GeometricRuleEngine();
+    engine.setQuiet(true); // Per-frame lock/unlock logging would bury the report
+    if (track.settings) engine.applySettings(track.settings);
+    engine.setExercise('Auto-Detect');
+    engine.setRecordingStartTime(track.recordingStartTime);
+
+    const startTime = track.frames.length > 0 ? track.frames[0].timestamp : 0;
+
+    for (let i = 0; i < track.frames.length; i++) {
+        const frame = track.frames[i];
+        engine.analyzeFrame(frame.landmarks, frame.timestamp, frame.frameSize);
+
+        const locked = engine.getLockedExercise();
+        if (locked) {
+            return {
+                lockedExercise: locked,
+                timeToLockMs: frame.timestamp - startTime,
+                framesToLock: i + 1
+            };
+        }
+    }
+
+    return { lockedExercise: NO_PREDICTION, timeToLockMs: null, framesToLock: null };
+}
+
+function increment(matrix: ConfusionMatrix, label: string, predicted: string) {
+    if (!matrix[label]) matrix[label] = {};
+    matrix[label][predicted] = (matrix[label][predicted] || 0) + 1;
+}
+
+function accuracy(matrix: ConfusionMatrix): number {
+    let correct = 0;
+    let total = 0;
+    Object.entries(matrix).forEach(([label, row]) => {
+        Object.entries(row).forEach(([predicted, count]) => {
+            total += count;
+            if (predicted === label) correct += count;
+        });
+    });
+    return total > 0 ? correct / total : NaN;
+}
+
+function computeMetrics(matrix: ConfusionMatrix, labels: PredictionLabel[]): Record<string, ClassMetrics> {
+    const metrics: Record<string, ClassMetrics> = {};
+
+    labels.forEach(label => {
+        const truePositives = matrix[label]?.[label] || 0;
+        const support = Object.values(matrix[label] || {}).reduce((sum, n) => sum + n, 0);
+        const predictedCount = Object.values(matrix).reduce((sum, row) => sum + (row[label] || 0), 0);
+
+        metrics[label] = {
+            precision: predictedCount > 0 ? truePositives / predictedCount : NaN,
+            recall: support > 0 ? truePositives / support : NaN,
+            support
+        };
+    });
+
+    return metrics;
+}
+
+function meanTimeToLock(tracks: TrackLockResult[]): Record<string, number> {
+    const sums: Record<string, { total: number; count: number }> = {};
+
+    tracks.forEach(t => {
+        if (t.timeToLockMs === null || t.lockedExercise !== t.label) return;
+        if (!sums[t.label]) sums[t.label] = { total: 0, count: 0 };
+        sums[t.label].total += t.timeToLockMs;
+        sums[t.label].count++;
+    });
+
+    const result: Record<string, number> = {};
+    Object.entries(sums).forEach(([label, { total, count }]) => {
+        result[label] = total / count;
+    });
+    return result;
+}
+
+function abbreviate(label: string): string {
+    // First 5 letters are unique across ExerciseType ("LegEx" vs "LegRa" vs "Later")
+    return label.replace(/[^A-Za-z]/g, '').slice(0, 5);
+}
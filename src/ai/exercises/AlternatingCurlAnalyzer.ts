@@ -0,0 +1,63 @@
+import { PoseLandmark, ScoreBreakdown } from '../ExerciseAnalyzer';
+import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
+import { BodySide, getSideLandmarks } from '../analysis/BodySide';
+import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { UnilateralAnalyzer, SideAnalysis } from './UnilateralAnalyzer';
+import { FaultCode } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+
+/**
+ * AlternatingCurlAnalyzer - Dumbbell curls, one arm at a time
+ *
+ * Same elbow mapping as the barbell curl (160° -> 0.0, 60° -> 1.0) but each arm
+ * counts its own reps. Also works for single-arm sets (the idle arm counts nothing).
+ */
+export class AlternatingCurlAnalyzer extends UnilateralAnalyzer {
+    exerciseName = 'Alternating Dumbbell Curl';
+    private biomechanics = new AlternatingCurlBiomechanics();
+
+    constructor() {
+        super(() => new RepCounter('ConcentricFirst')); // Curl up first
+    }
+
+    protected detectView(landmarks: PoseLandmark[]): CameraView {
+        return this.biomechanics.detectView(landmarks);
+    }
+
+    protected sidePosition(landmarks: PoseLandmark[], side: BodySide): number {
+        const { shoulder, elbow, wrist } = getSideLandmarks(landmarks, side);
+        const elbowAngle = this.calculateAngle(shoulder, elbow, wrist, 'auto'); // Forearm comes toward the camera from the front
+        return Math.min(1, Math.max(0, (160 - elbowAngle) / 100));
+    }
+
+    protected analyzeSide(landmarks: PoseLandmark[], side: BodySide, phase: RepPhase, view: CameraView): SideAnalysis {
+        const { shoulder, elbow, wrist } = getSideLandmarks(landmarks, side);
+        const pillars = this.biomechanics.scoreSide(landmarks, side, view);
+        const breakdown: ScoreBreakdown = { ...pillars, total: this.weightedScore(pillars) };
+
+        const faultCodes: FaultCode[] = [];
+        if (breakdown.stability < this.threshold('pinElbow')) faultCodes.push('elbowDrift'); // Drift
+        if (breakdown.efficiency < this.threshold('elbowIn')) faultCodes.push('elbowFlare'); // Flare
+        if (breakdown.posture < this.threshold('dontSwing')) faultCodes.push('torsoSwing');
+
+        return { breakdown, faultCodes, jointAngles: jointAngleValues({ elbow: this.measureAngle(shoulder, elbow, wrist, 'auto') }) };
+    }
+}
+
+class AlternatingCurlBiomechanics extends BiomechanicalAnalyzer {
+    scoreSide(landmarks: PoseLandmark[], side: BodySide, view: CameraView): Omit<ScoreBreakdown, 'total'> {
+        const { shoulder, elbow, hip } = getSideLandmarks(landmarks, side);
+
+        // Side: elbow drifting forward of the shoulder
+        const stability = (view === 'Side' || view === '45') && Math.abs(shoulder.x - elbow.x) > this.bodyDistance(0.15) ? 60 : 100;
+
+        // Front: elbow flaring away from the torso
+        const efficiency = (view === 'Front' || view === '45') && this.calculateAngle(elbow, shoulder, hip) > 30 ? 60 : 100;
+
+        // Torso swinging back to move the weight (lean from vertical)
+        const lean = Math.abs(Math.atan2(shoulder.x - hip.x, hip.y - shoulder.y) * 180 / Math.PI);
+        const posture = Math.max(0, Math.min(100, 100 - (lean - 10) * 3));
+
+        return { stability, rom: 100, posture, efficiency, bracing: 100 };
+    }
+}
@@ -0,0 +1,86 @@
+import { PoseLandmark, ScoreBreakdown } from '../ExerciseAnalyzer';
+import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
+import { BodySide, getSideLandmarks } from '../analysis/BodySide';
+import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { UnilateralAnalyzer, SideAnalysis } from './UnilateralAnalyzer';
+import { FaultCode } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+
+/**
+ * AlternatingLungeAnalyzer - Lunges / split squats, reps credited to the front leg
+ *
+ * Both knees bend in a lunge, so knee angle alone can't tell the sides apart.
+ * The front leg is the one whose thigh tips towards horizontal; only its knee
+ * drives a position (170° -> 0.0, 90° -> 1.0), the back leg reads 0.
+ */
+
+// Front thigh must be this much more horizontal (normalized drop) to switch legs
+const FRONT_LEG_MARGIN = 0.1;
+
+export class AlternatingLungeAnalyzer extends UnilateralAnalyzer {
+    exerciseName = 'Alternating Lunge';
+    private biomechanics = new LungeBiomechanics();
+    private frontLeg: BodySide | null = null;
+
+    constructor() {
+        super(() => new RepCounter('EccentricFirst')); // Descent first
+    }
+
+    protected detectView(landmarks: PoseLandmark[]): CameraView {
+        return this.biomechanics.detectView(landmarks);
+    }
+
+    protected prepareFrame(landmarks: PoseLandmark[]) {
+        this.updateFrontLeg(landmarks);
+    }
+
+    protected sidePosition(landmarks: PoseLandmark[], side: BodySide): number {
+        if (side !== this.frontLeg) return 0;
+        const { hip, knee, ankle } = getSideLandmarks(landmarks, side);
+        const kneeAngle = this.calculateAngle(hip, knee, ankle, 'auto'); // Front thigh points at the camera from the front
+        return Math.min(1, Math.max(0, (170 - kneeAngle) / 80));
+    }
+
+    protected analyzeSide(landmarks: PoseLandmark[], side: BodySide, phase: RepPhase, view: CameraView): SideAnalysis {
+        const { hip, knee, ankle } = getSideLandmarks(landmarks, side);
+        const pillars = this.biomechanics.scoreSide(landmarks, side, view);
+        const breakdown: ScoreBreakdown = { ...pillars, total: this.weightedScore(pillars) };
+
+        const faultCodes: FaultCode[] = [];
+        if (side === this.frontLeg) {
+            if (breakdown.posture < this.threshold('chestUp')) faultCodes.push('forwardLean');
+            if (breakdown.stability < this.threshold('kneeOverAnkle')) faultCodes.push('kneePastAnkle'); // Caving in/out
+        }
+
+        return { breakdown, faultCodes, jointAngles: jointAngleValues({ knee: this.measureAngle(hip, knee, ankle, 'auto') }) };
+    }
+
+    private updateFrontLeg(landmarks: PoseLandmark[]) {
+        const drop = (side: BodySide) => {
+            const { hip, knee } = getSideLandmarks(landmarks, side);
+            const length = Math.hypot(knee.x - hip.x, knee.y - hip.y);
+            return length > 0 ? (knee.y - hip.y) / length : 1; // 1 = thigh vertical, 0 = horizontal
+        };
+
+        const left = drop('left');
+        const right = drop('right');
+        if (Math.abs(left - right) > FRONT_LEG_MARGIN) {
+            this.frontLeg = left < right ? 'left' : 'right';
+        }
+    }
+}
+
+class LungeBiomechanics extends BiomechanicalAnalyzer {
+    scoreSide(landmarks: PoseLandmark[], side: BodySide, view: CameraView): Omit<ScoreBreakdown, 'total'> {
+        const { shoulder, hip, knee, ankle } = getSideLandmarks(landmarks, side);
+
+        // Torso lean from vertical
+        const lean = Math.abs(Math.atan2(shoulder.x - hip.x, hip.y - shoulder.y) * 180 / Math.PI);
+        const posture = Math.max(0, Math.min(100, 100 - (lean - 15) * 3));
+
+        // Front: knee drifting inside/outside the ankle
+        const stability = view === 'Front' && Math.abs(knee.x - ankle.x) > this.bodyDistance(0.05) ? 60 : 100;
+
+        return { stability, rom: 100, posture, efficiency: 100, bracing: 100 };
+    }
+}
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class BenchPressAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Bench Press';
@@ -12,58 +16,72 @@ export class BenchPressAnalyzer extends ExerciseAnalyzer {
 
         // 1. Detect View
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // 2. Rep Completion (Elbow Extension)
         // Relaxed ROM: 160Â° (Lockout) â†’ 0, 100Â° (Bottom) â†’ 1
         // Previous: (170-angle)/80 was too strict for camera angles.
-        const elbowAngle = this.calculateAngle(landmarks[12], landmarks[14], landmarks[16]);
+        const { shoulder, elbow, wrist } = this.biomechanics.sideLandmarks(landmarks);
+        const elbowReading = this.measureAngle(shoulder, elbow, wrist);
+        const elbowAngle = elbowReading.value;
         const normalizedPos = Math.min(1, Math.max(0, (160 - elbowAngle) / 60));
 
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
         // 3. Messages
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
 
         if (view === 'Front') {
             // Elbow Flare
-            if (pillarScores.efficiency < 70) messages.push("Tuck Elbows");
+            if (pillarScores.efficiency < this.threshold('tuckElbows')) faultCodes.push('elbowFlare');
             // Grip
-            if (pillarScores.stability < 70) messages.push("Uneven Grip");
+            if (pillarScores.stability < this.threshold('unevenGrip')) faultCodes.push('unevenGrip');
         } else {
             // Side (Bar Path)
-            if (pillarScores.efficiency < 70) messages.push("Fix Bar Path");
+            if (pillarScores.efficiency < this.threshold('barPath')) faultCodes.push('barPath');
         }
 
-        const totalScore = (
-            pillarScores.stability * 0.3 +
-            pillarScores.efficiency * 0.3 + // Flare / Path
-            pillarScores.rom * 0.2 +
-            pillarScores.bracing * 0.2
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { elbow: elbowAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ elbow: elbowReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 }
 
@@ -80,15 +98,14 @@ class BenchPressBiomechanics extends BiomechanicalAnalyzer {
 
     // Pillar 4: Efficiency (Flare and Path)
     calculateEfficiency(current: PoseLandmark[], phase: RepPhase, view?: CameraView): number {
-        const shoulder = current[12];
-        const elbow = current[14];
-        const hip = current[24];
+        const { shoulder, elbow, hip, wrist } = this.sideLandmarks(current);
 
         if (view === 'Front') {
             // Angle(Elbow, Shoulder, Hip) aka Arm-Torso angle.
             // 90 = T-pose (Flared). 0 = Arms at sides.
             // Ideal bench: 45-75 degrees.
-            const flareAngle = this.calculateAngle(elbow, shoulder, hip);
+            // Flare is mostly depth when filmed from the side
+            const flareAngle = this.calculateAngle(elbow, shoulder, hip, '3d');
             if (flareAngle > 75) return 60; // Too flared
             if (flareAngle < 30) return 80; // Too tucked (Tricep heavy)
             return 100;
@@ -96,10 +113,9 @@ class BenchPressBiomechanics extends BiomechanicalAnalyzer {
             // Bar Path - Hard single frame. 
             // Check if elbow is directly under wrist? (Forearm vertical)
             // Wrist X vs Elbow X.
-            const wrist = current[16];
             const xDiff = Math.abs(wrist.x - elbow.x);
             // If X matches, vertical forearm.
-            if (xDiff > 0.1) return 70; // Forearms angled
+            if (xDiff > this.bodyDistance(0.1)) return 70; // Forearms angled
             return 100;
         }
         return 100;
@@ -111,7 +127,7 @@ class BenchPressBiomechanics extends BiomechanicalAnalyzer {
             const leftWrist = current[15];
             const rightWrist = current[16];
             // Y level check
-            if (Math.abs(leftWrist.y - rightWrist.y) > 0.05) return 60;
+            if (Math.abs(leftWrist.y - rightWrist.y) > this.bodyDistance(0.05)) return 60;
         }
         return 100;
     }
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class BicepCurlAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Bicep Curl';
@@ -11,51 +15,66 @@ export class BicepCurlAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // Rep Completion
-        const elbowAngle = this.calculateAngle(landmarks[12], landmarks[14], landmarks[16]);
+        const { shoulder, elbow, wrist } = this.biomechanics.sideLandmarks(landmarks);
+        const elbowReading = this.measureAngle(shoulder, elbow, wrist, 'auto'); // Forearm comes toward the camera from the front
+        const elbowAngle = elbowReading.value;
         const normalizedPos = Math.min(1, Math.max(0, (160 - elbowAngle) / 100));
 
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         if (view === 'Side') {
-            if (pillarScores.stability < 70) messages.push("Pin Elbows"); // Drift
+            if (pillarScores.stability < this.threshold('pinElbows')) faultCodes.push('elbowDrift'); // Drift
         } else {
-            if (pillarScores.efficiency < 70) messages.push("Elbows In"); // Flare
+            if (pillarScores.efficiency < this.threshold('elbowsIn')) faultCodes.push('elbowFlare'); // Flare
         }
 
-        if (repState.phase === 'Bottom' && normalizedPos > 0.1) messages.push("Full Extension");
+        if (repState.phase === 'Bottom' && normalizedPos > this.threshold('fullExtension')) faultCodes.push('incompleteArmExtension');
 
-        const totalScore = (
-            pillarScores.rom * 0.4 +
-            pillarScores.stability * 0.4 +
-            pillarScores.efficiency * 0.2
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { elbow: elbowAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ elbow: elbowReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 }
 
@@ -76,14 +95,13 @@ class CurlBiomechanics extends BiomechanicalAnalyzer {
 
         // Elbow X relative to Shoulder X. Should remain relatively fixed.
         // If Elbow moves forward significantly > swing.
-        const shoulder = current[12];
-        const elbow = current[14];
+        const { shoulder, elbow } = this.sideLandmarks(current);
 
         // Difference in X
         const diff = Math.abs(shoulder.x - elbow.x);
 
         // Threshold depends on arm length, but say 0.15 is too much.
-        if (diff > 0.15) return 60;
+        if (diff > this.bodyDistance(0.15)) return 60;
         return 100;
     }
 
@@ -91,9 +109,7 @@ class CurlBiomechanics extends BiomechanicalAnalyzer {
     calculateEfficiency(current: PoseLandmark[], phase: RepPhase, view?: CameraView): number {
         if (view === 'Side') return 100;
 
-        const shoulder = current[12];
-        const elbow = current[14];
-        const hip = current[24];
+        const { shoulder, elbow, hip } = this.sideLandmarks(current);
         const angle = this.calculateAngle(elbow, shoulder, hip);
 
         if (angle > 30) return 60; // Flared out
@@ -1,6 +1,9 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark, ScoreBreakdown } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class ChestFlyAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Chest Fly Machine';
@@ -11,6 +14,7 @@ export class ChestFlyAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // Rep Logic: Use Angle of Adduction (Shoulder-to-Elbow vector against horizontal?)
         // Better: Angle between Left Arm vector and Right Arm vector.
@@ -43,40 +47,53 @@ export class ChestFlyAnalyzer extends ExerciseAnalyzer {
 
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         if (view === 'Side') {
-            if (pillarScores.rom < 70) messages.push("Don't Press");
+            if (pillarScores.rom < this.threshold('dontPress')) faultCodes.push('pressingFly');
         } else {
-            if (pillarScores.stability < 70) messages.push("Balance Arms");
+            if (pillarScores.stability < this.threshold('balanceArms')) faultCodes.push('armImbalance');
         }
 
-        const totalScore = (
-            pillarScores.rom * 0.5 +
-            pillarScores.stability * 0.5
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
             jointAngles: { elbow: 0 }
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 }
 
@@ -99,7 +116,8 @@ class FlyBiomechanics extends BiomechanicalAnalyzer {
         // Check Elbow Angle. Should be ~150-160 fixed.
         // If < 120, it's a press.
         // Side view: calculate angle for arm.
-        const elbowAngle = this.calculateAngle(current[12], current[14], current[16]);
+        const { shoulder, elbow, wrist } = this.sideLandmarks(current);
+        const elbowAngle = this.calculateAngle(shoulder, elbow, wrist);
 
         if (elbowAngle < 120) return 50; // Turning fly into press
         return 100;
@@ -111,7 +129,7 @@ class FlyBiomechanics extends BiomechanicalAnalyzer {
 
         // Arm heights (Elbow Y)
         const diff = Math.abs(current[13].y - current[14].y);
-        if (diff > 0.1) return 60;
+        if (diff > this.bodyDistance(0.1)) return 60;
         return 100;
     }
 
@@ -0,0 +1,53 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { IsometricHoldAnalyzer, HoldCheck } from './IsometricHoldAnalyzer';
+import { FaultCode } from '../faults/FormFault';
+import { averageAngles, jointAngleValues } from '../analysis/JointAngles';
+
+export class DeadHangAnalyzer extends IsometricHoldAnalyzer {
+    exerciseName = 'Dead Hang';
+
+    constructor() {
+        super(30);
+    }
+
+    protected checkPosition(landmarks: PoseLandmark[]): HoldCheck {
+        // Front or side view: average both arms
+        const elbowReading = averageAngles(
+            this.measureAngle(landmarks[11], landmarks[13], landmarks[15]),
+            this.measureAngle(landmarks[12], landmarks[14], landmarks[16]));
+        const elbowAngle = elbowReading.value;
+
+        const shoulderY = (landmarks[11].y + landmarks[12].y) / 2;
+        const wristY = (landmarks[15].y + landmarks[16].y) / 2;
+        const earY = (landmarks[7].y + landmarks[8].y) / 2;
+        const kneeReading = averageAngles(
+            this.measureAngle(landmarks[23], landmarks[25], landmarks[27]),
+            this.measureAngle(landmarks[24], landmarks[26], landmarks[28]));
+        const kneeAngle = kneeReading.value;
+
+        // Hanging: hands above the head (Y increases down)
+        const hanging = wristY < earY;
+
+        // Elbow angle below which the hang has turned into a pull
+        const armsStraight = elbowAngle >= this.threshold('straightenArms');
+
+        const faultCodes: FaultCode[] = [];
+        if (!hanging) faultCodes.push('notHanging');
+        if (!armsStraight) faultCodes.push('bentArms');
+
+        // Shoulders up at the ears = passive hang; keep them packed
+        const shoulderToEar = Math.abs(shoulderY - earY);
+        const shoulderWidth = Math.abs(landmarks[11].x - landmarks[12].x);
+        const packed = shoulderWidth > 0 ? Math.min(100, 100 * shoulderToEar / (shoulderWidth * 0.4)) : 100;
+        if (packed < this.threshold('shouldersDown')) faultCodes.push('shoulderShrug');
+        if (kneeAngle < this.threshold('legsBent')) faultCodes.push('bentLegs');
+
+        return {
+            inPosition: hanging && armsStraight,
+            posture: Math.max(0, 100 * (1 - Math.max(0, 150 - kneeAngle) / 60)),
+            bracing: packed,
+            faultCodes,
+            jointAngles: jointAngleValues({ elbow: elbowReading, knee: kneeReading })
+        };
+    }
+}
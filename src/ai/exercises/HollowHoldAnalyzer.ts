@@ -0,0 +1,47 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { IsometricHoldAnalyzer, HoldCheck } from './IsometricHoldAnalyzer';
+import { FaultCode } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+
+// Hip angle (shoulder-hip-ankle) of a good hollow: a shallow banana
+const IDEAL_HIP = 150;
+
+export class HollowHoldAnalyzer extends IsometricHoldAnalyzer {
+    exerciseName = 'Hollow Hold';
+
+    constructor() {
+        super(30);
+    }
+
+    protected checkPosition(landmarks: PoseLandmark[]): HoldCheck {
+        // Filmed from the side, lying on the back
+        const { shoulder, hip, knee, ankle } = this.facingSide(landmarks);
+
+        const hipReading = this.measureAngle(shoulder, hip, ankle);
+        const hipAngle = hipReading.value;
+        const kneeReading = this.measureAngle(hip, knee, ankle);
+        const kneeAngle = kneeReading.value;
+
+        const lying = Math.abs(ankle.x - shoulder.x) > Math.abs(ankle.y - shoulder.y);
+        // Shoulders / feet must be this far above the hips (screen height, scaled to body size) to be off the floor (Y increases down)
+        const lift = this.bodyDistance(this.threshold('liftOffFloor'));
+        const shouldersUp = shoulder.y < hip.y - lift;
+        const legsUp = ankle.y < hip.y - lift;
+        const legsLow = hipAngle >= this.threshold('lowerLegs');
+
+        const faultCodes: FaultCode[] = [];
+        if (!lying) faultCodes.push('notOnBack');
+        if (!shouldersUp) faultCodes.push('shouldersDown');
+        if (!legsUp) faultCodes.push('legsDown');
+        if (!legsLow) faultCodes.push('legsTooHigh');
+        if (kneeAngle < this.threshold('legsBent')) faultCodes.push('bentLegs');
+
+        return {
+            inPosition: lying && shouldersUp && legsUp && legsLow,
+            posture: Math.max(0, 100 * (1 - Math.abs(IDEAL_HIP - hipAngle) / 40)),
+            bracing: Math.max(0, 100 * (1 - Math.abs(180 - kneeAngle) / 40)),
+            faultCodes,
+            jointAngles: jointAngleValues({ hip: hipReading, knee: kneeReading })
+        };
+    }
+}
@@ -0,0 +1,143 @@
+import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
+import { SideResolver, SideLandmarks, getSideLandmarks } from '../analysis/BodySide';
+import { BodyScaleEstimator, BodyProportions, REFERENCE_BODY } from '../analysis/BodyScale';
+import { HoldTimer, HoldSummary } from '../holds/HoldTimer';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { t, exerciseLabel } from '../../i18n/Messages';
+
+/**
+ * IsometricHoldAnalyzer - Base for static holds (Plank, Side Plank, Wall Sit, ...)
+ *
+ * Subclasses only judge the current frame: is the user in the hold position,
+ * how good is their posture, what should they fix. The base class runs the
+ * HoldTimer on the frame timestamps and adds a stability pillar from how much
+ * the hips sway over the last frames.
+ *
+ * Feedback.reps carries the whole seconds held (the UI shows it as TIME).
+ */
+export interface HoldCheck {
+    inPosition: boolean;   // False breaks the hold (the first fault is the reason)
+    posture: number;       // 0-100, body alignment
+    bracing: number;       // 0-100, tension (e.g. shoulders packed, legs locked)
+    faultCodes: FaultCode[];
+    jointAngles: Record<string, number>;
+}
+
+// Hip centre positions kept for the sway measure
+const SWAY_FRAMES = 15;
+// Mean hip displacement (torso lengths) that scores 0 stability
+const MAX_SWAY = 0.1;
+
+export abstract class IsometricHoldAnalyzer extends ExerciseAnalyzer {
+    private timer: HoldTimer;
+    private defaultTarget: number;
+    private sides = new SideResolver();
+    private hipHistory: { x: number; y: number }[] = [];
+    private bodyScale = new BodyScaleEstimator();
+    protected body: BodyProportions = REFERENCE_BODY;
+
+    constructor(defaultTarget: number) {
+        super();
+        this.defaultTarget = defaultTarget;
+        this.timer = new HoldTimer(defaultTarget);
+    }
+
+    protected abstract checkPosition(landmarks: PoseLandmark[]): HoldCheck;
+
+    // Joints of the camera-facing side (holds filmed from the side)
+    protected facingSide(landmarks: PoseLandmark[]): SideLandmarks {
+        return getSideLandmarks(landmarks, this.sides.resolve(landmarks));
+    }
+
+    // Screen distance tuned at the reference body size, scaled to the athlete in frame
+    protected bodyDistance(distance: number): number {
+        return distance * this.body.scale;
+    }
+
+    analyze(landmarks: PoseLandmark[], timestamp?: number): Feedback {
+        if (landmarks.length < 33) return this.emptyFeedback();
+
+        this.body = this.bodyScale.update(landmarks);
+        const check = this.checkPosition(landmarks);
+        const stability = this.calculateSway(landmarks);
+        const total = this.weightedScore({ posture: check.posture, stability, bracing: check.bracing });
+
+        const state = this.timer.update(check.inPosition, total, timestamp ?? Date.now(), check.faultCodes[0] ?? null);
+        const seconds = this.timer.getSeconds();
+        const target = this.timer.getTarget();
+        const faultCodes = [...check.faultCodes];
+        if (check.inPosition && stability < this.threshold('stayStill')) faultCodes.push('swaying');
+        const faults = formFaults(faultCodes, { repPhase: state, timestamp, repIndex: null });
+
+        let message = faults.length > 0 ? faultMessage(faults[0]) : t(`cues.hold.${state}`);
+        if (state === 'Holding' && faults.length === 0) {
+            message = target !== null && seconds >= target
+                ? t('cues.hold.targetReached')
+                : t('cues.hold.good', { exercise: exerciseLabel(this.exerciseName) });
+        }
+
+        return {
+            score: total,
+            breakdown: {
+                total,
+                stability,
+                rom: check.inPosition ? 100 : 0,
+                posture: check.posture,
+                efficiency: 100,
+                bracing: check.bracing
+            },
+            reps: Math.floor(seconds),
+            repPhase: state,
+            message,
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: check.inPosition,
+            jointAngles: check.jointAngles,
+            hold: {
+                seconds,
+                target,
+                breaks: this.timer.getSummary().breaks.length
+            }
+        };
+    }
+
+    // Target duration in seconds (null = the exercise's default)
+    setTarget(seconds: number | null) {
+        this.timer.setTarget(seconds ?? this.defaultTarget);
+    }
+
+    // Auto-Detect: the hold was already going while it was being detected
+    setElapsedTime(seconds: number) {
+        this.timer.preload(seconds);
+    }
+
+    getHoldSummary(): HoldSummary {
+        return this.timer.getSummary();
+    }
+
+    setRecordingStartTime(timestamp: number): void {
+        this.timer.setRecordingStartTime(timestamp);
+    }
+
+    // 0-100 from the mean hip displacement over the last frames, in torso lengths
+    private calculateSway(landmarks: PoseLandmark[]): number {
+        const hip = { x: (landmarks[23].x + landmarks[24].x) / 2, y: (landmarks[23].y + landmarks[24].y) / 2 };
+        const shoulder = { x: (landmarks[11].x + landmarks[12].x) / 2, y: (landmarks[11].y + landmarks[12].y) / 2 };
+        const torso = Math.hypot(shoulder.x - hip.x, shoulder.y - hip.y);
+
+        this.hipHistory.push(hip);
+        if (this.hipHistory.length > SWAY_FRAMES) this.hipHistory.shift();
+        if (this.hipHistory.length < 2 || torso === 0) return 100;
+
+        const n = this.hipHistory.length;
+        const cx = this.hipHistory.reduce((sum, p) => sum + p.x, 0) / n;
+        const cy = this.hipHistory.reduce((sum, p) => sum + p.y, 0) / n;
+        const sway = this.hipHistory.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / n / torso;
+
+        return Math.max(0, 100 * (1 - sway / MAX_SWAY));
+    }
+
+    private emptyFeedback(): Feedback {
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
+    }
+}
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class LatPulldownAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Lat Pulldown';
@@ -12,51 +16,66 @@ export class LatPulldownAnalyzer extends ExerciseAnalyzer {
 
         // 1. Detect View
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // 2. Rep Completion
-        const elbowAngle = this.calculateAngle(landmarks[12], landmarks[14], landmarks[16]);
+        const { shoulder, elbow, wrist } = this.biomechanics.sideLandmarks(landmarks);
+        const elbowReading = this.measureAngle(shoulder, elbow, wrist);
+        const elbowAngle = elbowReading.value;
         const normalizedPos = Math.min(1, Math.max(0, (170 - elbowAngle) / 100));
 
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
         // 3. Messages
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         if (view === 'Front') {
-            if (pillarScores.stability < 70) messages.push("Pull Evenly"); // Symmetry
+            if (pillarScores.stability < this.threshold('pullEvenly')) faultCodes.push('unevenPull'); // Symmetry
         } else {
-            if (pillarScores.posture < 60) messages.push("Less Lean"); // Lean back
+            if (pillarScores.posture < this.threshold('lessLean')) faultCodes.push('excessiveLean'); // Lean back
         }
 
         // Check Full Extension
-        if (repState.phase === 'Top' && normalizedPos < 0.2 && elbowAngle < 150) messages.push("Full Stretch");
+        if (repState.phase === 'Top' && normalizedPos < 0.2 && elbowAngle < this.threshold('fullStretch')) faultCodes.push('noFullStretch');
 
-        const totalScore = (
-            pillarScores.stability * 0.3 +
-            pillarScores.posture * 0.3 +
-            pillarScores.rom * 0.4
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { elbow: elbowAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ elbow: elbowReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
@@ -80,11 +99,10 @@ class LatBiomechanics extends BiomechanicalAnalyzer {
         if (view === 'Front') return 100;
 
         // Lean angle
-        const shoulder = current[12];
-        const hip = current[24];
+        const { shoulder, hip } = this.sideLandmarks(current);
 
         // Angle vs Vertical
-        const angle = this.calculateAngle({ x: hip.x, y: hip.y - 100, z: 0, visibility: 1 } as any, hip, shoulder);
+        const angle = this.calculateAngle({ x: hip.x, y: hip.y - 100, z: 0, visibility: 1 } as any, hip, shoulder, '2d');
 
         // Optimal: 10-20 deg.
         // If > 30, penalty.
@@ -100,7 +118,7 @@ class LatBiomechanics extends BiomechanicalAnalyzer {
         const leftW = current[15];
         const rightW = current[16];
 
-        if (Math.abs(leftW.y - rightW.y) > 0.05) return 60;
+        if (Math.abs(leftW.y - rightW.y) > this.bodyDistance(0.05)) return 60;
         return 100;
     }
 
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class LateralRaiseAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Lateral Raises';
@@ -11,11 +15,14 @@ export class LateralRaiseAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
+        const { shoulder, elbow, hip } = this.biomechanics.sideLandmarks(landmarks);
 
         // Rep Completion
-        // Angle: Angle between Torso (24-12) and Arm (12-14).
+        // Angle: Angle between Torso (hip-shoulder) and Arm (shoulder-elbow).
         // Rest: ~15 deg. Top: ~90 deg.
-        const shoulderAngle = this.calculateAngle(landmarks[24], landmarks[12], landmarks[14]);
+        const shoulderReading = this.measureAngle(hip, shoulder, elbow);
+        const shoulderAngle = shoulderReading.value;
 
         // Map 20 deg (Rest) -> 0.0
         // Map 85 deg (Top) -> 1.0
@@ -24,40 +31,52 @@ export class LateralRaiseAnalyzer extends ExerciseAnalyzer {
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         if (view === 'Front') {
-            if (pillarScores.stability < 70) messages.push("Arm Height Even");
-            if (pillarScores.efficiency < 70) messages.push("Lead w/ Elbows");
+            if (pillarScores.stability < this.threshold('armHeightEven')) faultCodes.push('unevenArms');
+            if (pillarScores.efficiency < this.threshold('leadWithElbows')) faultCodes.push('wristsLeading');
         } else {
-            if (pillarScores.posture < 70) messages.push("Hands fwd (Scap Plane)");
+            if (pillarScores.posture < this.threshold('scapPlane')) faultCodes.push('offScapPlane');
         }
 
-        const totalScore = (
-            pillarScores.rom * 0.4 +
-            pillarScores.efficiency * 0.3 +
-            pillarScores.posture * 0.3
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { shoulder: shoulderAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ shoulder: shoulderReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
@@ -84,13 +103,12 @@ class LatRaiseBiomechanics extends BiomechanicalAnalyzer {
         // Scapular plane: Arms 30 deg forward relative to torso.
         // Side view: Wrist Z should be close to Shoulder Z? No, 2D side view excludes Z.
         // Side view: Wrist X should be in front of Shoulder X.
-        const shoulder = current[12];
-        const wrist = current[16];
+        const { shoulder, wrist } = this.sideLandmarks(current);
 
         // If Wrist X < Shoulder X (assuming facing right), good.
         // Just check diff.
         const xDiff = Math.abs(wrist.x - shoulder.x);
-        if (xDiff < 0.05) return 70; // Too straight to side (bad for cuff)
+        if (xDiff < this.bodyDistance(0.05)) return 70; // Too straight to side (bad for cuff)
         return 100;
     }
 
@@ -98,11 +116,10 @@ class LatRaiseBiomechanics extends BiomechanicalAnalyzer {
     protected calculateEfficiency(current: PoseLandmark[], phase: RepPhase, view?: CameraView): number {
         if (view === 'Side') return 100;
 
-        const elbow = current[14];
-        const wrist = current[16];
+        const { elbow, wrist } = this.sideLandmarks(current);
 
         // Wrist shouldn't be much higher than elbow
-        if (wrist.y < elbow.y - 0.05) return 60;
+        if (wrist.y < elbow.y - this.bodyDistance(0.05)) return 60;
         return 100;
     }
 
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { averageAngles, jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class LegExtensionAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Leg Extension';
@@ -11,24 +15,23 @@ export class LegExtensionAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        const side = this.biomechanics.resolveSide(landmarks);
 
         // 1. Rep Completion (Concentric First: 90 -> 180)
         // Standard Machine: Start at 90 deg (flexed), End at 180 deg (straight)
-        const leftKneeAngle = this.calculateAngle(landmarks[23], landmarks[25], landmarks[27]);
-        const rightKneeAngle = this.calculateAngle(landmarks[24], landmarks[26], landmarks[28]);
+        const leftKnee = this.measureAngle(landmarks[23], landmarks[25], landmarks[27]);
+        const rightKnee = this.measureAngle(landmarks[24], landmarks[26], landmarks[28]);
 
         // Use the leg that is more visible or active. For now, avg or max? 
         // Usually bilateral. Let's pick the side visible from camera view.
         // If Side view, pick closest side.
-        let kneeAngle = (leftKneeAngle + rightKneeAngle) / 2;
+        let kneeReading = averageAngles(leftKnee, rightKnee);
 
         if (view === 'Side') {
-            // Pick closer side based on visibility/z-index or view detection logic
-            // Simple heuristic: which hip is more visible? or use view detection result implicit side
-            // For simplicity in this codebase, we often use the average or dominant. 
-            // Let's stick to the one providing larger range for now (active leg)
-            kneeAngle = Math.max(leftKneeAngle, rightKneeAngle);
+            // Far leg is occluded from the side - use the camera-facing one
+            kneeReading = side === 'left' ? leftKnee : rightKnee;
         }
+        const kneeAngle = kneeReading.value;
 
         // Normalize: 90 degrees = 0.0, 155 degrees = 1.0 (Generous extension target)
         // Range = 65. 
@@ -37,13 +40,13 @@ export class LegExtensionAnalyzer extends ExerciseAnalyzer {
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
 
         // Feedback Logic
         if (repState.phase === 'Concentric' || repState.phase === 'Top') {
             // ROM feedback (Be more lenient: 145 degrees is sufficient for most)
-            if (kneeAngle < 145 && normalizedPos > 0.8) {
-                messages.push("Extend More");
+            if (kneeAngle < this.threshold('extendMore') && normalizedPos > 0.8) {
+                faultCodes.push('incompleteLegExtension');
             }
         }
 
@@ -53,8 +56,8 @@ export class LegExtensionAnalyzer extends ExerciseAnalyzer {
         const rightHipAngle = this.calculateAngle(landmarks[12], landmarks[24], landmarks[26]);
         const hipAngle = Math.max(leftHipAngle, rightHipAngle);
 
-        if (hipAngle > 145) {
-            messages.push("Keep Hips Down");
+        if (hipAngle > this.threshold('hipsDown')) {
+            faultCodes.push('hipsLifting');
         }
 
         // Peak Contraction Tip (Ankle vs Knee Y level)
@@ -67,34 +70,46 @@ export class LegExtensionAnalyzer extends ExerciseAnalyzer {
             // Tolerance?
         }
 
-        const totalScore = (
-            pillarScores.rom * 0.4 +
-            pillarScores.stability * 0.3 +
-            pillarScores.posture * 0.3
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { knee: kneeAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ knee: kneeReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 }
 
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { averageAngles, jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class LegRaisesAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Leg Raises';
@@ -18,11 +22,11 @@ export class LegRaisesAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // Movement is primarily Hip Flexion
-        const leftHip = this.calculateAngle(landmarks[11], landmarks[23], landmarks[25]);
-        const rightHip = this.calculateAngle(landmarks[12], landmarks[24], landmarks[26]);
-        const hipAngle = (leftHip + rightHip) / 2;
+        const hipReading = averageAngles(this.measureAngle(landmarks[11], landmarks[23], landmarks[25]), this.measureAngle(landmarks[12], landmarks[24], landmarks[26]));
+        const hipAngle = hipReading.value;
 
         // Normalize: 170 (0) -> 90 (1)
         const normalizedPos = Math.min(1, Math.max(0, (170 - hipAngle) / 80));
@@ -30,42 +34,53 @@ export class LegRaisesAnalyzer extends ExerciseAnalyzer {
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
-        if (pillarScores.stability < 70) {
-            messages.push(view === 'Side' ? "Control Swing" : "Keep Shoulders Down");
+        const faultCodes: FaultCode[] = [];
+        if (pillarScores.stability < this.threshold('stability')) {
+            faultCodes.push(view === 'Side' ? 'legSwing' : 'shouldersLifting');
         }
-        if (pillarScores.efficiency < 70) messages.push("Straighten Legs");
-        if (repState.phase === 'Top' && hipAngle > 100) messages.push("Legs Higher");
+        if (pillarScores.efficiency < this.threshold('straightenLegs')) faultCodes.push('bentLegs');
+        if (repState.phase === 'Top' && hipAngle > this.threshold('legsHigher')) faultCodes.push('lowLegRaise');
 
-        const totalScore = (
-            pillarScores.rom * 0.3 +
-            pillarScores.stability * 0.3 +
-            pillarScores.efficiency * 0.2 +
-            pillarScores.bracing * 0.2
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : (repState.phase === 'Rest' ? 'Get Set' : repState.phase),
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { hip: hipAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : (repState.phase === 'Rest' ? t('cues.getSet') : phaseLabel(repState.phase)),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ hip: hipReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 }
 
@@ -93,14 +108,14 @@ class LegRaiseBiomechanics extends BiomechanicalAnalyzer {
             const firstShoulderY = (this.history[0][11].y + this.history[0][12].y) / 2;
             const currentShoulderY = (current[11].y + current[12].y) / 2;
             const shoulderMovement = Math.abs(currentShoulderY - firstShoulderY);
-            if (shoulderMovement > 0.05) return 60; // Flag shrugging/dropping
+            if (shoulderMovement > this.bodyDistance(0.05)) return 60; // Flag shrugging/dropping
         }
 
         if (view === 'Side') {
             // Anti-Swing: Hips shouldn't travel significantly in X relative to shoulders
             const shoulderX = (current[11].x + current[12].x) / 2;
             const hipX = (current[23].x + current[24].x) / 2;
-            if (Math.abs(shoulderX - hipX) > 0.15) return 70;
+            if (Math.abs(shoulderX - hipX) > this.bodyDistance(0.15)) return 70;
         }
 
         return 100;
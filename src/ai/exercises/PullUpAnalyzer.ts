@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class PullUpAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Pull Up';
@@ -19,50 +23,65 @@ export class PullUpAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // Rep Completion
-        const elbowAngle = this.calculateAngle(landmarks[12], landmarks[14], landmarks[16]);
+        const { shoulder, elbow, wrist } = this.biomechanics.sideLandmarks(landmarks);
+        const elbowReading = this.measureAngle(shoulder, elbow, wrist);
+        const elbowAngle = elbowReading.value;
         const normalizedPos = Math.min(1, Math.max(0, (170 - elbowAngle) / 120));
 
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         if (view === 'Side') {
-            if (pillarScores.stability < 70) messages.push("No Swinging");
-            if (repState.phase === 'Top' && pillarScores.rom < 70) messages.push("Chest to Bar");
+            if (pillarScores.stability < this.threshold('noSwinging')) faultCodes.push('kipping');
+            if (repState.phase === 'Top' && pillarScores.rom < this.threshold('chestToBar')) faultCodes.push('shortPull');
         } else {
-            if (pillarScores.stability < 70) messages.push("Pull Evenly");
+            if (pillarScores.stability < this.threshold('pullEvenly')) faultCodes.push('unevenPull');
         }
 
-        if (repState.phase === 'Bottom' && normalizedPos > 0.1) messages.push("Full Hang");
+        if (repState.phase === 'Bottom' && normalizedPos > this.threshold('fullHang')) faultCodes.push('noFullHang');
 
-        const totalScore = (
-            pillarScores.rom * 0.4 +
-            pillarScores.stability * 0.3 +
-            pillarScores.bracing * 0.3
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { elbow: elbowAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ elbow: elbowReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
@@ -93,15 +112,14 @@ class PullUpBiomechanics extends BiomechanicalAnalyzer {
             // Hard without history.
             // Instant check: Hip X vs Shoulder X.
             // If Hip X is wildly far from Shoulder X, swinging.
-            const shoulder = current[12];
-            const hip = current[24];
+            const { shoulder, hip } = this.sideLandmarks(current);
 
             const xDiff = Math.abs(shoulder.x - hip.x);
-            if (xDiff > 0.15) return 60; // Kipping
+            if (xDiff > this.bodyDistance(0.15)) return 60; // Kipping
         } else if (view === 'Front') {
             const leftSh = current[11];
             const rightSh = current[12];
-            if (Math.abs(leftSh.y - rightSh.y) > 0.05) return 70; // Shrug uneven
+            if (Math.abs(leftSh.y - rightSh.y) > this.bodyDistance(0.05)) return 70; // Shrug uneven
         }
         return 100;
     }
@@ -111,7 +129,7 @@ class PullUpBiomechanics extends BiomechanicalAnalyzer {
         // Chest to Bar (Side view estimate)
         // Chin vs Wrist Y
         const chin = current[2]; // Nose approx
-        const wrist = current[16]; // Right wrist
+        const { wrist } = this.sideLandmarks(current);
 
         if (chin.y < wrist.y) return 100; // Chin over bar
         return 80;
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { averageAngles, jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class PushUpAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Push Up';
@@ -19,11 +23,11 @@ export class PushUpAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // Rep Completion Logic
-        const leftElbow = this.calculateAngle(landmarks[11], landmarks[13], landmarks[15]);
-        const rightElbow = this.calculateAngle(landmarks[12], landmarks[14], landmarks[16]);
-        const elbowAngle = (leftElbow + rightElbow) / 2;
+        const elbowReading = averageAngles(this.measureAngle(landmarks[11], landmarks[13], landmarks[15]), this.measureAngle(landmarks[12], landmarks[14], landmarks[16]));
+        const elbowAngle = elbowReading.value;
 
         // Normalize:
         // Angle 170 -> 0.0 (Top)
@@ -33,39 +37,50 @@ export class PushUpAnalyzer extends ExerciseAnalyzer {
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         // Feedback Logic
-        if (pillarScores.bracing < 70) messages.push("Tighten Core"); // Hip Sag
-        if (pillarScores.posture < 70) messages.push("Straight Body");
-        if (repState.phase === 'Bottom' && pillarScores.rom < 70) messages.push("Go Lower");
+        if (pillarScores.bracing < this.threshold('tightenCore')) faultCodes.push('hipSag'); // Hip Sag
+        if (pillarScores.posture < this.threshold('straightBody')) faultCodes.push('bodyMisaligned');
+        if (repState.phase === 'Bottom' && pillarScores.rom < this.threshold('goLower')) faultCodes.push('shallowPushUp');
 
-        const totalScore = (
-            pillarScores.rom * 0.3 +
-            pillarScores.stability * 0.2 +
-            pillarScores.bracing * 0.3 +
-            pillarScores.posture * 0.2
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : (repState.phase === 'Rest' ? 'Get Set' : repState.phase),
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { elbow: elbowAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : (repState.phase === 'Rest' ? t('cues.getSet') : phaseLabel(repState.phase)),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ elbow: elbowReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
@@ -1,6 +1,11 @@
 ﻿import { Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer } from '../analysis/BiomechanicalAnalyzer';
-import { RepTimestamp, RepPhase } from '../reps/RepCounter';
+import { RepTimestamp, RepPhase, RepRecord, RepAttempt } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { UnilateralSummary } from './UnilateralAnalyzer';
+import { HoldSummary } from '../holds/HoldTimer';
+import { ExerciseScoring } from '../scoring/ScoringProfile';
+import { t } from '../../i18n/Messages';
 
 export class RussianTwistAnalyzer extends BiomechanicalAnalyzer {
     exerciseName = 'Russian Twist';
@@ -13,6 +18,7 @@ export class RussianTwistAnalyzer extends BiomechanicalAnalyzer {
     private lastPeakTime = 0;
     private currentMidTime = 0;
     private repTimestamps: RepTimestamp[] = [];
+    private twistDepth = 0.5;
 
     constructor() {
         super();
@@ -37,7 +43,7 @@ export class RussianTwistAnalyzer extends BiomechanicalAnalyzer {
         const hipCenterX = (leftHip.x + rightHip.x) / 2;
         const wristCenterX = (leftWrist.x + rightWrist.x) / 2;
 
-        let message = "Twist side to side";
+        let message = t('cues.twist');
         let isGoodForm = true;
         let correction = "";
 
@@ -46,7 +52,7 @@ export class RussianTwistAnalyzer extends BiomechanicalAnalyzer {
         const xOffset = wristCenterX - hipCenterX;
 
         // Threshold for a "Valid Twist" (must go far enough)
-        const twistThreshold = Math.abs(leftShoulder.x - rightShoulder.x) * 0.5;
+        const twistThreshold = Math.abs(leftShoulder.x - rightShoulder.x) * this.twistDepth;
 
         // State Machine
         const now = timestamp || Date.now();
@@ -90,6 +96,7 @@ export class RussianTwistAnalyzer extends BiomechanicalAnalyzer {
             repPhase: this.direction === 'left' ? 'Twisting Left' : 'Twisting Right',
             message: message,
             correction: correction,
+            faults: [], // Rep counting only, no form checks yet
             isGoodForm: isGoodForm,
             detectedExercise: 'Russian Twist'
         };
@@ -101,7 +108,7 @@ export class RussianTwistAnalyzer extends BiomechanicalAnalyzer {
             breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
             reps: 0,
             repPhase: 'Rest',
-            message: "No Pose",
+            message: t('cues.noPose'),
             isGoodForm: false,
             detectedExercise: 'Russian Twist'
         };
@@ -111,6 +118,31 @@ export class RussianTwistAnalyzer extends BiomechanicalAnalyzer {
         return this.repTimestamps;
     }
 
+    getRepRecords(): RepRecord[] {
+        return []; // Side-to-side counter has no RepCounter phases to record
+    }
+
+    getRepAttempts(): RepAttempt[] {
+        return [];
+    }
+
+    getSideSummary(): UnilateralSummary | null {
+        return null;
+    }
+
+    getHoldSummary(): HoldSummary | null {
+        return null;
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null): void {
+        // No rep position signal to rescale
+    }
+
+    setScoring(scoring: ExerciseScoring): void {
+        // No pillar scoring; only the twist depth (shoulder widths) is tunable
+        this.twistDepth = scoring.faults.twistDepth ?? 0.5;
+    }
+
     private recordingStartTime = 0;
     setRecordingStartTime(timestamp: number): void {
         this.recordingStartTime = timestamp;
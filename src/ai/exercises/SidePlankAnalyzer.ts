@@ -0,0 +1,62 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { IsometricHoldAnalyzer, HoldCheck } from './IsometricHoldAnalyzer';
+import { FaultCode } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+
+export class SidePlankAnalyzer extends IsometricHoldAnalyzer {
+    exerciseName = 'Side Plank';
+
+    constructor() {
+        super(30);
+    }
+
+    protected checkPosition(landmarks: PoseLandmark[]): HoldCheck {
+        // Filmed from the front: the body is a diagonal line across the frame,
+        // both sides are visible, so work on the midpoints.
+        const shoulder = midpoint(landmarks[11], landmarks[12]);
+        const hip = midpoint(landmarks[23], landmarks[24]);
+        const knee = midpoint(landmarks[25], landmarks[26]);
+        const ankle = midpoint(landmarks[27], landmarks[28]);
+
+        const bodyReading = this.measureAngle(shoulder, hip, ankle);
+        const bodyAngle = bodyReading.value;
+        const kneeReading = this.measureAngle(hip, knee, ankle);
+        const kneeAngle = kneeReading.value;
+
+        // Lying on the side: the body spans more width than height
+        const sideways = Math.abs(ankle.x - shoulder.x) > Math.abs(ankle.y - shoulder.y) * 0.5;
+
+        // Where the hip should be on the straight shoulder-ankle line (Y increases down)
+        const dx = ankle.x - shoulder.x;
+        const lineY = Math.abs(dx) > 0.01 ? shoulder.y + (ankle.y - shoulder.y) * (hip.x - shoulder.x) / dx : hip.y;
+        const hipOffset = hip.y - lineY;
+
+        // Hip further than this (screen height, scaled to body size) from the shoulder-ankle line
+        const offLine = this.bodyDistance(this.threshold('hipsOffLine'));
+        const legsStraight = kneeAngle >= this.threshold('legsBent');
+
+        const faultCodes: FaultCode[] = [];
+        if (!sideways) faultCodes.push('notOnSide');
+        if (hipOffset > offLine) faultCodes.push('hipSag');
+        else if (hipOffset < -offLine) faultCodes.push('hipsHigh');
+        if (!legsStraight) faultCodes.push('bentLegs');
+
+        // Shoulders stacked: the top shoulder sits right above the bottom one
+        const shoulderWidth = Math.abs(landmarks[11].x - landmarks[12].x);
+        const torso = Math.hypot(shoulder.x - hip.x, shoulder.y - hip.y);
+        const stacked = torso > 0 ? Math.max(0, 100 * (1 - shoulderWidth / torso)) : 100;
+        if (faultCodes.length === 0 && stacked < this.threshold('stackShoulders')) faultCodes.push('shouldersNotStacked');
+
+        return {
+            inPosition: sideways && Math.abs(hipOffset) <= offLine && legsStraight,
+            posture: Math.max(0, 100 * (1 - Math.abs(180 - bodyAngle) / 40)),
+            bracing: stacked,
+            faultCodes,
+            jointAngles: jointAngleValues({ body: bodyReading, knee: kneeReading })
+        };
+    }
+}
+
+function midpoint(a: PoseLandmark, b: PoseLandmark): PoseLandmark {
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2, visibility: Math.min(a.visibility, b.visibility) };
+}
@@ -0,0 +1,65 @@
+import { PoseLandmark, ScoreBreakdown } from '../ExerciseAnalyzer';
+import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
+import { BodySide, getSideLandmarks } from '../analysis/BodySide';
+import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { UnilateralAnalyzer, SideAnalysis } from './UnilateralAnalyzer';
+import { FaultCode } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+
+/**
+ * SingleArmRowAnalyzer - One-arm dumbbell row (hand/knee braced on a bench)
+ *
+ * Elbow 170° (arm hanging) -> 0.0, 80° (elbow past the torso) -> 1.0, as in the
+ * T-Bar Row. The bracing arm stays extended and counts nothing; switching arms
+ * between sets gives per-side reps.
+ */
+export class SingleArmRowAnalyzer extends UnilateralAnalyzer {
+    exerciseName = 'Single Arm Dumbbell Row';
+    private biomechanics = new SingleArmRowBiomechanics();
+
+    constructor() {
+        super(() => new RepCounter('ConcentricFirst')); // Pull first
+    }
+
+    protected detectView(landmarks: PoseLandmark[]): CameraView {
+        return this.biomechanics.detectView(landmarks);
+    }
+
+    protected sidePosition(landmarks: PoseLandmark[], side: BodySide): number {
+        const { shoulder, elbow, wrist } = getSideLandmarks(landmarks, side);
+        const elbowAngle = this.calculateAngle(shoulder, elbow, wrist);
+        return Math.min(1, Math.max(0, (170 - elbowAngle) / 90));
+    }
+
+    protected analyzeSide(landmarks: PoseLandmark[], side: BodySide, phase: RepPhase, view: CameraView): SideAnalysis {
+        const { shoulder, elbow, wrist } = getSideLandmarks(landmarks, side);
+        const pillars = this.biomechanics.scoreSide(landmarks, side, view);
+        const breakdown: ScoreBreakdown = { ...pillars, total: this.weightedScore(pillars) };
+
+        const faultCodes: FaultCode[] = [];
+        if (breakdown.posture < this.threshold('hingeForward')) faultCodes.push('noHinge'); // Torso too upright
+        if (breakdown.bracing < this.threshold('squareShoulders')) faultCodes.push('trunkRotation'); // Rotating to lift
+        if (breakdown.efficiency < this.threshold('elbowToHip')) faultCodes.push('shortRow'); // Pulling wide
+
+        return { breakdown, faultCodes, jointAngles: jointAngleValues({ elbow: this.measureAngle(shoulder, elbow, wrist) }) };
+    }
+}
+
+class SingleArmRowBiomechanics extends BiomechanicalAnalyzer {
+    scoreSide(landmarks: PoseLandmark[], side: BodySide, view: CameraView): Omit<ScoreBreakdown, 'total'> {
+        const { shoulder, elbow, hip, knee } = getSideLandmarks(landmarks, side);
+
+        // Hip hinge: torso should be well forward of upright (hip angle < ~140°)
+        const hipAngle = this.calculateAngle(shoulder, hip, knee);
+        const posture = hipAngle > 150 ? 50 : hipAngle > 140 ? 75 : 100;
+
+        // Front: shoulders tilting (trunk rotation) while pulling
+        const shoulderTilt = Math.abs(landmarks[11].y - landmarks[12].y);
+        const bracing = view === 'Front' && shoulderTilt > this.bodyDistance(0.08) ? 60 : 100;
+
+        // Front: elbow travelling away from the body
+        const efficiency = view === 'Front' && this.calculateAngle(elbow, shoulder, hip) > 45 ? 60 : 100;
+
+        return { stability: 100, rom: 100, posture, efficiency, bracing };
+    }
+}
@@ -1,6 +1,11 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { t, phaseLabel } from '../../i18n/Messages';
+import { isJointAvailable, isLandmarkAvailable } from '../skeleton/Skeleton';
+import { JointAngle, jointAngleValues } from '../analysis/JointAngles';
 
 /**
  * SquatAnalyzer - Biomechanical analysis for barbell/bodyweight squats
@@ -33,8 +38,9 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
 
         this.framesSinceStart++;
 
-        // 1. Detect Camera View
+        // 1. Detect Camera View & the side facing the camera
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // 2. Calculate Key Joint Angles
         const angles = this.calculateSquatAngles(landmarks);
@@ -53,7 +59,7 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
         pillarScores.posture = this.biomechanics.calculatePosture(landmarks, view);
 
         // 5. Quality Flags & Feedback Generation
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         let qualityFlags: string[] = [];
 
         // --- Heel Lift Detection (Ankle Mobility Issue) ---
@@ -61,7 +67,7 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
         if (heelLiftResult.isLifted) {
             qualityFlags.push("Limited Ankle Mobility");
             if (repState.phase === 'Eccentric' || repState.phase === 'Bottom') {
-                messages.push("Heels Down!");
+                faultCodes.push('heelLift');
             }
         }
 
@@ -70,8 +76,8 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
             case 'Rest':
             case 'Top':
                 // Setup Phase - Check stance and bracing
-                if (angles.knee < 160) {
-                    messages.push("Stand Tall");
+                if (angles.knee.value < this.threshold('standTall')) {
+                    faultCodes.push('incompleteLockout');
                 }
                 break;
 
@@ -79,13 +85,13 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
                 // Descent Phase - Check weight distribution and knee tracking
                 if (view === 'Front') {
                     const valgusScore = this.biomechanics.checkValgus(landmarks);
-                    if (valgusScore < 70) {
-                        messages.push("Knees Out!");
+                    if (valgusScore < this.threshold('kneesOut')) {
+                        faultCodes.push('kneeValgus');
                         qualityFlags.push("Knee Valgus");
                     }
                 }
-                if (view === 'Side' && pillarScores.posture < 60) {
-                    messages.push("Chest Up");
+                if (view === 'Side' && pillarScores.posture < this.threshold('chestUp')) {
+                    faultCodes.push('forwardLean');
                 }
                 break;
 
@@ -93,12 +99,12 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
                 // The Hole - Check depth and stretch position
                 const depthScore = this.biomechanics.checkDepth(landmarks, view);
                 if (depthScore < 100) {
-                    messages.push("Go Deeper");
+                    faultCodes.push('shallowSquat');
                     qualityFlags.push("Partial Depth");
                 }
                 // Check for butt wink (posterior pelvic tilt) at bottom
                 if (this.detectButtWink(landmarks, view)) {
-                    messages.push("Neutral Spine");
+                    faultCodes.push('buttWink');
                     qualityFlags.push("Butt Wink");
                 }
                 break;
@@ -107,68 +113,60 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
                 // Ascent Phase - Check for hip rise without shoulders
                 if (view === 'Side') {
                     const goodMorningScore = this.detectGoodMorning(landmarks);
-                    if (goodMorningScore < 70) {
-                        messages.push("Hips & Chest Together");
+                    if (goodMorningScore < this.threshold('hipsAndChest')) {
+                        faultCodes.push('goodMorning');
                         qualityFlags.push("Good Morning Pattern");
                     }
                 }
                 if (view === 'Front') {
                     const valgusScore = this.biomechanics.checkValgus(landmarks);
-                    if (valgusScore < 70) messages.push("Knees Out!");
+                    if (valgusScore < this.threshold('kneesOut')) faultCodes.push('kneeValgus');
                 }
                 break;
         }
 
         // 6. Calculate Total Score
-        const totalScore = (
-            pillarScores.rom * 0.35 +      // Depth is crucial
-            pillarScores.stability * 0.25 + // Knee tracking / Balance
-            pillarScores.posture * 0.20 +   // Torso position
-            pillarScores.bracing * 0.10 +   // Core stability
-            pillarScores.efficiency * 0.10  // Movement efficiency
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : this.getPhaseMessage(repState.phase),
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80 && qualityFlags.length === 0,
-            jointAngles: {
-                hip: angles.hip,
-                knee: angles.knee,
-                ankle: angles.ankle
-            }
+            message: faults.length > 0 ? faultMessage(faults[0]) : this.getPhaseMessage(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore) && qualityFlags.length === 0,
+            jointAngles: jointAngleValues(angles)
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     /**
      * Calculate all relevant squat angles
      */
-    private calculateSquatAngles(landmarks: PoseLandmark[]): { hip: number; knee: number; ankle: number } {
-        // Use right side for consistency (or average both sides)
-        const shoulder = landmarks[12];
-        const hip = landmarks[24];
-        const knee = landmarks[26];
-        const ankle = landmarks[28];
-        const toe = landmarks[32]; // Right foot index
+    private calculateSquatAngles(landmarks: PoseLandmark[]): { hip: JointAngle; knee: JointAngle; ankle?: JointAngle } {
+        // Use the camera-facing side (far side is occluded from a side view)
+        const { shoulder, hip, knee, ankle, footIndex: toe } = this.biomechanics.sideLandmarks(landmarks);
 
         // Hip Angle: Shoulder-Hip-Knee (180° = standing, ~45-60° = bottom)
-        const hipAngle = this.calculateAngle(shoulder, hip, knee);
+        // 'auto': filmed from the front the thighs point at the camera and the 2D angles barely move
+        const hipAngle = this.measureAngle(shoulder, hip, knee, 'auto');
 
         // Knee Angle: Hip-Knee-Ankle (180° = standing, ~60-80° = bottom)
-        const kneeAngle = this.calculateAngle(hip, knee, ankle);
+        const kneeAngle = this.measureAngle(hip, knee, ankle, 'auto');
 
         // Ankle Angle: Knee-Ankle-Toe (90° = neutral, decreasing = dorsiflexion)
         // We calculate dorsiflexion as deviation from vertical shin
-        const ankleAngle = this.calculateAngle(knee, ankle, toe);
+        // Models without foot keypoints (COCO/MoveNet) can't measure it -> left out
+        const ankleAngle = isLandmarkAvailable(toe) ? this.measureAngle(knee, ankle, toe) : null;
 
         return {
             hip: hipAngle,
             knee: kneeAngle,
-            ankle: ankleAngle
+            ...(ankleAngle ? { ankle: ankleAngle } : {})
         };
     }
 
@@ -176,9 +174,8 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
      * Calculate normalized position for rep counting
      * Uses a hybrid of knee angle and hip Y-position for robust detection
      */
-    private calculateNormalizedPosition(landmarks: PoseLandmark[], angles: { hip: number; knee: number; ankle: number }): number {
-        const hip = landmarks[24];
-        const knee = landmarks[26];
+    private calculateNormalizedPosition(landmarks: PoseLandmark[], angles: { hip: JointAngle; knee: JointAngle; ankle?: JointAngle }): number {
+        const { hip, knee } = this.biomechanics.sideLandmarks(landmarks);
 
         // Primary method: Y-coordinate comparison (hip crease vs knee)
         // In screen coords, Y increases downward
@@ -190,11 +187,12 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
 
         // Secondary method: Knee angle
         // Standing: ~170-180°, Bottom: ~60-90°
-        const angleNorm = Math.min(1, Math.max(0, (170 - angles.knee) / 80));
+        const angleNorm = Math.min(1, Math.max(0, (170 - angles.knee.value) / 80));
 
         // Y-position normalization
         // Positive = hip above knee (standing), Negative = hip at/below knee (depth)
-        const yNorm = Math.min(1, Math.max(0, (0.05 - verticalDiff) / 0.15 + 0.5));
+        const yNorm = Math.min(1, Math.max(0,
+            (this.biomechanics.bodyDistance(0.05) - verticalDiff) / this.biomechanics.bodyDistance(0.15) + 0.5));
 
         // Weighted combination favoring Y-position for depth determination
         return angleNorm * 0.4 + yNorm * 0.6;
@@ -204,6 +202,11 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
      * Detect heel lift indicating ankle mobility limitation
      */
     private detectHeelLift(landmarks: PoseLandmark[]): { isLifted: boolean; amount: number } {
+        // Heel keypoints are BlazePose-only
+        if (!isJointAvailable(landmarks, 'leftHeel') || !isJointAvailable(landmarks, 'rightHeel')) {
+            return { isLifted: false, amount: 0 };
+        }
+
         const leftHeel = landmarks[29];
         const rightHeel = landmarks[30];
         const avgHeelY = (leftHeel.y + rightHeel.y) / 2;
@@ -226,8 +229,8 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
         // Heel lift: Y decreases (moves up in screen coords)
         const liftAmount = this.baselineHeelY - avgHeelY;
 
-        // Threshold: significant lift (normalized, ~0.02 is noticeable)
-        const isLifted = liftAmount > 0.015;
+        // Threshold: significant lift (normalized at the reference body size, ~0.02 is noticeable)
+        const isLifted = liftAmount > this.biomechanics.bodyDistance(this.threshold('heelLift'));
 
         return { isLifted, amount: liftAmount };
     }
@@ -239,16 +242,15 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
     private detectButtWink(landmarks: PoseLandmark[], view: CameraView): boolean {
         if (view === 'Front') return false; // Can't detect from front
 
-        const shoulder = landmarks[12];
-        const hip = landmarks[24];
-        const knee = landmarks[26];
+        const { shoulder, hip, knee } = this.biomechanics.sideLandmarks(landmarks);
 
         // Calculate torso angle relative to vertical
         // Butt wink often manifests as excessive forward lean or pelvis rotation
         const torsoAngle = this.calculateAngle(
             { x: hip.x, y: hip.y - 0.2, z: 0, visibility: 1 } as PoseLandmark,
             hip,
-            shoulder
+            shoulder,
+            '2d'
         );
 
         // At bottom, some forward lean is expected (~30-45°)
@@ -264,15 +266,14 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
      * Common fault during ascent indicating weak quads or poor bracing
      */
     private detectGoodMorning(landmarks: PoseLandmark[]): number {
-        const shoulder = landmarks[12];
-        const hip = landmarks[24];
-        const knee = landmarks[26];
+        const { shoulder, hip } = this.biomechanics.sideLandmarks(landmarks);
 
         // Calculate torso angle
         const torsoAngle = this.calculateAngle(
             { x: hip.x, y: hip.y - 0.2, z: 0, visibility: 1 } as PoseLandmark,
             hip,
-            shoulder
+            shoulder,
+            '2d'
         );
 
         // Also check hip-shoulder relationship
@@ -291,12 +292,12 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
      */
     private getPhaseMessage(phase: RepPhase): string {
         switch (phase) {
-            case 'Rest': return 'Ready';
-            case 'Top': return 'Standing';
-            case 'Eccentric': return 'Descending';
-            case 'Bottom': return 'Hold';
-            case 'Concentric': return 'Drive Up';
-            default: return phase;
+            case 'Rest': return t('cues.squat.ready');
+            case 'Top': return t('cues.squat.standing');
+            case 'Eccentric': return t('cues.squat.descending');
+            case 'Bottom': return t('cues.squat.hold');
+            case 'Concentric': return t('cues.squat.driveUp');
+            default: return phaseLabel(phase);
         }
     }
 
@@ -304,6 +305,18 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
@@ -321,7 +334,7 @@ export class SquatAnalyzer extends ExerciseAnalyzer {
             breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
             reps: 0,
             repPhase: 'Rest',
-            message: "No Pose",
+            message: t('cues.noPose'),
             isGoodForm: false
         };
     }
@@ -384,14 +397,14 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
         }
 
         // Side/45 View: Hip Hinge / Torso Angle
-        const shoulder = current[12];
-        const hip = current[24];
+        const { shoulder, hip } = this.sideLandmarks(current);
 
         // Calculate angle from vertical
         const torsoAngle = this.calculateAngle(
             { x: hip.x, y: hip.y - 0.2, z: 0, visibility: 1 } as PoseLandmark,
             hip,
-            shoulder
+            shoulder,
+            '2d'
         );
 
         // Squat: Moderate forward lean expected (30-50°)
@@ -412,9 +425,7 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
         if (view !== 'Side') return 100;
 
         // Simple check: toe/heel relationship shouldn't change drastically
-        const knee = current[26];
-        const ankle = current[28];
-        const toe = current[32];
+        const { knee, ankle } = this.sideLandmarks(current);
 
         // Knee should track forward appropriately
         // If knee is drastically behind ankle X-position, movement is inefficient
@@ -423,7 +434,7 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
             // Some forward knee travel is normal and healthy
             // Penalize if knees don't move forward at all (box squat pattern)
             // or if they're excessively forward
-            if (Math.abs(kneeForwardness) > 0.15) return 70;
+            if (Math.abs(kneeForwardness) > this.bodyDistance(0.15)) return 70;
         }
 
         return 100;
@@ -437,9 +448,7 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
         if (view === 'Front') return 100;
 
         // Check for excessive spinal extension (rib flare) or flexion
-        const shoulder = current[12];
-        const hip = current[24];
-        const ear = current[8]; // Right ear
+        const { shoulder, hip, ear } = this.sideLandmarks(current);
 
         // Head-Shoulder-Hip alignment
         const spinalAngle = this.calculateAngle(ear, shoulder, hip);
@@ -483,8 +492,7 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
      * Competition depth: Hip crease below top of knee
      */
     checkDepth(current: PoseLandmark[], view: CameraView): number {
-        const hip = current[24];
-        const knee = current[26];
+        const { hip, knee } = this.sideLandmarks(current);
 
         // Y-coordinate comparison (screen coords: Y increases downward)
         // Hip crease should be at or below knee level
@@ -494,9 +502,9 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
         // Parallel: hip.y ~ knee.y (diff ~ 0)
         // Partial: hip.y < knee.y (diff < 0)
 
-        if (hipKneeDiff >= 0.02) return 100;    // Below parallel (excellent)
-        if (hipKneeDiff >= -0.02) return 90;    // Parallel (good)
-        if (hipKneeDiff >= -0.05) return 70;    // Close to parallel
+        if (hipKneeDiff >= this.bodyDistance(0.02)) return 100;    // Below parallel (excellent)
+        if (hipKneeDiff >= this.bodyDistance(-0.02)) return 90;    // Parallel (good)
+        if (hipKneeDiff >= this.bodyDistance(-0.05)) return 70;    // Close to parallel
         return 50;                               // Partial rep
     }
 
@@ -504,19 +512,17 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
      * Check if weight is balanced over midfoot (Side view)
      */
     private checkMidfootBalance(current: PoseLandmark[]): number {
-        const hip = current[24];
-        const ankle = current[28];
-        const toe = current[32];
-        const heel = current[30];
+        const { hip, ankle, footIndex: toe, heel } = this.sideLandmarks(current);
 
-        // Midfoot is roughly between heel and toe
-        const midfoot = (heel.x + toe.x) / 2;
+        // Midfoot is roughly between heel and toe (ankle is the best proxy without foot keypoints)
+        const hasFoot = isLandmarkAvailable(heel) && isLandmarkAvailable(toe);
+        const midfoot = hasFoot ? (heel.x + toe.x) / 2 : ankle.x;
 
         // Hip should be roughly over midfoot
         const deviation = Math.abs(hip.x - midfoot);
 
-        if (deviation > 0.1) return 60;  // Significant forward/backward lean
-        if (deviation > 0.05) return 80; // Minor imbalance
+        if (deviation > this.bodyDistance(0.1)) return 60;  // Significant forward/backward lean
+        if (deviation > this.bodyDistance(0.05)) return 80; // Minor imbalance
         return 100;
     }
 
@@ -534,8 +540,8 @@ class SquatBiomechanics extends BiomechanicalAnalyzer {
         // Hips should be level
         const hipTilt = Math.abs(leftHip.y - rightHip.y);
 
-        if (shoulderTilt > 0.05 || hipTilt > 0.05) return 70;
-        if (shoulderTilt > 0.03 || hipTilt > 0.03) return 85;
+        if (shoulderTilt > this.bodyDistance(0.05) || hipTilt > this.bodyDistance(0.05)) return 70;
+        if (shoulderTilt > this.bodyDistance(0.03) || hipTilt > this.bodyDistance(0.03)) return 85;
         return 100;
     }
 }
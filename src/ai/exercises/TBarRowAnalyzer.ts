@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class TBarRowAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'T-Bar Row';
@@ -11,62 +15,77 @@ export class TBarRowAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
+        const { shoulder, elbow, wrist } = this.biomechanics.sideLandmarks(landmarks);
 
-        const elbowAngle = this.calculateAngle(landmarks[12], landmarks[14], landmarks[16]);
+        const elbowReading = this.measureAngle(shoulder, elbow, wrist);
+        const elbowAngle = elbowReading.value;
         const normalizedPos = Math.min(1, Math.max(0, (170 - elbowAngle) / 90));
 
         const repState = this.repCounter.update(normalizedPos, timestamp);
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
         if (view === 'Side') {
             // Posture Check (Hip Hinge Angle)
-            if (pillarScores.posture < 50) {
-                messages.push("Bend Over ~45Â°"); // Too upright
-            } else if (pillarScores.posture < 60) {
-                messages.push("Not So Flat"); // Too bent
+            if (pillarScores.posture < this.threshold('tooUpright')) {
+                faultCodes.push('torsoTooUpright'); // Too upright
+            } else if (pillarScores.posture < this.threshold('tooFlat')) {
+                faultCodes.push('torsoTooFlat'); // Too bent
             }
 
             // Bracing Check (Spine & Elbow)
-            if (pillarScores.bracing < 60) {
+            if (pillarScores.bracing < this.threshold('tuckElbows')) {
                 // Differentiate errors based on severity
-                if (pillarScores.bracing < 50) {
-                    messages.push("Straighten Back"); // Rounded spine
+                if (pillarScores.bracing < this.threshold('roundedBack')) {
+                    faultCodes.push('roundedBack'); // Rounded spine
                 } else {
-                    messages.push("Tuck Elbows"); // Duck Row - elbows flared
+                    faultCodes.push('elbowFlare'); // Duck Row - elbows flared
                 }
             }
         } else {
             // Front View
-            if (pillarScores.stability < 70) messages.push("Even Pull");
+            if (pillarScores.stability < this.threshold('evenPull')) faultCodes.push('unevenPull');
         }
 
-        const totalScore = (
-            pillarScores.posture * 0.4 +
-            pillarScores.bracing * 0.3 +
-            pillarScores.rom * 0.3
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { elbow: elbowAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ elbow: elbowReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
@@ -91,8 +110,7 @@ class RowBiomechanics extends BiomechanicalAnalyzer {
     protected calculatePosture(current: PoseLandmark[], view?: CameraView): number {
         if (view === 'Front') return 100;
 
-        const shoulder = current[12];
-        const hip = current[24];
+        const { shoulder, hip } = this.sideLandmarks(current);
 
         // Calculate torso angle from horizontal
         // dx = horizontal distance, dy = vertical distance
@@ -129,16 +147,14 @@ class RowBiomechanics extends BiomechanicalAnalyzer {
 
         // Check 1: Spine Neutrality (Ear-Shoulder-Hip line)
         // Even when bent over, these 3 points should form a straight line.
-        const ear = current[8];
-        const shoulder = current[12];
-        const hip = current[24];
+        const { ear, shoulder, hip, elbow } = this.sideLandmarks(current);
         const spineAngle = this.calculateAngle(ear, shoulder, hip);
 
         if (Math.abs(180 - spineAngle) > 20) return 50; // Rounded back or looking up too much
 
         // Check 2: Elbow Tuck (User cue: "roughly 30â€“45 degrees from your ribs")
-        // Angle between Upper Arm (12-14) and Torso (12-24).
-        const elbowTuck = this.calculateAngle(hip, shoulder, current[14]);
+        // Angle between Upper Arm (shoulder-elbow) and Torso (shoulder-hip).
+        const elbowTuck = this.calculateAngle(hip, shoulder, elbow, '3d'); // Elbows flare out towards the camera
 
         // Target: 30-45.
         // If > 60 -> "Tuck Elbows" (Flare / Duck Row).
@@ -1,6 +1,10 @@
 ﻿import { ExerciseAnalyzer, Feedback, PoseLandmark } from '../ExerciseAnalyzer';
 import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
 import { RepCounter, RepPhase } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, formFaults, faultMessage, describeFaults } from '../faults/FormFault';
+import { averageAngles, jointAngleValues } from '../analysis/JointAngles';
+import { t, phaseLabel } from '../../i18n/Messages';
 
 export class TricepDipsAnalyzer extends ExerciseAnalyzer {
     exerciseName = 'Tricep Dips';
@@ -17,11 +21,11 @@ export class TricepDipsAnalyzer extends ExerciseAnalyzer {
         if (landmarks.length < 33) return this.emptyFeedback();
 
         const view = this.biomechanics.detectView(landmarks);
+        this.biomechanics.resolveSide(landmarks);
 
         // 1. Joint Angles
-        const leftElbow = this.calculateAngle(landmarks[11], landmarks[13], landmarks[15]);
-        const rightElbow = this.calculateAngle(landmarks[12], landmarks[14], landmarks[16]);
-        const elbowAngle = (leftElbow + rightElbow) / 2; // Average for robustness
+        const elbowReading = averageAngles(this.measureAngle(landmarks[11], landmarks[13], landmarks[15]), this.measureAngle(landmarks[12], landmarks[14], landmarks[16]));
+        const elbowAngle = elbowReading.value; // Average for robustness
 
         // 2. Normalization
         // Start: 180 (Lockout) -> 0.0
@@ -33,7 +37,7 @@ export class TricepDipsAnalyzer extends ExerciseAnalyzer {
         const pillarScores = this.biomechanics.analyzePillars(landmarks, repState.phase, view);
 
         // 4. Feedback Generation
-        let messages: string[] = [];
+        const faultCodes: FaultCode[] = [];
 
         // Depth feedback
         if (repState.phase === 'Bottom' || repState.phase === 'Eccentric') {
@@ -41,40 +45,52 @@ export class TricepDipsAnalyzer extends ExerciseAnalyzer {
         }
 
         // "Go Deeper" if at turnaround but > 100 deg
-        if (repState.phase === 'Bottom' && elbowAngle > 100) {
-            messages.push("Go Deeper");
+        if (repState.phase === 'Bottom' && elbowAngle > this.threshold('goDeeper')) {
+            faultCodes.push('shallowDip');
         }
 
-        if (pillarScores.posture < 70) messages.push("Torso Upright");
-        if (pillarScores.stability < 70) messages.push("Shoulders Down"); // Anti-Shrug
-        if (pillarScores.efficiency < 70) messages.push("Elbows In");
+        if (pillarScores.posture < this.threshold('torsoUpright')) faultCodes.push('torsoLean');
+        if (pillarScores.stability < this.threshold('shouldersDown')) faultCodes.push('shoulderShrug'); // Anti-Shrug
+        if (pillarScores.efficiency < this.threshold('elbowsIn')) faultCodes.push('elbowFlare');
 
-        const totalScore = (
-            pillarScores.rom * 0.4 +
-            pillarScores.posture * 0.3 +
-            pillarScores.stability * 0.3
-        );
+        const totalScore = this.weightedScore(pillarScores);
+        const faults = formFaults(faultCodes, { repPhase: repState.phase, timestamp, repIndex: this.repCounter.getRepIndex() });
 
-        return {
+        const feedback: Feedback = {
             score: totalScore,
             breakdown: pillarScores,
             reps: repState.count,
             repPhase: repState.phase,
-            message: messages.length > 0 ? messages[0] : repState.phase,
-            correction: messages.join(', '),
-            isGoodForm: totalScore > 80,
-            jointAngles: { elbow: elbowAngle }
+            message: faults.length > 0 ? faultMessage(faults[0]) : phaseLabel(repState.phase),
+            correction: describeFaults(faults),
+            faults,
+            isGoodForm: this.isGoodScore(totalScore),
+            jointAngles: jointAngleValues({ elbow: elbowReading })
         };
+        this.repCounter.observe(feedback);
+        return feedback;
     }
 
     private emptyFeedback(): Feedback {
-        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: "No Pose", isGoodForm: false };
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
     }
 
     getRepTimestamps() {
         return this.repCounter.getRepTimestamps();
     }
 
+    getRepRecords() {
+        return this.repCounter.getRepRecords();
+    }
+
+    getRepAttempts() {
+        return this.repCounter.getAttempts();
+    }
+
+    setRomCalibrator(calibrator: RomCalibrator | null) {
+        this.repCounter.setCalibrator(calibrator);
+    }
+
     setRecordingStartTime(timestamp: number): void {
         this.repCounter.setRecordingStartTime(timestamp);
     }
@@ -98,14 +114,12 @@ class DipsBiomechanics extends BiomechanicalAnalyzer {
     private checkShoulderDepression(current: PoseLandmark[]): number {
         // Compare Ear (7/8) to Shoulder (11/12) distance relative to Torso length
         // Low distance = Shrugged
-        const leftEar = current[7];
-        const leftShoulder = current[11];
-        const leftHip = current[23];
+        const { ear, shoulder, hip } = this.sideLandmarks(current);
 
-        if (!leftEar || !leftShoulder || !leftHip) return 100;
+        if (!ear || !shoulder || !hip) return 100;
 
-        const torsoLen = Math.abs(leftShoulder.y - leftHip.y);
-        const neckLen = Math.abs(leftEar.y - leftShoulder.y);
+        const torsoLen = Math.abs(shoulder.y - hip.y);
+        const neckLen = Math.abs(ear.y - shoulder.y);
 
         // Heuristic: Neck length > 15% of torso
         if (neckLen < torsoLen * 0.15) return 60; // Shrugged
@@ -116,12 +130,11 @@ class DipsBiomechanics extends BiomechanicalAnalyzer {
     calculatePosture(current: PoseLandmark[], view?: CameraView): number {
         if (view === 'Front') return 100;
 
-        const shoulder = current[11];
-        const hip = current[23];
+        const { shoulder, hip } = this.sideLandmarks(current);
         if (!shoulder || !hip) return 100;
 
         // Vertical check
-        const angle = this.calculateAngle({ x: hip.x, y: hip.y - 100, z: 0, visibility: 1 } as any, hip, shoulder);
+        const angle = this.calculateAngle({ x: hip.x, y: hip.y - 100, z: 0, visibility: 1 } as any, hip, shoulder, '2d');
 
         if (Math.abs(angle) > 45) return 60; // Allow 45 deg lean (was 30)
         return 100;
@@ -131,12 +144,10 @@ class DipsBiomechanics extends BiomechanicalAnalyzer {
     calculateEfficiency(current: PoseLandmark[], phase: RepPhase, view?: CameraView): number {
         if (view === 'Side') return 100;
 
-        const shoulder = current[11];
-        const elbow = current[13];
-        const hip = current[23];
+        const { shoulder, elbow, hip } = this.sideLandmarks(current);
         if (!shoulder || !elbow || !hip) return 100;
 
-        const angle = this.calculateAngle(elbow, shoulder, hip);
+        const angle = this.calculateAngle(elbow, shoulder, hip, '3d'); // Flare is depth from the side
         if (angle > 45) return 60;
         return 100;
     }
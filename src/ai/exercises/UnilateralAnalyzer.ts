@@ -0,0 +1,183 @@
+import { ExerciseAnalyzer, Feedback, PoseLandmark, ScoreBreakdown, SideFeedback } from '../ExerciseAnalyzer';
+import { CameraView } from '../analysis/BiomechanicalAnalyzer';
+import { BodySide, sideVisibility } from '../analysis/BodySide';
+import { RepCounter, RepPhase, RepTimestamp, RepRecord, RepAttempt } from '../reps/RepCounter';
+import { RomCalibrator } from '../reps/RomCalibration';
+import { FaultCode, FormFault, formFaults, faultMessage } from '../faults/FormFault';
+import { t, phaseLabel } from '../../i18n/Messages';
+
+/**
+ * UnilateralAnalyzer - One RepCounter per side
+ *
+ * Bilateral analyzers average both sides (or follow the camera-facing one) into
+ * a single position signal, so alternating curls or single-arm rows count one
+ * arm's reps at best. Here each side has its own position signal, rep counter,
+ * pillar scores and rep records; total reps are the sum of both sides.
+ *
+ * ROM calibration is per side too (see setSideRomCalibrators).
+ *
+ * A side is only tracked while it is visible: from a side view the far arm is
+ * guessed by MediaPipe and would count phantom reps.
+ */
+export interface SideSummary {
+    reps: number;
+    averageScore: number; // Mean rep score
+    averageRange: number; // Mean rep range (0-1 position covered)
+}
+
+export interface UnilateralSummary {
+    left: SideSummary;
+    right: SideSummary;
+    // Difference between the sides as a % of the stronger one (0 = symmetric)
+    asymmetry: { reps: number; range: number; score: number };
+}
+
+export interface SideAnalysis {
+    breakdown: ScoreBreakdown; // total = the side's score
+    faultCodes: FaultCode[];
+    jointAngles: Record<string, number>;
+}
+
+const SIDES: BodySide[] = ['left', 'right'];
+const SIDE_LABEL: Record<BodySide, string> = { left: 'L', right: 'R' };
+
+// Below this mean joint visibility a side is occluded (not tracked this frame)
+const MIN_SIDE_VISIBILITY = 0.5;
+
+export abstract class UnilateralAnalyzer extends ExerciseAnalyzer {
+    private counters: Record<BodySide, RepCounter>;
+    private positions: Record<BodySide, number> = { left: 0, right: 0 };
+
+    constructor(createCounter: () => RepCounter) {
+        super();
+        this.counters = { left: createCounter(), right: createCounter() };
+    }
+
+    protected abstract detectView(landmarks: PoseLandmark[]): CameraView;
+
+    // Per-frame state shared by both sides (called before either side is read)
+    protected prepareFrame(landmarks: PoseLandmark[]): void { }
+
+    // 0-1 position of one side (0 = start of the rep, 1 = full range)
+    protected abstract sidePosition(landmarks: PoseLandmark[], side: BodySide): number;
+
+    // Pillar scores and cues for one side
+    protected abstract analyzeSide(landmarks: PoseLandmark[], side: BodySide, phase: RepPhase, view: CameraView): SideAnalysis;
+
+    analyze(landmarks: PoseLandmark[], timestamp?: number): Feedback {
+        if (landmarks.length < 33) return this.emptyFeedback();
+
+        const view = this.detectView(landmarks);
+        this.prepareFrame(landmarks);
+        const sides = {} as Record<BodySide, SideFeedback>;
+        const analyses = {} as Record<BodySide, SideAnalysis>;
+        const faults = {} as Record<BodySide, FormFault[]>;
+
+        SIDES.forEach(side => {
+            const counter = this.counters[side];
+            if (sideVisibility(landmarks, side) >= MIN_SIDE_VISIBILITY) {
+                this.positions[side] = this.sidePosition(landmarks, side);
+                counter.update(this.positions[side], timestamp);
+            }
+
+            const analysis = this.analyzeSide(landmarks, side, counter.getPhase(), view);
+            analyses[side] = analysis;
+            faults[side] = formFaults(analysis.faultCodes, { repPhase: counter.getPhase(), timestamp, repIndex: counter.getRepIndex(), side });
+            sides[side] = { reps: counter.getCount(), repPhase: counter.getPhase(), score: analysis.breakdown.total };
+
+            counter.observe({
+                score: analysis.breakdown.total,
+                breakdown: analysis.breakdown,
+                reps: counter.getCount(),
+                repPhase: counter.getPhase(),
+                message: faults[side].length > 0 ? faultMessage(faults[side][0]) : phaseLabel(counter.getPhase()),
+                faults: faults[side],
+                isGoodForm: this.isGoodScore(analysis.breakdown.total),
+                jointAngles: analysis.jointAngles
+            });
+        });
+
+        // The working side (furthest into its rep) drives the headline score and cue
+        const active: BodySide = this.positions.left > this.positions.right ? 'left' : 'right';
+        const { breakdown } = analyses[active];
+        const cues = faults[active].map(fault => `${faultMessage(fault)} (${phaseLabel(SIDE_LABEL[active])})`);
+
+        const jointAngles: Record<string, number> = {};
+        SIDES.forEach(side => Object.entries(analyses[side].jointAngles).forEach(([joint, angle]) => {
+            jointAngles[side + joint.charAt(0).toUpperCase() + joint.slice(1)] = angle;
+        }));
+
+        return {
+            score: breakdown.total,
+            breakdown,
+            reps: sides.left.reps + sides.right.reps,
+            repPhase: `${SIDE_LABEL[active]} ${sides[active].repPhase}`,
+            message: cues.length > 0 ? cues[0] : phaseLabel(sides[active].repPhase),
+            correction: cues.join(', '),
+            faults: faults[active],
+            isGoodForm: this.isGoodScore(breakdown.total),
+            jointAngles,
+            sides,
+            asymmetry: this.getSideSummary().asymmetry.range
+        };
+    }
+
+    getSideSummary(): UnilateralSummary {
+        const left = summarizeSide(this.counters.left.getRepRecords());
+        const right = summarizeSide(this.counters.right.getRepRecords());
+        return {
+            left,
+            right,
+            asymmetry: {
+                reps: percentDifference(left.reps, right.reps),
+                range: percentDifference(left.averageRange, right.averageRange),
+                score: percentDifference(left.averageScore, right.averageScore)
+            }
+        };
+    }
+
+    // Both sides, in time order
+    getRepTimestamps(): RepTimestamp[] {
+        return byStart(SIDES.flatMap(side => this.counters[side].getRepTimestamps()));
+    }
+
+    getRepRecords(): RepRecord[] {
+        return byStart(SIDES.flatMap(side => this.counters[side].getRepRecords().map(record => ({ ...record, side }))));
+    }
+
+    getRepAttempts(): RepAttempt[] {
+        return byStart(SIDES.flatMap(side => this.counters[side].getAttempts()));
+    }
+
+    // One calibrator per side: a calibrator learns a single position signal and the sides would interleave.
+    // Each side is rescaled to its own range, so the range asymmetry compares each side with its usual range.
+    setSideRomCalibrators(calibrators: Record<BodySide, RomCalibrator | null>) {
+        SIDES.forEach(side => this.counters[side].setCalibrator(calibrators[side]));
+    }
+
+    setRecordingStartTime(timestamp: number): void {
+        SIDES.forEach(side => this.counters[side].setRecordingStartTime(timestamp));
+    }
+
+    private emptyFeedback(): Feedback {
+        return { score: 0, breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 }, reps: 0, repPhase: 'Rest', message: t('cues.noPose'), isGoodForm: false };
+    }
+}
+
+function summarizeSide(records: RepRecord[]): SideSummary {
+    const n = Math.max(1, records.length);
+    return {
+        reps: records.length,
+        averageScore: Math.round(records.reduce((sum, r) => sum + r.score, 0) / n),
+        averageRange: records.reduce((sum, r) => sum + (r.maxPosition - r.minPosition), 0) / n
+    };
+}
+
+function percentDifference(a: number, b: number): number {
+    const high = Math.max(a, b);
+    return high > 0 ? Math.round(100 * Math.abs(a - b) / high) : 0;
+}
+
+function byStart<T extends { start: number }>(items: T[]): T[] {
+    return items.sort((a, b) => a.start - b.start);
+}
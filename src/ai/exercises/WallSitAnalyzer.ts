@@ -0,0 +1,49 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { IsometricHoldAnalyzer, HoldCheck } from './IsometricHoldAnalyzer';
+import { FaultCode } from '../faults/FormFault';
+import { jointAngleValues } from '../analysis/JointAngles';
+
+export class WallSitAnalyzer extends IsometricHoldAnalyzer {
+    exerciseName = 'Wall Sit';
+
+    constructor() {
+        super(45);
+    }
+
+    protected checkPosition(landmarks: PoseLandmark[]): HoldCheck {
+        // Filmed from the side
+        const { shoulder, hip, knee, ankle } = this.facingSide(landmarks);
+
+        const kneeReading = this.measureAngle(hip, knee, ankle);
+        const kneeAngle = kneeReading.value;
+        const hipReading = this.measureAngle(shoulder, hip, knee);
+        const hipAngle = hipReading.value;
+
+        const torso = Math.hypot(shoulder.x - hip.x, shoulder.y - hip.y);
+        const lean = torso > 0 ? Math.abs(shoulder.x - hip.x) / torso : 0;
+
+        // Knee angle range that counts as sitting (thighs about parallel = 90)
+        const maxKnee = this.threshold('sitLower');
+        const minKnee = this.threshold('tooLow');
+        // Torso lean (shoulder ahead of hip, in torso lengths) where the back leaves the wall
+        const maxLean = this.threshold('backToWall');
+
+        const faultCodes: FaultCode[] = [];
+        if (kneeAngle > maxKnee) faultCodes.push('sitTooHigh');
+        if (kneeAngle < minKnee) faultCodes.push('sitTooLow');
+        if (lean > maxLean) faultCodes.push('backOffWall');
+
+        // Knees stacked over the ankles (shins vertical)
+        const shin = Math.hypot(knee.x - ankle.x, knee.y - ankle.y);
+        const shinTilt = shin > 0 ? Math.abs(knee.x - ankle.x) / shin : 0;
+        if (shinTilt > this.threshold('kneesOverAnkles')) faultCodes.push('kneePastAnkle');
+
+        return {
+            inPosition: kneeAngle >= minKnee && kneeAngle <= maxKnee,
+            posture: Math.max(0, 100 * (1 - Math.abs(90 - kneeAngle) / 45)),
+            bracing: Math.max(0, 100 * (1 - lean / (maxLean * 2))),
+            faultCodes,
+            jointAngles: jointAngleValues({ knee: kneeReading, hip: hipReading })
+        };
+    }
+}
@@ -0,0 +1,210 @@
+import { BodySide } from '../analysis/BodySide';
+import { t } from '../../i18n/Messages';
+
+/**
+ * Form Faults - Typed form errors instead of free-text cues
+ *
+ * Analyzers report fault codes; everything else (the cue shown to the user,
+ * severity, the joints involved) comes from the catalog below. A FormFault is
+ * one code seen on one frame, with where in the set it happened. Faults are
+ * aggregated per rep by RepCounter (RepRecord.faults) and per exercise block
+ * by SessionSegmenter (FaultSummary), e.g. "Knee valgus on 6 of 10 reps".
+ * The text for each code is in the message catalogs (faults.<code>.name and
+ * faults.<code>.message, see i18n/locales).
+ */
+export type FaultCode =
+    // Lower body
+    | 'heelLift' | 'kneeValgus' | 'shallowSquat' | 'incompleteLockout' | 'buttWink' | 'goodMorning'
+    | 'kneePastAnkle' | 'incompleteLegExtension' | 'hipsLifting' | 'legSwing' | 'lowLegRaise' | 'bentLegs'
+    // Torso
+    | 'forwardLean' | 'hipSag' | 'hipsHigh' | 'bodyMisaligned' | 'roundedBack' | 'torsoTooUpright' | 'torsoTooFlat'
+    | 'torsoLean' | 'excessiveLean' | 'torsoSwing' | 'kipping' | 'noHinge' | 'trunkRotation' | 'swaying'
+    // Upper body
+    | 'elbowFlare' | 'elbowDrift' | 'unevenGrip' | 'barPath' | 'highTouch' | 'shallowPushUp' | 'shallowDip'
+    | 'pressingFly' | 'armImbalance' | 'unevenPull' | 'shortPull' | 'noFullHang' | 'noFullStretch' | 'shortRow'
+    | 'incompleteArmExtension' | 'unevenArms' | 'wristsLeading' | 'offScapPlane' | 'shoulderShrug'
+    | 'shouldersLifting' | 'bentArms' | 'shouldersNotStacked'
+    // Hold setup (the user isn't in position yet)
+    | 'notOnSide' | 'notOnBack' | 'notHanging' | 'sitTooHigh' | 'sitTooLow' | 'backOffWall' | 'shouldersDown' | 'legsDown' | 'legsTooHigh';
+
+// major: injury risk or the rep doesn't do its job; minor: refinement
+export type FaultSeverity = 'minor' | 'moderate' | 'major';
+
+export type Joint = 'ankle' | 'knee' | 'hip' | 'spine' | 'shoulder' | 'elbow' | 'wrist';
+
+export interface FaultInfo {
+    severity: FaultSeverity;
+    joints: Joint[];
+}
+
+export interface FormFault {
+    code: FaultCode;
+    severity: FaultSeverity;
+    joints: Joint[];
+    repPhase: string;
+    timestamp: number;       // Frame timestamp (ms, the clock passed to analyze())
+    repIndex: number | null; // 1-based rep in progress (null between reps and for holds)
+    side?: BodySide;         // Unilateral exercises: the side at fault
+}
+
+export const FAULTS: Record<FaultCode, FaultInfo> = {
+    heelLift: { severity: 'moderate', joints: ['ankle'] },
+    kneeValgus: { severity: 'major', joints: ['knee'] },
+    shallowSquat: { severity: 'moderate', joints: ['hip', 'knee'] },
+    incompleteLockout: { severity: 'minor', joints: ['hip', 'knee'] },
+    buttWink: { severity: 'major', joints: ['spine', 'hip'] },
+    goodMorning: { severity: 'major', joints: ['hip', 'spine'] },
+    kneePastAnkle: { severity: 'moderate', joints: ['knee', 'ankle'] },
+    incompleteLegExtension: { severity: 'moderate', joints: ['knee'] },
+    hipsLifting: { severity: 'moderate', joints: ['hip'] },
+    legSwing: { severity: 'moderate', joints: ['hip'] },
+    lowLegRaise: { severity: 'moderate', joints: ['hip'] },
+    bentLegs: { severity: 'minor', joints: ['knee'] },
+
+    forwardLean: { severity: 'moderate', joints: ['spine', 'hip'] },
+    hipSag: { severity: 'major', joints: ['hip', 'spine'] },
+    hipsHigh: { severity: 'moderate', joints: ['hip'] },
+    bodyMisaligned: { severity: 'moderate', joints: ['hip', 'spine'] },
+    roundedBack: { severity: 'major', joints: ['spine'] },
+    torsoTooUpright: { severity: 'moderate', joints: ['hip', 'spine'] },
+    torsoTooFlat: { severity: 'minor', joints: ['hip', 'spine'] },
+    torsoLean: { severity: 'minor', joints: ['spine'] },
+    excessiveLean: { severity: 'moderate', joints: ['spine', 'hip'] },
+    torsoSwing: { severity: 'moderate', joints: ['spine', 'hip'] },
+    kipping: { severity: 'moderate', joints: ['hip'] },
+    noHinge: { severity: 'moderate', joints: ['hip', 'spine'] },
+    trunkRotation: { severity: 'moderate', joints: ['shoulder', 'spine'] },
+    swaying: { severity: 'minor', joints: ['hip'] },
+
+    elbowFlare: { severity: 'moderate', joints: ['elbow', 'shoulder'] },
+    elbowDrift: { severity: 'moderate', joints: ['elbow', 'shoulder'] },
+    unevenGrip: { severity: 'minor', joints: ['wrist'] },
+    barPath: { severity: 'moderate', joints: ['wrist', 'shoulder'] },
+    highTouch: { severity: 'minor', joints: ['wrist', 'shoulder'] },
+    shallowPushUp: { severity: 'moderate', joints: ['elbow', 'shoulder'] },
+    shallowDip: { severity: 'moderate', joints: ['elbow', 'shoulder'] },
+    pressingFly: { severity: 'moderate', joints: ['elbow'] },
+    armImbalance: { severity: 'minor', joints: ['shoulder'] },
+    unevenPull: { severity: 'minor', joints: ['shoulder', 'elbow'] },
+    shortPull: { severity: 'moderate', joints: ['elbow', 'shoulder'] },
+    noFullHang: { severity: 'minor', joints: ['elbow'] },
+    noFullStretch: { severity: 'minor', joints: ['elbow', 'shoulder'] },
+    shortRow: { severity: 'minor', joints: ['elbow'] },
+    incompleteArmExtension: { severity: 'minor', joints: ['elbow'] },
+    unevenArms: { severity: 'minor', joints: ['shoulder'] },
+    wristsLeading: { severity: 'minor', joints: ['elbow', 'wrist'] },
+    offScapPlane: { severity: 'minor', joints: ['shoulder'] },
+    shoulderShrug: { severity: 'major', joints: ['shoulder'] },
+    shouldersLifting: { severity: 'minor', joints: ['shoulder'] },
+    bentArms: { severity: 'major', joints: ['elbow'] },
+    shouldersNotStacked: { severity: 'minor', joints: ['shoulder'] },
+
+    notOnSide: { severity: 'major', joints: [] },
+    notOnBack: { severity: 'major', joints: [] },
+    notHanging: { severity: 'major', joints: [] },
+    sitTooHigh: { severity: 'moderate', joints: ['knee', 'hip'] },
+    sitTooLow: { severity: 'moderate', joints: ['knee'] },
+    backOffWall: { severity: 'moderate', joints: ['spine'] },
+    shouldersDown: { severity: 'moderate', joints: ['shoulder', 'spine'] },
+    legsDown: { severity: 'moderate', joints: ['hip'] },
+    legsTooHigh: { severity: 'minor', joints: ['hip'] }
+};
+
+const SEVERITY_RANK: Record<FaultSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+/**
+ * One frame's faults, most severe first (ties keep the analyzer's order).
+ */
+export function formFaults(
+    codes: FaultCode[],
+    context: { repPhase: string; timestamp?: number; repIndex: number | null; side?: BodySide }
+): FormFault[] {
+    const timestamp = context.timestamp ?? Date.now();
+    return codes
+        .filter((code, index) => codes.indexOf(code) === index)
+        .map(code => ({
+            code,
+            severity: FAULTS[code].severity,
+            joints: FAULTS[code].joints,
+            repPhase: context.repPhase,
+            timestamp,
+            repIndex: context.repIndex,
+            ...(context.side ? { side: context.side } : {})
+        }))
+        .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+}
+
+// The live cue ("Knees Out!")
+export function faultMessage(fault: FormFault | FaultCode): string {
+    return t(`faults.${typeof fault === 'string' ? fault : fault.code}.message`);
+}
+
+// What went wrong, for summaries ("Knee valgus")
+export function faultName(code: FaultCode): string {
+    return t(`faults.${code}.name`);
+}
+
+// All cues of a frame, for Feedback.correction
+export function describeFaults(faults: FormFault[]): string {
+    return faults.map(faultMessage).join(', ');
+}
+
+// --- Aggregation ---
+
+export interface FaultStat {
+    code: FaultCode;
+    severity: FaultSeverity;
+    reps: number;   // Completed reps the fault showed up in
+    frames: number; // Frames it was reported on
+}
+
+export interface FaultSummary {
+    reps: number;       // Completed reps considered
+    frames: number;     // Frames considered
+    faults: FaultStat[]; // Most widespread first
+}
+
+export const NO_FAULTS: FaultSummary = { reps: 0, frames: 0, faults: [] };
+
+/**
+ * Per-block summary from the faults of each completed rep (RepRecord.faults)
+ * and how many frames reported each code.
+ */
+export function summarizeFaults(repFaults: FaultCode[][], frameCounts: Partial<Record<FaultCode, number>>, frames: number): FaultSummary {
+    const stats: Partial<Record<FaultCode, FaultStat>> = {};
+    const stat = (code: FaultCode): FaultStat =>
+        stats[code] || (stats[code] = { code, severity: FAULTS[code].severity, reps: 0, frames: 0 });
+
+    repFaults.forEach(codes => codes.forEach(code => stat(code).reps++));
+    (Object.entries(frameCounts) as [FaultCode, number][]).forEach(([code, count]) => {
+        stat(code).frames += count;
+    });
+
+    return { reps: repFaults.length, frames, faults: sortStats(Object.values(stats) as FaultStat[]) };
+}
+
+// Whole session from its blocks
+export function mergeFaultSummaries(summaries: FaultSummary[]): FaultSummary {
+    const stats: Partial<Record<FaultCode, FaultStat>> = {};
+    summaries.forEach(summary => summary.faults.forEach(s => {
+        const merged = stats[s.code];
+        stats[s.code] = merged ? { ...merged, reps: merged.reps + s.reps, frames: merged.frames + s.frames } : { ...s };
+    }));
+    return {
+        reps: summaries.reduce((total, s) => total + s.reps, 0),
+        frames: summaries.reduce((total, s) => total + s.frames, 0),
+        faults: sortStats(Object.values(stats) as FaultStat[])
+    };
+}
+
+// "Knee valgus on 6 of 10 reps" (share of the set's frames when there are no reps, e.g. holds)
+export function formatFaultStat(stat: FaultStat, summary: FaultSummary): string {
+    const name = faultName(stat.code);
+    if (summary.reps > 0) return t('summary.faultOnReps', { name, count: stat.reps, total: summary.reps });
+    return t('summary.faultShare', { name, percent: Math.round(100 * stat.frames / Math.max(1, summary.frames)) });
+}
+
+function sortStats(stats: FaultStat[]): FaultStat[] {
+    return stats.sort((a, b) =>
+        b.reps - a.reps || SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.frames - a.frames);
+}
@@ -0,0 +1,139 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+
+/**
+ * LandmarkSmoother - Temporal jitter filter between pose detection and analysis
+ *
+ * Applies a One-Euro filter (Casiez et al., 2012) to x/y/z of every landmark,
+ * and to its world point when there is one (3D angles read those directly).
+ * - Slow movement: low cutoff -> heavy smoothing (kills jitter while holding a position)
+ * - Fast movement: cutoff rises with speed -> low lag during the rep
+ *
+ * Low-visibility landmarks are noisier, so their cutoff is scaled down
+ * (smoothed harder) by `visibilityWeight`.
+ *
+ * Timestamps are in milliseconds and must come from the frame (not Date.now())
+ * so uploaded-video analysis is filtered the same way as live camera frames.
+ */
+export interface SmoothingOptions {
+    enabled: boolean;
+    minCutoff: number;        // Hz - cutoff at zero speed (lower = smoother)
+    beta: number;             // Speed coefficient (higher = less lag on fast moves)
+    derivativeCutoff: number; // Hz - cutoff for the speed estimate
+    visibilityWeight: number; // 0 = ignore visibility, 1 = cutoff scales fully with visibility
+    resetGapMs: number;       // Restart filtering after a gap (pose lost, seek)
+}
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = {
+    enabled: true,
+    minCutoff: 1.5,
+    beta: 0.5,
+    derivativeCutoff: 1.0,
+    visibilityWeight: 0.5,
+    resetGapMs: 1000
+};
+
+class LowPassFilter {
+    private value: number | null = null;
+
+    filter(x: number, alpha: number): number {
+        this.value = this.value === null ? x : alpha * x + (1 - alpha) * this.value;
+        return this.value;
+    }
+
+    last(): number | null {
+        return this.value;
+    }
+
+    reset() {
+        this.value = null;
+    }
+}
+
+class OneEuroFilter {
+    private valueFilter = new LowPassFilter();
+    private derivativeFilter = new LowPassFilter();
+
+    filter(x: number, dt: number, cutoffScale: number, options: SmoothingOptions): number {
+        const previous = this.valueFilter.last();
+        if (previous === null || dt <= 0) {
+            this.derivativeFilter.filter(0, 1);
+            return this.valueFilter.filter(x, 1);
+        }
+
+        const dx = (x - previous) / dt;
+        const edx = this.derivativeFilter.filter(dx, smoothingFactor(dt, options.derivativeCutoff));
+
+        const cutoff = (options.minCutoff + options.beta * Math.abs(edx)) * cutoffScale;
+        return this.valueFilter.filter(x, smoothingFactor(dt, cutoff));
+    }
+
+    reset() {
+        this.valueFilter.reset();
+        this.derivativeFilter.reset();
+    }
+}
+
+export class LandmarkSmoother {
+    private options: SmoothingOptions;
+    private filters: { x: OneEuroFilter; y: OneEuroFilter; z: OneEuroFilter; world: Record<'x' | 'y' | 'z', OneEuroFilter> }[] = [];
+    private lastTimestamp: number | null = null;
+
+    constructor(options: Partial<SmoothingOptions> = {}) {
+        this.options = { ...DEFAULT_SMOOTHING, ...options };
+    }
+
+    setOptions(options: Partial<SmoothingOptions>) {
+        this.options = { ...this.options, ...options };
+    }
+
+    smooth(landmarks: PoseLandmark[], timestamp: number): PoseLandmark[] {
+        if (!this.options.enabled || !landmarks || landmarks.length === 0) return landmarks;
+
+        if (this.lastTimestamp !== null && (timestamp < this.lastTimestamp || timestamp - this.lastTimestamp > this.options.resetGapMs)) {
+            this.reset();
+        }
+
+        const dt = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+        this.lastTimestamp = timestamp;
+
+        return landmarks.map((lm, i) => {
+            if (!this.filters[i]) {
+                this.filters[i] = {
+                    x: new OneEuroFilter(), y: new OneEuroFilter(), z: new OneEuroFilter(),
+                    world: { x: new OneEuroFilter(), y: new OneEuroFilter(), z: new OneEuroFilter() }
+                };
+            }
+            const f = this.filters[i];
+
+            // Visibility 1.0 -> full cutoff, visibility 0 -> (1 - weight) of cutoff
+            const visibility = Math.min(1, Math.max(0, lm.visibility ?? 1));
+            const cutoffScale = Math.max(0.1, 1 - this.options.visibilityWeight * (1 - visibility));
+
+            const smoothed: PoseLandmark = {
+                ...lm,
+                x: f.x.filter(lm.x, dt, cutoffScale, this.options),
+                y: f.y.filter(lm.y, dt, cutoffScale, this.options),
+                z: f.z.filter(lm.z ?? 0, dt, cutoffScale, this.options)
+            };
+            if (lm.world) {
+                smoothed.world = {
+                    x: f.world.x.filter(lm.world.x, dt, cutoffScale, this.options),
+                    y: f.world.y.filter(lm.world.y, dt, cutoffScale, this.options),
+                    z: f.world.z.filter(lm.world.z, dt, cutoffScale, this.options)
+                };
+            }
+            return smoothed;
+        });
+    }
+
+    reset() {
+        this.filters = [];
+        this.lastTimestamp = null;
+    }
+}
+
+// Exponential smoothing factor for a given sample period (s) and cutoff (Hz)
+function smoothingFactor(dt: number, cutoff: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+}
@@ -0,0 +1,196 @@
+import { FaultCode } from '../faults/FormFault';
+
+/**
+ * Hold Timer - Time under tension for isometric holds (Plank, Wall Sit, ...)
+ *
+ * Driven by frame timestamps, not the wall clock: uploaded videos are analyzed
+ * much faster than real time, so Date.now() deltas would measure processing
+ * speed instead of the hold.
+ *
+ * States:
+ *   Setup       -> never held yet (getting into position)
+ *   Stabilizing -> in position, settling before the clock starts (again)
+ *   Holding     -> clock running
+ *   Break       -> out of position after holding; the clock is paused
+ *
+ * Dropping out of position for less than BREAK_GRACE_MS is treated as pose
+ * jitter: the hold carries on and the time counts. Longer drops are breaks;
+ * the clock resumes (after settling again) when the position is recovered.
+ *
+ * Break times are in ms relative to the recording start, like RepTimestamp.
+ */
+export type HoldState = 'Setup' | 'Stabilizing' | 'Holding' | 'Break';
+
+export interface HoldBreak {
+    start: number;       // ms, when the position was lost
+    end: number | null;  // ms, when the clock resumed (null while still on break)
+    reason: FaultCode | null; // The fault that broke the hold, e.g. 'hipSag'
+}
+
+export interface HoldSummary {
+    seconds: number;          // Time held (excluding breaks)
+    longest: number;          // Longest unbroken stretch, s
+    target: number | null;    // Target duration, s
+    targetReached: boolean;
+    breaks: HoldBreak[];
+    breakSeconds: number;     // Time spent on break (finished breaks and the open one)
+    quality: number;          // 0-100, time-weighted form score while holding minus a penalty per break
+}
+
+// In position this long before the clock (re)starts
+const SETTLE_MS = 500;
+// Shorter drops out of position are jitter, not breaks
+const BREAK_GRACE_MS = 500;
+// Frame gaps beyond this (pose lost, video seek) don't count as held time
+const MAX_FRAME_GAP_MS = 1000;
+// Quality points lost per break
+const BREAK_PENALTY = 5;
+
+export class HoldTimer {
+    private state: HoldState = 'Setup';
+    private target: number | null;
+    private recordingStartTime = 0;
+    private lastTime: number | null = null;
+
+    private heldMs = 0;
+    private runMs = 0;       // Current unbroken stretch
+    private longestMs = 0;
+    private settleMs = 0;
+    private graceMs = 0;     // Time out of position that may still be forgiven
+    private lostAt: number | null = null;
+    private lostReason: FaultCode | null = null;
+    private breaks: HoldBreak[] = [];
+    private weightedScore = 0; // Sum of score * ms while holding
+    private scoredMs = 0;
+    private targetReached = false;
+
+    constructor(target: number | null = null) {
+        this.target = target;
+    }
+
+    setTarget(seconds: number | null) {
+        this.target = seconds;
+        this.targetReached = seconds !== null && this.heldMs >= seconds * 1000;
+    }
+
+    getTarget(): number | null {
+        return this.target;
+    }
+
+    setRecordingStartTime(time: number) {
+        this.recordingStartTime = time;
+    }
+
+    /**
+     * Auto-Detect locks a hold only after watching it for a while; that time
+     * belongs to the hold.
+     */
+    preload(seconds: number) {
+        this.heldMs = seconds * 1000;
+        this.runMs = this.heldMs;
+        this.longestMs = Math.max(this.longestMs, this.runMs);
+        this.state = 'Holding';
+        this.setTarget(this.target);
+    }
+
+    /**
+     * One frame. `score` (0-100) is the form score, weighted into quality while holding;
+     * `reason` is the fault recorded if this frame starts a break.
+     */
+    update(inPosition: boolean, score: number, timestamp: number, reason: FaultCode | null = null): HoldState {
+        const dt = this.lastTime === null ? 0 : Math.min(MAX_FRAME_GAP_MS, Math.max(0, timestamp - this.lastTime));
+        this.lastTime = timestamp;
+
+        if (inPosition) {
+            if (this.state === 'Holding') {
+                // Back within the grace period: the drop was jitter, keep the stretch going
+                this.addHeld(this.graceMs + dt, score, dt);
+                this.graceMs = 0;
+                this.lostAt = null;
+            } else {
+                this.settleMs += dt;
+                if (this.settleMs >= SETTLE_MS) {
+                    const open = this.openBreak();
+                    if (open) open.end = timestamp - this.recordingStartTime;
+                    this.state = 'Holding';
+                    this.settleMs = 0;
+                } else {
+                    this.state = 'Stabilizing';
+                }
+            }
+        } else if (this.state === 'Holding') {
+            if (this.lostAt === null) {
+                this.lostAt = timestamp;
+                this.lostReason = reason;
+            }
+            this.graceMs += dt;
+
+            if (timestamp - this.lostAt >= BREAK_GRACE_MS) {
+                this.breaks.push({ start: this.lostAt - this.recordingStartTime, end: null, reason: this.lostReason });
+                this.state = 'Break';
+                this.runMs = 0;
+                this.graceMs = 0;
+                this.lostAt = null;
+            }
+        } else {
+            this.settleMs = 0;
+            if (this.state === 'Stabilizing') this.state = this.heldMs > 0 ? 'Break' : 'Setup';
+        }
+
+        return this.state;
+    }
+
+    getState(): HoldState {
+        return this.state;
+    }
+
+    getSeconds(): number {
+        return this.heldMs / 1000;
+    }
+
+    getSummary(): HoldSummary {
+        const now = this.lastTime !== null ? this.lastTime - this.recordingStartTime : 0;
+        const breakMs = this.breaks.reduce((sum, b) => sum + ((b.end ?? now) - b.start), 0);
+        const meanScore = this.scoredMs > 0 ? this.weightedScore / this.scoredMs : 0;
+
+        return {
+            seconds: this.heldMs / 1000,
+            longest: this.longestMs / 1000,
+            target: this.target,
+            targetReached: this.targetReached,
+            breaks: this.breaks.map(b => ({ ...b })),
+            breakSeconds: breakMs / 1000,
+            quality: Math.round(Math.max(0, Math.min(100, meanScore - BREAK_PENALTY * this.breaks.length)))
+        };
+    }
+
+    reset() {
+        this.state = 'Setup';
+        this.lastTime = null;
+        this.heldMs = 0;
+        this.runMs = 0;
+        this.longestMs = 0;
+        this.settleMs = 0;
+        this.graceMs = 0;
+        this.lostAt = null;
+        this.lostReason = null;
+        this.breaks = [];
+        this.weightedScore = 0;
+        this.scoredMs = 0;
+        this.targetReached = false;
+    }
+
+    private addHeld(ms: number, score: number, scoredMs: number) {
+        this.heldMs += ms;
+        this.runMs += ms;
+        this.longestMs = Math.max(this.longestMs, this.runMs);
+        this.weightedScore += score * scoredMs;
+        this.scoredMs += scoredMs;
+        if (this.target !== null && this.heldMs >= this.target * 1000) this.targetReached = true;
+    }
+
+    private openBreak(): HoldBreak | null {
+        const last = this.breaks[this.breaks.length - 1];
+        return last && last.end === null ? last : null;
+    }
+}
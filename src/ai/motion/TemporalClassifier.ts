@@ -0,0 +1,282 @@
+import { PoseLandmark, ExerciseType, ExerciseCandidate } from '../ExerciseAnalyzer';
+import { classifyExercise } from '../ExerciseClassifier';
+import { adaptToCanonical } from '../skeleton/SkeletonAdapters';
+import { measureAngle } from '../analysis/JointAngles';
+import { BodyScaleEstimator } from '../analysis/BodyScale';
+
+/**
+ * Temporal Classifier - Posture rules + motion over a sliding window
+ *
+ * A single frame can't tell a Plank from the top of a Push Up, or a Bicep Curl
+ * from a Lateral Raise mid-motion - the postures overlap, the movements don't.
+ * This keeps the last WINDOW_MS of frames and extracts a motion signature:
+ * - which tracks (joint angles / body heights) move and by how much
+ * - the dominant mover and how periodic it is (autocorrelation)
+ *
+ * Each exercise has a motion profile (tracks that must move, tracks that must
+ * stay still). The static classifyExercise() confidences, averaged over the
+ * window, decide WHICH exercises are plausible; the motion profile re-ranks them.
+ */
+export type MotionTrack =
+    | 'elbow' | 'shoulder' | 'hip' | 'knee'     // Joint angles (both-side average)
+    | 'shoulderY' | 'hipY' | 'wristY'           // Body heights
+    | 'wristSpread' | 'wristSway';              // Wrist width / wrists vs hips (side to side)
+
+export interface MotionSignature {
+    durationMs: number;
+    frames: number;
+    amplitude: Record<MotionTrack, number>; // Normalized: 1 = a full rep's worth of motion
+    dominant: MotionTrack | null;           // Largest mover (null when everything is still)
+    periodMs: number | null;                // Cycle length of the dominant mover
+    periodicity: number;                    // 0-1 autocorrelation strength at periodMs
+}
+
+interface MotionProfile {
+    moving: MotionTrack[];
+    still: MotionTrack[];
+}
+
+const MOTION_PROFILES: Record<Exclude<ExerciseType, 'Auto-Detect'>, MotionProfile> = {
+    'Squat': { moving: ['knee', 'hip', 'hipY'], still: ['elbow'] },
+    'Leg Extension': { moving: ['knee'], still: ['hip', 'shoulderY', 'elbow'] },
+    'Leg Raises': { moving: ['hip'], still: ['elbow', 'shoulderY'] },
+
+    'Push Up': { moving: ['elbow', 'shoulderY'], still: ['knee'] },
+    'Bench Press': { moving: ['elbow', 'wristY'], still: ['hipY', 'knee'] },
+    'Incline Bench Press': { moving: ['elbow', 'wristY'], still: ['hipY', 'knee'] },
+    'Chest Fly Machine': { moving: ['wristSpread'], still: ['elbow', 'knee'] },
+    'Tricep Dips': { moving: ['elbow', 'shoulderY'], still: [] },
+
+    'Pull Up': { moving: ['elbow', 'shoulderY'], still: [] },
+    'Lat Pulldown': { moving: ['elbow', 'wristY'], still: ['shoulderY', 'knee'] },
+    'T-Bar Row': { moving: ['elbow', 'wristY'], still: ['hip', 'knee'] },
+    'Barbell Biceps Curl': { moving: ['elbow', 'wristY'], still: ['shoulder', 'hip', 'knee'] },
+    'Lateral Raises': { moving: ['shoulder', 'wristY'], still: ['elbow', 'knee'] },
+
+    'Plank': { moving: [], still: ['elbow', 'hip', 'shoulderY', 'hipY'] },
+    'Russian Twist': { moving: ['wristSway'], still: ['knee'] },
+
+    'Alternating Dumbbell Curl': { moving: ['elbow'], still: ['shoulder', 'hip', 'knee'] },
+    'Single Arm Dumbbell Row': { moving: ['elbow'], still: ['hip', 'knee'] },
+    'Alternating Lunge': { moving: ['knee', 'hipY'], still: ['elbow'] },
+
+    'Side Plank': { moving: [], still: ['hip', 'shoulderY', 'hipY'] },
+    'Wall Sit': { moving: [], still: ['knee', 'hip', 'hipY'] },
+    'Dead Hang': { moving: [], still: ['elbow', 'shoulderY'] },
+    'Hollow Hold': { moving: [], still: ['hip', 'knee', 'shoulderY'] }
+};
+
+const TRACKS: MotionTrack[] = ['elbow', 'shoulder', 'hip', 'knee', 'shoulderY', 'hipY', 'wristY', 'wristSpread', 'wristSway'];
+
+const WINDOW_MS = 5000;          // Long enough to hold ~2 reps
+const MIN_FRAMES = 8;            // Below this the window says nothing about motion
+const RESET_GAP_MS = 1000;       // Pose lost / seek -> start a new window
+const MIN_PERIOD_MS = 600;       // Faster "cycles" are jitter, not reps
+
+// Full-rep amplitude per kind of track (normalization)
+const ANGLE_RANGE_DEG = 60;
+const POSITION_RANGE_TORSO = 0.5; // Fraction of torso length
+
+// Normalized amplitude below STILL = not moving, above MOVING = clearly moving
+const STILL = 0.15;
+const MOVING = 0.5;
+
+// How much motion can re-rank the posture candidates (0 = static rules only)
+const MOTION_WEIGHT = 0.6;
+
+interface WindowFrame {
+    time: number;
+    values: Record<MotionTrack, number>;
+    torso: number;
+    candidates: ExerciseCandidate[];
+}
+
+export class TemporalClassifier {
+    private window: WindowFrame[] = [];
+    // Outlives window resets: a pose gap or seek doesn't change who is filmed
+    private bodyScale = new BodyScaleEstimator();
+
+    /**
+     * Classify the newest frame in the context of the window.
+     * Same contract as classifyExercise(): [] when no posture rule fired on this
+     * frame, otherwise candidates ranked best first (top one matched).
+     */
+    classify(landmarks: PoseLandmark[], timestamp: number): ExerciseCandidate[] {
+        landmarks = adaptToCanonical(landmarks);
+        const candidates = classifyExercise(landmarks, this.bodyScale.update(landmarks));
+        if (landmarks.length < 33) return candidates;
+
+        const last = this.window[this.window.length - 1];
+        if (last && (timestamp < last.time || timestamp - last.time > RESET_GAP_MS)) this.reset();
+
+        this.window.push({ time: timestamp, values: trackValues(landmarks), torso: torsoLength(landmarks), candidates });
+        while (this.window.length > 0 && timestamp - this.window[0].time > WINDOW_MS) this.window.shift();
+
+        if (candidates.length === 0 || this.window.length < MIN_FRAMES) return candidates;
+
+        return this.combine(this.getSignature());
+    }
+
+    getSignature(): MotionSignature {
+        const frames = this.window.length;
+        const amplitude = {} as Record<MotionTrack, number>;
+        TRACKS.forEach(track => { amplitude[track] = 0; });
+
+        if (frames < 2) {
+            return { durationMs: 0, frames, amplitude, dominant: null, periodMs: null, periodicity: 0 };
+        }
+
+        const torso = median(this.window.map(f => f.torso));
+        TRACKS.forEach(track => {
+            amplitude[track] = robustRange(this.window.map(f => f.values[track])) / trackRange(track, torso);
+        });
+
+        let dominant: MotionTrack | null = null;
+        TRACKS.forEach(track => {
+            if (amplitude[track] > STILL && (!dominant || amplitude[track] > amplitude[dominant])) dominant = track;
+        });
+
+        const durationMs = this.window[frames - 1].time - this.window[0].time;
+        const { periodMs, periodicity } = dominant
+            ? findPeriod(this.window.map(f => f.values[dominant as MotionTrack]), durationMs / (frames - 1))
+            : { periodMs: null, periodicity: 0 };
+
+        return { durationMs, frames, amplitude, dominant, periodMs, periodicity };
+    }
+
+    reset() {
+        this.window = [];
+    }
+
+    private combine(signature: MotionSignature): ExerciseCandidate[] {
+        // Posture: mean confidence of each exercise over the window
+        const posture = new Map<ExerciseType, number>();
+        this.window.forEach(frame => frame.candidates.forEach(c => {
+            posture.set(c.exercise, (posture.get(c.exercise) || 0) + c.confidence / this.window.length);
+        }));
+
+        const scored = [...posture.entries()]
+            .map(([exercise, confidence]) => ({
+                exercise,
+                score: confidence * (1 - MOTION_WEIGHT + MOTION_WEIGHT * motionScore(exercise, signature))
+            }))
+            .filter(c => c.score > 0)
+            .sort((a, b) => b.score - a.score);
+
+        const total = scored.reduce((sum, c) => sum + c.score, 0);
+        if (total === 0) return this.window[this.window.length - 1].candidates;
+
+        return scored.map((c, i) => ({
+            exercise: c.exercise,
+            confidence: c.score / total,
+            matched: i === 0
+        }));
+    }
+}
+
+/**
+ * How well the window's motion fits an exercise's profile (0-1).
+ */
+export function motionScore(exercise: ExerciseType, signature: MotionSignature): number {
+    const profile = exercise !== 'Auto-Detect' ? MOTION_PROFILES[exercise] : undefined;
+    if (!profile) return 0.5;
+
+    const movement = (track: MotionTrack) => clamp01((signature.amplitude[track] - STILL) / (MOVING - STILL));
+
+    const moving = profile.moving.length > 0 ? mean(profile.moving.map(movement)) : 1;
+    const still = profile.still.length > 0 ? mean(profile.still.map(t => 1 - movement(t))) : 1;
+
+    // Reps repeat: a periodic dominant mover backs up dynamic exercises
+    const rhythm = profile.moving.length > 0 ? 0.75 + 0.25 * signature.periodicity : 1;
+
+    return moving * still * rhythm;
+}
+
+// --- Helpers ---
+
+function trackValues(lm: PoseLandmark[]): Record<MotionTrack, number> {
+    const avgAngle = (a1: number, b1: number, c1: number, a2: number, b2: number, c2: number) =>
+        (calculateAngle(lm[a1], lm[b1], lm[c1]) + calculateAngle(lm[a2], lm[b2], lm[c2])) / 2;
+
+    return {
+        elbow: avgAngle(11, 13, 15, 12, 14, 16),
+        shoulder: avgAngle(23, 11, 13, 24, 12, 14),
+        hip: avgAngle(11, 23, 25, 12, 24, 26),
+        knee: avgAngle(23, 25, 27, 24, 26, 28),
+        shoulderY: (lm[11].y + lm[12].y) / 2,
+        hipY: (lm[23].y + lm[24].y) / 2,
+        wristY: (lm[15].y + lm[16].y) / 2,
+        wristSpread: Math.abs(lm[15].x - lm[16].x),
+        wristSway: (lm[15].x + lm[16].x) / 2 - (lm[23].x + lm[24].x) / 2
+    };
+}
+
+function trackRange(track: MotionTrack, torso: number): number {
+    switch (track) {
+        case 'elbow':
+        case 'shoulder':
+        case 'hip':
+        case 'knee':
+            return ANGLE_RANGE_DEG;
+        default:
+            return Math.max(0.01, torso * POSITION_RANGE_TORSO);
+    }
+}
+
+function torsoLength(lm: PoseLandmark[]): number {
+    const dx = (lm[11].x + lm[12].x) / 2 - (lm[23].x + lm[24].x) / 2;
+    const dy = (lm[11].y + lm[12].y) / 2 - (lm[23].y + lm[24].y) / 2;
+    return Math.sqrt(dx * dx + dy * dy);
+}
+
+// 10th-90th percentile spread (ignores single-frame detection spikes)
+function robustRange(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * (sorted.length - 1)))];
+    return at(0.9) - at(0.1);
+}
+
+/**
+ * Strongest autocorrelation peak between MIN_PERIOD_MS and 2/3 of the window.
+ */
+function findPeriod(values: number[], frameMs: number): { periodMs: number | null; periodicity: number } {
+    const m = mean(values);
+    const centered = values.map(v => v - m);
+    const energy = centered.reduce((sum, v) => sum + v * v, 0);
+    if (energy === 0 || frameMs <= 0) return { periodMs: null, periodicity: 0 };
+
+    const minLag = Math.max(1, Math.round(MIN_PERIOD_MS / frameMs));
+    const maxLag = Math.floor(values.length * 2 / 3);
+
+    let bestLag = 0;
+    let best = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let sum = 0;
+        for (let i = lag; i < centered.length; i++) sum += centered[i] * centered[i - lag];
+        // Normalize by overlap so long lags aren't penalized
+        const r = (sum / (centered.length - lag)) / (energy / centered.length);
+        if (r > best) {
+            best = r;
+            bestLag = lag;
+        }
+    }
+
+    return bestLag > 0 ? { periodMs: bestLag * frameMs, periodicity: clamp01(best) } : { periodMs: null, periodicity: 0 };
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
+function calculateAngle(a: PoseLandmark, b: PoseLandmark, c: PoseLandmark): number {
+    return measureAngle(a, b, c).value;
+}
@@ -0,0 +1,168 @@
+import { PoseLandmark, ExerciseType, Feedback } from '../ExerciseAnalyzer';
+import { BiomechanicalAnalyzer, CameraView } from '../analysis/BiomechanicalAnalyzer';
+import { GeometricRuleEngine, EngineSettings } from '../GeometricRuleEngine';
+import { RepTimestamp, RepRecord, RepAttempt } from '../reps/RepCounter';
+import { ExerciseSegment } from '../session/SessionSegmenter';
+import { FrameSize } from '../skeleton/SkeletonAdapters';
+import { toIsotropic } from '../skeleton/FrameSpace';
+
+/**
+ * Pose Track - Recording & Replay of engine input
+ *
+ * A pose track is the exact landmark stream that was fed into
+ * GeometricRuleEngine.analyzeFrame during a session (live camera or uploaded video).
+ * Replaying it through a fresh engine reproduces the rep count, phases and scores
+ * off-device, which lets us reproduce "it miscounted on my phone" reports.
+ *
+ * The header also carries the engine settings in force when recording started
+ * (strictness, ROM calibration, tempo, hold target), which replay applies.
+ *
+ * Bump POSE_TRACK_VERSION whenever the frame layout or header changes.
+ */
+export const POSE_TRACK_VERSION = 3;
+
+export type PoseTrackSource = 'live' | 'video';
+export type CameraPosition = 'front' | 'back' | 'unknown';
+
+export interface PoseTrackFrame {
+    timestamp: number;          // Same value passed to analyzeFrame (ms)
+    view: CameraView;           // View detected for this frame
+    landmarks: PoseLandmark[];  // Input to analyzeFrame (before engine smoothing)
+    frameSize?: FrameSize;      // Image size passed to analyzeFrame (v2+; older tracks are square)
+}
+
+export interface PoseTrack {
+    version: number;
+    createdAt: string;          // ISO date
+    source: PoseTrackSource;
+    exerciseType: ExerciseType; // Exercise selected by the user (may be 'Auto-Detect')
+    cameraPosition: CameraPosition;
+    recordingStartTime: number; // Passed to engine.setRecordingStartTime
+    settings?: EngineSettings;  // engine.getSettings() at start (v3+; older tracks replay with defaults)
+    label?: ExerciseType;       // Ground truth (regression corpus tracks only)
+    frames: PoseTrackFrame[];
+}
+
+export interface ReplayResult {
+    feedback: Feedback[];
+    reps: number;
+    repTimestamps: RepTimestamp[];
+    repRecords: RepRecord[];
+    attempts: RepAttempt[];
+    detectedExercise?: ExerciseType;
+    segments: ExerciseSegment[];
+}
+
+// Only used for its detectView() implementation
+class ViewProbe extends BiomechanicalAnalyzer { }
+
+/**
+ * Collects frames while a session is running.
+ * Call start() when recording begins and finish() to get the completed track.
+ */
+export class PoseTrackRecorder {
+    private track: PoseTrack | null = null;
+    private viewProbe = new ViewProbe();
+
+    start(exerciseType: ExerciseType, source: PoseTrackSource, cameraPosition: CameraPosition, recordingStartTime: number, settings?: EngineSettings) {
+        this.viewProbe.reset();
+        this.track = {
+            version: POSE_TRACK_VERSION,
+            createdAt: new Date().toISOString(),
+            source,
+            exerciseType,
+            cameraPosition,
+            recordingStartTime,
+            settings,
+            frames: []
+        };
+    }
+
+    isRecording(): boolean {
+        return this.track !== null;
+    }
+
+    addFrame(landmarks: PoseLandmark[], timestamp: number, frameSize?: FrameSize | null) {
+        if (!this.track || !landmarks || landmarks.length === 0) return;
+
+        this.track.frames.push({
+            timestamp,
+            view: this.viewProbe.detectView(toIsotropic(landmarks, frameSize)),
+            // Copy only the fields the engine reads (MediaPipe objects carry extras)
+            landmarks: landmarks.map(lm => ({
+                x: lm.x,
+                y: lm.y,
+                z: lm.z,
+                visibility: lm.visibility,
+                ...(lm.world ? { world: { x: lm.world.x, y: lm.world.y, z: lm.world.z } } : {})
+            })),
+            ...(frameSize ? { frameSize: { width: frameSize.width, height: frameSize.height } } : {})
+        });
+    }
+
+    finish(): PoseTrack | null {
+        const track = this.track;
+        this.track = null;
+        return track;
+    }
+}
+
+export function serializePoseTrack(track: PoseTrack): string {
+    return JSON.stringify(track);
+}
+
+/**
+ * Parse a pose track file. Throws if the content is not a pose track
+ * or was written by a newer, unsupported version.
+ */
+export function parsePoseTrack(json: string): PoseTrack {
+    const data = JSON.parse(json);
+
+    if (!data || typeof data.version !== 'number' || !Array.isArray(data.frames)) {
+        throw new Error('Invalid pose track file');
+    }
+    if (data.version > POSE_TRACK_VERSION) {
+        throw new Error(`Unsupported pose track version ${data.version} (max ${POSE_TRACK_VERSION})`);
+    }
+
+    return data as PoseTrack;
+}
+
+/**
+ * Replay a recorded track through a fresh engine (headless, no camera needed).
+ * Pass exerciseType to override the exercise selected during recording,
+ * e.g. to force a specific analyzer on an Auto-Detect track.
+ */
+export function replayPoseTrack(
+    track: PoseTrack,
+    options: { exerciseType?: ExerciseType; onFrame?: (frame: PoseTrackFrame, feedback: Feedback) => void } = {}
+): ReplayResult {
+    const engine = new GeometricRuleEngine();
+    if (track.settings) engine.applySettings(track.settings);
+    engine.setExercise(options.exerciseType || track.exerciseType);
+    engine.setRecordingStartTime(track.recordingStartTime);
+
+    const feedback: Feedback[] = [];
+    let reps = 0;
+    let detectedExercise: ExerciseType | undefined;
+
+    for (const frame of track.frames) {
+        const result = engine.analyzeFrame(frame.landmarks, frame.timestamp, frame.frameSize);
+        feedback.push(result);
+
+        if (result.reps > reps) reps = result.reps;
+        if (result.detectedExercise) detectedExercise = result.detectedExercise;
+
+        options.onFrame?.(frame, result);
+    }
+
+    return {
+        feedback,
+        reps,
+        repTimestamps: engine.getRepTimestamps(),
+        repRecords: engine.getRepRecords(),
+        attempts: engine.getRepAttempts(),
+        detectedExercise,
+        segments: engine.getSegments()
+    };
+}
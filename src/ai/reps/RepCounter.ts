@@ -1,3 +1,10 @@
+import { Feedback, ScoreBreakdown } from '../ExerciseAnalyzer';
+import { RepTempo, TempoTracker } from '../tempo/Tempo';
+import { RomCalibrator } from './RomCalibration';
+import { BodySide } from '../analysis/BodySide';
+import { FaultCode } from '../faults/FormFault';
+import { plural } from '../../i18n/Messages';
+
 export type RepPhase = 'Rest' | 'Eccentric' | 'Bottom' | 'Concentric' | 'Top';
 export type CountMode = 'EccentricFirst' | 'ConcentricFirst';
 
@@ -7,6 +14,68 @@ export interface RepTimestamp {
     end: number;
 }
 
+/**
+ * Everything observed during one completed rep (start -> end).
+ * Position, phases and timing come from update(); angles, pillars and faults
+ * from the Feedback frames the analyzer passes to observe().
+ */
+export interface RepRecord extends RepTimestamp {
+    index: number;                                     // 1-based rep number
+    minPosition: number;                               // Normalized completion (0-1)
+    maxPosition: number;
+    phaseDurations: Partial<Record<RepPhase, number>>; // ms spent in each phase
+    tempo: RepTempo;                                   // Eccentric / pauses / concentric (s), see TempoTracker
+    jointAngles: Record<string, { min: number; max: number }>; // Peak angles (degrees)
+    breakdown: ScoreBreakdown;                         // Mean pillar scores over the rep
+    score: number;                                     // Mean frame score over the rep
+    faults: FaultCode[];                               // Distinct faults seen during the rep
+    side?: BodySide;                                   // Working side (unilateral exercises)
+}
+
+/**
+ * A rep attempt that didn't count.
+ * - partial: turned back before reaching the target range (false start)
+ * - failed: the lift itself gave out - EccentricFirst: reached the bottom but sank
+ *   back during the lift; ConcentricFirst: stalled short of the top after most of
+ *   the range. A grind that sinks back and then locks out is a rep, not a failure.
+ */
+export type AttemptOutcome = 'partial' | 'failed';
+
+export interface RepAttempt {
+    outcome: AttemptOutcome;
+    start: number; // ms, relative to the recording start like RepTimestamp
+    end: number;
+    depth: number; // Furthest position reached (0-1)
+}
+
+// A false start only counts as a partial once it got this far past the start range
+// (jitter around thresholdLow while standing or resting isn't an attempt)
+const PARTIAL_MIN_DEPTH = 0.1;
+
+// ConcentricFirst: turning back this far (share of the way from the start range to
+// the target) is a failed lift rather than a false start
+const FAILED_MIN_SHARE = 0.75;
+
+// "2 partials, 1 failed" (empty when every attempt counted)
+export function formatAttempts(partialReps: number, failedReps: number): string {
+    const parts: string[] = [];
+    if (partialReps > 0) parts.push(plural('attempts.partial', partialReps));
+    if (failedReps > 0) parts.push(plural('attempts.failed', failedReps));
+    return parts.join(', ');
+}
+
+// Per-rep accumulator (reset at every rep start)
+interface RepAccumulator {
+    minPosition: number;
+    maxPosition: number;
+    phaseDurations: Partial<Record<RepPhase, number>>;
+    jointAngles: Record<string, { min: number; max: number }>;
+    totals: ScoreBreakdown;
+    scoreTotal: number;
+    frames: number;
+    faults: FaultCode[];
+}
+
 export class RepCounter {
     private count = 0;
     private currentPhase: RepPhase = 'Rest';
@@ -22,6 +91,17 @@ export class RepCounter {
     private currentRepMidTime: number | null = null;
     private recordingStartTime: number = 0;
 
+    // Per-rep records and the attempts that didn't count
+    private repRecords: RepRecord[] = [];
+    private attempts: RepAttempt[] = [];
+    private failure: RepAttempt | null = null; // Sink-back of the rep in progress (withdrawn if it locks out)
+    private rep: RepAccumulator | null = null;
+    private lastUpdateTime: number | null = null;
+    private tempo: TempoTracker;
+
+    // Per-user range (null = analyzer's fixed mapping)
+    private calibrator: RomCalibrator | null = null;
+
     constructor(options: CountMode | { mode?: CountMode; thresholdHigh?: number; thresholdLow?: number } = 'EccentricFirst') {
         if (typeof options === 'string') {
             this.mode = options;
@@ -30,6 +110,11 @@ export class RepCounter {
             if (options.thresholdHigh !== undefined) this.thresholdHigh = options.thresholdHigh;
             if (options.thresholdLow !== undefined) this.thresholdLow = options.thresholdLow;
         }
+        this.tempo = new TempoTracker(this.mode);
+    }
+
+    setCalibrator(calibrator: RomCalibrator | null) {
+        this.calibrator = calibrator;
     }
 
     // Set the recording start time for relative timestamps
@@ -39,8 +124,18 @@ export class RepCounter {
 
     update(completion: number, timestamp?: number): { count: number; phase: RepPhase } {
         const now = timestamp ?? Date.now();
+        if (this.calibrator) completion = this.calibrator.rescale(completion);
         const currentMs = (now - this.recordingStartTime); // Staying in Milliseconds (Integer)
 
+        // Time since the last frame belongs to the phase we were in
+        if (this.rep && this.lastUpdateTime !== null) {
+            const phase = this.currentPhase;
+            this.rep.phaseDurations[phase] = (this.rep.phaseDurations[phase] || 0) + Math.max(0, now - this.lastUpdateTime);
+        }
+        this.lastUpdateTime = now;
+        this.tempo.update(completion, now);
+        const countBefore = this.count;
+
         if (this.mode === 'EccentricFirst') {
             // Squat, Bench, Pushup (Start 0 -> Down 1 -> Up 0)
             switch (this.currentPhase) {
@@ -51,6 +146,7 @@ export class RepCounter {
                         // Start tracking rep time
                         if (this.currentRepStartTime === null) {
                             this.currentRepStartTime = currentMs;
+                            this.startRepRecord();
                         }
                     }
                     break;
@@ -61,8 +157,11 @@ export class RepCounter {
                         this.currentRepMidTime = currentMs; // Peak of descent
                     } else if (completion < this.thresholdLow) {
                         this.currentPhase = 'Top'; // False start
+                        this.recordAttempt('partial', currentMs);
                         this.currentRepStartTime = null;
                         this.currentRepMidTime = null;
+                        this.rep = null;
+                        this.tempo.discard();
                     }
                     break;
                 case 'Bottom':
@@ -74,19 +173,23 @@ export class RepCounter {
                     if (completion <= this.thresholdLow) {
                         this.count++;
                         this.currentPhase = 'Top';
+                        this.withdrawFailure();
                         this.lastPhaseTimestamp = now;
                         // Record completed rep timestamp
                         if (this.currentRepStartTime !== null) {
-                            this.repTimestamps.push({
+                            const timing = {
                                 start: this.currentRepStartTime,
                                 mid: this.currentRepMidTime || currentMs, // Fallback to current if mid wasn't caught
                                 end: currentMs
-                            });
+                            };
+                            this.repTimestamps.push(timing);
+                            this.finishRepRecord(timing);
                             this.currentRepStartTime = null;
                             this.currentRepMidTime = null;
                         }
                     } else if (completion > this.thresholdHigh) {
                         this.currentPhase = 'Bottom'; // Failed, sank back down
+                        this.recordFailure(currentMs);
                     }
                     break;
             }
@@ -100,6 +203,7 @@ export class RepCounter {
                         // Start tracking rep time
                         if (this.currentRepStartTime === null) {
                             this.currentRepStartTime = currentMs;
+                            this.startRepRecord();
                         }
                     }
                     break;
@@ -109,9 +213,12 @@ export class RepCounter {
                         this.lastPhaseTimestamp = now;
                         this.currentRepMidTime = currentMs; // Peak of contraction
                     } else if (completion < this.thresholdLow) {
-                        this.currentPhase = 'Bottom'; // False start
+                        this.currentPhase = 'Bottom'; // False start, or a lift that stalled short of the top
+                        this.recordAttempt(this.stalled() ? 'failed' : 'partial', currentMs);
                         this.currentRepStartTime = null;
                         this.currentRepMidTime = null;
+                        this.rep = null;
+                        this.tempo.discard();
                     }
                     break;
                 case 'Top':
@@ -126,11 +233,13 @@ export class RepCounter {
                         this.lastPhaseTimestamp = now;
                         // Record completed rep timestamp
                         if (this.currentRepStartTime !== null) {
-                            this.repTimestamps.push({
+                            const timing = {
                                 start: this.currentRepStartTime,
                                 mid: this.currentRepMidTime || currentMs, // Fallback
                                 end: currentMs
-                            });
+                            };
+                            this.repTimestamps.push(timing);
+                            this.finishRepRecord(timing);
                             this.currentRepStartTime = null;
                             this.currentRepMidTime = null;
                         }
@@ -141,17 +250,136 @@ export class RepCounter {
             }
         }
 
+        // Position extremes of the rep in progress (rep-completing frame belongs to the finished rep)
+        const rep = this.rep || (this.count > countBefore ? this.repRecords[this.repRecords.length - 1] : null);
+        if (rep) {
+            rep.minPosition = Math.min(rep.minPosition, completion);
+            rep.maxPosition = Math.max(rep.maxPosition, completion);
+        }
+
         return { count: this.count, phase: this.currentPhase };
     }
 
+    /**
+     * Feed the frame's feedback (call once per frame, after update()).
+     * Only frames of a rep in progress are kept.
+     */
+    observe(feedback: Feedback) {
+        const rep = this.rep;
+        if (!rep) return;
+
+        rep.frames++;
+        rep.scoreTotal += feedback.score;
+        rep.totals.stability += feedback.breakdown.stability;
+        rep.totals.rom += feedback.breakdown.rom;
+        rep.totals.posture += feedback.breakdown.posture;
+        rep.totals.efficiency += feedback.breakdown.efficiency;
+        rep.totals.bracing += feedback.breakdown.bracing;
+
+        Object.entries(feedback.jointAngles || {}).forEach(([joint, angle]) => {
+            if (!isFinite(angle)) return;
+            const peak = rep.jointAngles[joint];
+            rep.jointAngles[joint] = peak
+                ? { min: Math.min(peak.min, angle), max: Math.max(peak.max, angle) }
+                : { min: angle, max: angle };
+        });
+
+        (feedback.faults || []).forEach(fault => {
+            if (!rep.faults.includes(fault.code)) rep.faults.push(fault.code);
+        });
+    }
+
     getCount() { return this.count; }
+    // 1-based index of the rep in progress (null between reps)
+    getRepIndex(): number | null { return this.rep ? this.count + 1 : null; }
+    getPhase() { return this.currentPhase; }
     getRepTimestamps() { return [...this.repTimestamps]; }
+    getRepRecords() { return [...this.repRecords]; }
+    getAttempts() { return [...this.attempts]; }
     reset() {
         this.count = 0;
         this.currentPhase = 'Rest';
         this.repTimestamps = [];
         this.currentRepStartTime = null;
         this.currentRepMidTime = null;
+        this.repRecords = [];
+        this.attempts = [];
+        this.failure = null;
+        this.rep = null;
+        this.lastUpdateTime = null;
+        this.tempo.reset();
+    }
+
+    private recordAttempt(outcome: AttemptOutcome, currentMs: number): RepAttempt | null {
+        if (this.currentRepStartTime === null) return null;
+        const depth = this.repDepth();
+        if (outcome === 'partial' && depth < this.thresholdLow + PARTIAL_MIN_DEPTH) return null;
+        const attempt = { outcome, start: this.currentRepStartTime, end: currentMs, depth };
+        this.attempts.push(attempt);
+        return attempt;
+    }
+
+    // One failure per descent: sinking back again extends it
+    private recordFailure(currentMs: number) {
+        if (this.failure) this.failure.end = currentMs;
+        else this.failure = this.recordAttempt('failed', currentMs);
+    }
+
+    // The rep locked out after all
+    private withdrawFailure() {
+        if (this.failure) this.attempts = this.attempts.filter(attempt => attempt !== this.failure);
+        this.failure = null;
+    }
+
+    // ConcentricFirst: the aborted lift got most of the way to the target
+    private stalled(): boolean {
+        return this.repDepth() >= this.thresholdLow + FAILED_MIN_SHARE * (this.thresholdHigh - this.thresholdLow);
+    }
+
+    private repDepth(): number {
+        return this.rep ? Math.max(0, this.rep.maxPosition) : 0;
+    }
+
+    private startRepRecord() {
+        this.failure = null;
+        this.rep = {
+            minPosition: Infinity,
+            maxPosition: -Infinity,
+            phaseDurations: {},
+            jointAngles: {},
+            totals: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
+            scoreTotal: 0,
+            frames: 0,
+            faults: []
+        };
+    }
+
+    private finishRepRecord(timing: RepTimestamp) {
+        const rep = this.rep;
+        this.rep = null;
+        if (!rep) return;
+
+        const n = Math.max(1, rep.frames);
+        const score = Math.round(rep.scoreTotal / n);
+        this.repRecords.push({
+            ...timing,
+            index: this.count,
+            minPosition: rep.minPosition,
+            maxPosition: rep.maxPosition,
+            phaseDurations: rep.phaseDurations,
+            tempo: this.tempo.finishRep(),
+            jointAngles: rep.jointAngles,
+            breakdown: {
+                total: score,
+                stability: Math.round(rep.totals.stability / n),
+                rom: Math.round(rep.totals.rom / n),
+                posture: Math.round(rep.totals.posture / n),
+                efficiency: Math.round(rep.totals.efficiency / n),
+                bracing: Math.round(rep.totals.bracing / n)
+            },
+            score,
+            faults: rep.faults
+        });
     }
 }
 
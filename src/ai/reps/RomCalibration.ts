@@ -0,0 +1,159 @@
+import { ExerciseType } from '../ExerciseAnalyzer';
+import { BodySide } from '../analysis/BodySide';
+
+/**
+ * ROM Calibration - Rescales an analyzer's position signal to the user's own range
+ *
+ * Analyzers map a joint angle to a 0-1 position with fixed constants
+ * (e.g. `(170 - elbowAngle) / 80` for push-ups), and RepCounter's thresholds
+ * assume the user covers that textbook range. Someone who locks out at 160°
+ * or bottoms out at 100° sits permanently inside the thresholds.
+ *
+ * The calibrator watches the raw position for complete movement cycles
+ * (start -> full range -> start, found by hysteresis, independent of the
+ * RepCounter thresholds) and learns the median start and end of the user's
+ * first reps. After that the position is rescaled so their start is 0 and
+ * their full range 1. Deeper reps later extend the range; shallower reps never
+ * shrink it, so a sloppy set can't lower the bar.
+ */
+export interface RomCalibration {
+    start: number;     // Raw position at the start of the user's reps
+    end: number;       // Raw position at their full range
+    cycles: number;    // Movement cycles the range was learned from
+    updatedAt: string; // ISO date
+}
+
+// Calibrations are kept per exercise, and per side for unilateral exercises (e.g. 'Alternating Dumbbell Curl:left')
+export type CalibrationKey = ExerciseType | `${ExerciseType}:${BodySide}`;
+export type RomCalibrations = Partial<Record<CalibrationKey, RomCalibration>>;
+
+export function sideCalibrationKey(exercise: ExerciseType, side: BodySide): CalibrationKey {
+    return `${exercise}:${side}`;
+}
+
+// 'auto': use a stored calibration or learn from the first reps; 'calibrate': dedicated set, learn from scratch
+export type CalibrationMode = 'off' | 'auto' | 'calibrate';
+
+export const CALIBRATION_REPS = 3;
+
+// A movement cycle must swing this far (raw position) each way
+const MIN_SWING = 0.2;
+// Narrower learned ranges are noise or partial reps, not a usable calibration
+const MIN_RANGE = 0.3;
+// Share of a deeper rep's extra range taken into the calibration
+const EXTEND_RATE = 0.25;
+
+interface Cycle {
+    start: number;
+    end: number;
+}
+
+export class RomCalibrator {
+    private calibration: RomCalibration | null = null;
+    private learning = false;
+    private target = CALIBRATION_REPS;
+    private cycles: Cycle[] = [];
+
+    // Cycle detection
+    private rising = true;
+    private trough: number | null = null;
+    private peak = -Infinity;
+    private cycleStart: number | null = null;
+
+    setCalibration(calibration: RomCalibration | null) {
+        this.calibration = calibration;
+        this.learning = false;
+    }
+
+    getCalibration(): RomCalibration | null {
+        return this.calibration;
+    }
+
+    // Learn a fresh range from the next `reps` movement cycles (the current calibration stays in use until then)
+    startLearning(reps: number = CALIBRATION_REPS) {
+        this.learning = true;
+        this.target = reps;
+        this.cycles = [];
+    }
+
+    isLearning(): boolean {
+        return this.learning;
+    }
+
+    getProgress(): { cycles: number; target: number } {
+        return { cycles: this.cycles.length, target: this.target };
+    }
+
+    /**
+     * Feed the raw position; returns it rescaled to the calibrated range
+     * (unchanged while uncalibrated).
+     */
+    rescale(raw: number): number {
+        this.detectCycle(raw);
+
+        const c = this.calibration;
+        if (!c) return raw;
+        return Math.min(1, Math.max(0, (raw - c.start) / (c.end - c.start)));
+    }
+
+    private detectCycle(raw: number) {
+        if (this.trough === null) {
+            this.trough = raw;
+            return;
+        }
+
+        if (this.rising) {
+            this.trough = Math.min(this.trough, raw);
+            this.peak = Math.max(this.peak, raw);
+            // Turned back down after a full swing up
+            if (this.peak - this.trough >= MIN_SWING && this.peak - raw >= MIN_SWING) {
+                this.cycleStart = this.trough;
+                this.rising = false;
+                this.trough = raw;
+            }
+        } else {
+            this.trough = Math.min(this.trough, raw);
+            // Back at the start and moving up again: the cycle is complete
+            if (raw - this.trough >= MIN_SWING) {
+                if (this.cycleStart !== null) {
+                    this.addCycle({ start: (this.cycleStart + this.trough) / 2, end: this.peak });
+                }
+                this.rising = true;
+                this.peak = raw;
+                this.trough = Math.min(this.trough, raw);
+            }
+        }
+    }
+
+    private addCycle(cycle: Cycle) {
+        if (this.learning) {
+            this.cycles.push(cycle);
+            if (this.cycles.length > this.target) this.cycles.shift();
+            if (this.cycles.length < this.target) return;
+
+            const start = median(this.cycles.map(c => c.start));
+            const end = median(this.cycles.map(c => c.end));
+            if (end - start < MIN_RANGE) return; // Keep learning from the most recent cycles
+
+            this.calibration = { start, end, cycles: this.cycles.length, updatedAt: new Date().toISOString() };
+            this.learning = false;
+            return;
+        }
+
+        const c = this.calibration;
+        if (!c) return;
+        if (cycle.end <= c.end && cycle.start >= c.start) return;
+
+        this.calibration = {
+            start: cycle.start < c.start ? c.start + EXTEND_RATE * (cycle.start - c.start) : c.start,
+            end: cycle.end > c.end ? c.end + EXTEND_RATE * (cycle.end - c.end) : c.end,
+            cycles: c.cycles + 1,
+            updatedAt: new Date().toISOString()
+        };
+    }
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,138 @@
+import { ExerciseType, ScoreBreakdown } from '../ExerciseAnalyzer';
+import intermediate from './profiles/intermediate.json';
+import beginner from './profiles/beginner.json';
+import advanced from './profiles/advanced.json';
+
+/**
+ * Scoring Profiles - Pillar weights, good-form cutoffs and fault thresholds as data
+ *
+ * A profile (JSON, see ./profiles) lists per exercise:
+ *   weights  -> share of each pillar in the total score (normalized to sum to 1)
+ *   goodForm -> total score above which a frame is isGoodForm (else the profile's goodForm)
+ *   faults   -> named thresholds the analyzer's cues fire at. Units depend on the
+ *               fault: most are pillar-score cutoffs (0-100), some are joint angles
+ *               or screen distances at the reference body size, scaled by the
+ *               athlete's (see the analyzer using the name).
+ *
+ * 'intermediate' is complete and holds the original hardcoded values; the other
+ * levels extend it and only list what they change. User overrides are a partial
+ * profile applied last: weights replace the level's weights for that exercise,
+ * faults are merged per name. A fault name intermediate doesn't know for that
+ * exercise is a typo and rejected (at load for the levels, on parse for overrides).
+ */
+export type Pillar = Exclude<keyof ScoreBreakdown, 'total'>;
+
+export type StrictnessLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export const STRICTNESS_LEVELS: StrictnessLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+export interface ExerciseScoring {
+    weights: Partial<Record<Pillar, number>>;
+    goodForm: number;
+    faults: Record<string, number>;
+}
+
+export interface ScoringProfile {
+    name: string;
+    extends?: StrictnessLevel;
+    goodForm?: number;
+    exercises: Partial<Record<ExerciseType, Partial<ExerciseScoring>>>;
+}
+
+// User-selected changes on top of a strictness level
+export type ScoringOverrides = Omit<ScoringProfile, 'name' | 'extends'>;
+
+const PILLARS: Pillar[] = ['stability', 'rom', 'posture', 'efficiency', 'bracing'];
+
+const PROFILES: Record<StrictnessLevel, ScoringProfile> = {
+    beginner: beginner as ScoringProfile,
+    intermediate: intermediate as ScoringProfile,
+    advanced: advanced as ScoringProfile
+};
+
+checkFaultNames(PROFILES.beginner);
+checkFaultNames(PROFILES.advanced);
+
+// Equal pillar weights, for exercises a profile doesn't list
+const NEUTRAL_SCORING: ExerciseScoring = {
+    weights: { stability: 0.2, rom: 0.2, posture: 0.2, efficiency: 0.2, bracing: 0.2 },
+    goodForm: 80,
+    faults: {}
+};
+
+/**
+ * Scoring for one exercise at a strictness level, with the user's overrides applied.
+ */
+export function exerciseScoring(exercise: ExerciseType, level: StrictnessLevel = 'intermediate', overrides: ScoringOverrides | null = null): ExerciseScoring {
+    const layers: Omit<ScoringProfile, 'name'>[] = [];
+    let profile: ScoringProfile | undefined = PROFILES[level];
+    while (profile) {
+        layers.unshift(profile);
+        profile = profile.extends ? PROFILES[profile.extends] : undefined;
+    }
+    if (overrides) layers.push(overrides);
+
+    let scoring: ExerciseScoring = { ...NEUTRAL_SCORING, faults: {} };
+    layers.forEach(layer => {
+        const entry = layer.exercises?.[exercise];
+        scoring = {
+            weights: entry?.weights && Object.keys(entry.weights).length > 0 ? entry.weights : scoring.weights,
+            goodForm: entry?.goodForm ?? layer.goodForm ?? scoring.goodForm,
+            faults: { ...scoring.faults, ...(entry?.faults || {}) }
+        };
+    });
+
+    return { ...scoring, weights: normalizeWeights(scoring.weights) };
+}
+
+/**
+ * Checks a user overrides object (e.g. parsed from storage) and returns it typed.
+ * Throws on anything that would silently break scoring.
+ */
+export function parseScoringOverrides(value: unknown): ScoringOverrides {
+    if (!value || typeof value !== 'object') throw new Error('Scoring overrides must be an object');
+    const overrides = value as ScoringOverrides;
+
+    if (overrides.goodForm !== undefined) checkCutoff(overrides.goodForm, 'goodForm');
+    Object.entries(overrides.exercises || {}).forEach(([exercise, entry]) => {
+        if (!entry) return;
+        if (entry.goodForm !== undefined) checkCutoff(entry.goodForm, `${exercise}.goodForm`);
+        Object.entries(entry.weights || {}).forEach(([pillar, weight]) => {
+            if (!PILLARS.includes(pillar as Pillar)) throw new Error(`${exercise}: unknown pillar "${pillar}"`);
+            if (typeof weight !== 'number' || weight < 0) throw new Error(`${exercise}.weights.${pillar} must be a non-negative number`);
+        });
+        Object.entries(entry.faults || {}).forEach(([fault, threshold]) => {
+            if (typeof threshold !== 'number' || isNaN(threshold)) throw new Error(`${exercise}.faults.${fault} must be a number`);
+        });
+    });
+    checkFaultNames(overrides);
+
+    return overrides;
+}
+
+// --- Helpers ---
+
+// Every fault a profile names must be one the complete (intermediate) profile has
+function checkFaultNames(profile: Omit<ScoringProfile, 'name'>) {
+    Object.entries(profile.exercises || {}).forEach(([exercise, entry]) => {
+        const known = PROFILES.intermediate.exercises[exercise as ExerciseType]?.faults || {};
+        Object.keys(entry?.faults || {}).forEach(fault => {
+            if (!(fault in known)) throw new Error(`${exercise}: unknown fault threshold "${fault}"`);
+        });
+    });
+}
+
+function normalizeWeights(weights: Partial<Record<Pillar, number>>): Partial<Record<Pillar, number>> {
+    const sum = PILLARS.reduce((total, pillar) => total + (weights[pillar] || 0), 0);
+    if (sum <= 0) return weights;
+
+    const normalized: Partial<Record<Pillar, number>> = {};
+    PILLARS.forEach(pillar => {
+        if (weights[pillar] !== undefined) normalized[pillar] = (weights[pillar] || 0) / sum;
+    });
+    return normalized;
+}
+
+function checkCutoff(value: unknown, name: string) {
+    if (typeof value !== 'number' || value < 0 || value > 100) throw new Error(`${name} must be a score between 0 and 100`);
+}
@@ -0,0 +1,161 @@
+import { ExerciseType, Feedback, ScoreBreakdown, isHoldExercise } from '../ExerciseAnalyzer';
+import { RepTimestamp, RepRecord, RepAttempt } from '../reps/RepCounter';
+import { TempoPrescription, TempoSummary, summarizeTempo } from '../tempo/Tempo';
+import { UnilateralSummary } from '../exercises/UnilateralAnalyzer';
+import { HoldSummary } from '../holds/HoldTimer';
+import { FaultCode, FaultSummary, summarizeFaults } from '../faults/FormFault';
+
+/**
+ * Session Segmentation - One block per exercise performed in a session
+ *
+ * In Auto-Detect a session can contain several exercises (e.g. a circuit of
+ * squats then push-ups). GeometricRuleEngine opens a segment when it locks an
+ * exercise and closes it when it unlocks (the user switched exercise or rested).
+ * With a manually selected exercise the whole session is a single segment.
+ *
+ * All times are in ms relative to the recording start, like RepTimestamp.
+ */
+export type SegmentEndReason = 'switch' | 'rest' | 'end';
+
+export interface ExerciseSegment {
+    exercise: ExerciseType;
+    startTime: number;
+    endTime: number;
+    reps: number;                // Reps (or seconds held for holds) within this block
+    repTimestamps: RepTimestamp[];
+    repRecords: RepRecord[];
+    attempts: RepAttempt[];      // Partial and failed attempts
+    partialReps: number;
+    failedReps: number;
+    tempo: TempoSummary;         // Per-set tempo consistency (and adherence to the prescribed tempo)
+    sides?: UnilateralSummary;   // Per-side reps, scores and asymmetry (unilateral exercises)
+    hold?: HoldSummary;          // Time held, breaks and hold quality (holds)
+    faults: FaultSummary;        // Which faults showed up, on how many reps
+    averageScore: number;        // Mean frame score while the block was active
+    breakdown: ScoreBreakdown;   // Mean pillar scores while the block was active
+    endReason: SegmentEndReason; // 'end' for the block still open when the session stopped
+}
+
+// What the block's analyzer produced (rep data isn't in the per-frame feedback)
+export interface SegmentResults {
+    repTimestamps: RepTimestamp[];
+    repRecords: RepRecord[];
+    attempts: RepAttempt[];
+    sides?: UnilateralSummary;
+    hold?: HoldSummary;
+}
+
+const NO_RESULTS: SegmentResults = { repTimestamps: [], repRecords: [], attempts: [] };
+
+interface OpenSegment {
+    exercise: ExerciseType;
+    startTime: number;
+    lastTime: number;
+    reps: number;
+    frames: number;
+    totals: ScoreBreakdown;
+    faultFrames: Partial<Record<FaultCode, number>>;
+}
+
+const emptyBreakdown = (): ScoreBreakdown => ({ total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 });
+
+export class SessionSegmenter {
+    private segments: ExerciseSegment[] = [];
+    private current: OpenSegment | null = null;
+    private tempoPrescription: TempoPrescription | null = null;
+
+    setTempoPrescription(prescription: TempoPrescription | null) {
+        this.tempoPrescription = prescription;
+    }
+
+    start(exercise: ExerciseType, time: number) {
+        this.current = { exercise, startTime: time, lastTime: time, reps: 0, frames: 0, totals: emptyBreakdown(), faultFrames: {} };
+    }
+
+    isOpen(): boolean {
+        return this.current !== null;
+    }
+
+    getExercise(): ExerciseType | null {
+        return this.current ? this.current.exercise : null;
+    }
+
+    addFrame(feedback: Feedback, time: number) {
+        if (!this.current) return;
+
+        const c = this.current;
+        c.lastTime = time;
+        c.reps = Math.max(c.reps, feedback.reps);
+        c.frames++;
+        c.totals.total += feedback.score;
+        c.totals.stability += feedback.breakdown.stability;
+        c.totals.rom += feedback.breakdown.rom;
+        c.totals.posture += feedback.breakdown.posture;
+        c.totals.efficiency += feedback.breakdown.efficiency;
+        c.totals.bracing += feedback.breakdown.bracing;
+        // A code reported for both sides still counts as one frame
+        new Set((feedback.faults || []).map(fault => fault.code)).forEach(code => {
+            c.faultFrames[code] = (c.faultFrames[code] || 0) + 1;
+        });
+    }
+
+    /**
+     * Close the open segment. Blocks without a single rep are dropped
+     * (a false lock, or the user just standing around), except holds
+     * whose "reps" are seconds and may legitimately be short.
+     */
+    close(reason: SegmentEndReason, results: SegmentResults): ExerciseSegment | null {
+        if (!this.current) return null;
+
+        const segment = this.toSegment(this.current, reason, results);
+        this.current = null;
+
+        if (segment.reps === 0 && !isHoldExercise(segment.exercise)) return null;
+        this.segments.push(segment);
+        return segment;
+    }
+
+    /**
+     * Closed segments plus a snapshot of the open one (endReason 'end').
+     */
+    getSegments(openResults: SegmentResults = NO_RESULTS): ExerciseSegment[] {
+        if (!this.current) return [...this.segments];
+        return [...this.segments, this.toSegment(this.current, 'end', openResults)];
+    }
+
+    reset() {
+        this.segments = [];
+        this.current = null;
+    }
+
+    private toSegment(open: OpenSegment, reason: SegmentEndReason, results: SegmentResults): ExerciseSegment {
+        const { repTimestamps, repRecords, attempts, sides, hold } = results;
+        const n = Math.max(1, open.frames);
+        const t = open.totals;
+        return {
+            exercise: open.exercise,
+            startTime: open.startTime,
+            endTime: open.lastTime,
+            reps: open.reps,
+            repTimestamps,
+            repRecords,
+            attempts,
+            partialReps: attempts.filter(a => a.outcome === 'partial').length,
+            failedReps: attempts.filter(a => a.outcome === 'failed').length,
+            tempo: summarizeTempo(repRecords, this.tempoPrescription),
+            sides,
+            hold,
+            faults: summarizeFaults(repRecords.map(record => record.faults), open.faultFrames, open.frames),
+            averageScore: Math.round(t.total / n),
+            breakdown: {
+                total: Math.round(t.total / n),
+                stability: Math.round(t.stability / n),
+                rom: Math.round(t.rom / n),
+                posture: Math.round(t.posture / n),
+                efficiency: Math.round(t.efficiency / n),
+                bracing: Math.round(t.bracing / n)
+            },
+            endReason: reason
+        };
+    }
+}
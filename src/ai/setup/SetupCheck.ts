@@ -0,0 +1,171 @@
+import { ExerciseType, PoseLandmark } from '../ExerciseAnalyzer';
+import { CameraView } from '../analysis/BiomechanicalAnalyzer';
+import { SideIndices, SIDE_INDICES } from '../analysis/BodySide';
+import { ViewEstimate, ViewEstimator, MIN_VIEW_CONFIDENCE } from '../analysis/ViewEstimator';
+import { FrameSize } from '../skeleton/SkeletonAdapters';
+import { frameAspect, toIsotropic } from '../skeleton/FrameSpace';
+import { t } from '../../i18n/Messages';
+
+/**
+ * Setup Check - Framing and camera placement before a live set is counted
+ *
+ * Every exercise needs some joints in frame and some camera angle for its
+ * checks to run (knee valgus is judged from the front, squat depth from the
+ * side; at 45° neither runs). Until the athlete is framed right the set would
+ * be scored from a cropped or wrong-angle view, so the live screen holds off
+ * counting and shows what to change instead:
+ *   1. every required joint inside the frame ("Step back")
+ *   2. ...and tracked on the side facing the camera (on both sides when filmed
+ *      from the front)
+ *   3. the body big enough in the frame ("Step closer")
+ *   4. a camera angle the exercise is judged from ("Turn 90°")
+ * Setup passes once all of them have held for SETUP_CONFIRM_MS; it isn't
+ * re-checked mid-set (moving through a rep hides joints for a moment).
+ */
+export type SetupIssue =
+    | 'noPose' | 'stepBack' | 'wholeBody' | 'stepCloser' | 'holdStill'
+    | 'turn90Side' | 'turn90Front' | 'turnSide' | 'turnFront' | 'frontOrSide';
+
+export interface SetupStatus {
+    ready: boolean;
+    issue: SetupIssue | null; // What to fix (null once it all passes)
+    message: string;          // Localized guidance
+}
+
+type Joint = keyof SideIndices;
+
+interface SetupRequirements {
+    joints: Joint[];
+    views: CameraView[]; // Views the exercise's checks are judged from
+}
+
+const ARMS: Joint[] = ['shoulder', 'elbow', 'wrist', 'hip'];
+const LEGS: Joint[] = ['shoulder', 'hip', 'knee', 'ankle'];
+const WHOLE_BODY: Joint[] = ['shoulder', 'elbow', 'wrist', 'hip', 'knee', 'ankle'];
+
+const FRONT_OR_SIDE: CameraView[] = ['Front', 'Side'];
+const ANY_VIEW: CameraView[] = ['Front', '45', 'Side'];
+
+const REQUIREMENTS: Record<ExerciseType, SetupRequirements> = {
+    'Barbell Biceps Curl': { joints: ARMS, views: FRONT_OR_SIDE },
+    'Bench Press': { joints: ARMS, views: FRONT_OR_SIDE },
+    'Chest Fly Machine': { joints: ARMS, views: FRONT_OR_SIDE },
+    'Incline Bench Press': { joints: ARMS, views: FRONT_OR_SIDE },
+    'Lat Pulldown': { joints: ARMS, views: FRONT_OR_SIDE },
+    'Lateral Raises': { joints: ARMS, views: ['Front'] },
+    'Leg Extension': { joints: LEGS, views: ['Side'] },
+    'Leg Raises': { joints: LEGS, views: FRONT_OR_SIDE },
+    'Plank': { joints: LEGS, views: ['Side'] },
+    'Pull Up': { joints: ARMS, views: FRONT_OR_SIDE },
+    'Push Up': { joints: WHOLE_BODY, views: ['Side', '45'] },
+    'Russian Twist': { joints: ['shoulder', 'wrist', 'hip', 'knee'], views: ANY_VIEW },
+    'Squat': { joints: LEGS, views: FRONT_OR_SIDE },
+    'T-Bar Row': { joints: [...ARMS, 'knee'], views: ['Side'] },
+    'Tricep Dips': { joints: ARMS, views: FRONT_OR_SIDE },
+    'Auto-Detect': { joints: WHOLE_BODY, views: ANY_VIEW },
+    'Alternating Dumbbell Curl': { joints: ARMS, views: ANY_VIEW },
+    'Single Arm Dumbbell Row': { joints: [...ARMS, 'knee'], views: FRONT_OR_SIDE },
+    'Alternating Lunge': { joints: LEGS, views: FRONT_OR_SIDE },
+    'Side Plank': { joints: LEGS, views: ['Front', '45'] },
+    'Wall Sit': { joints: LEGS, views: ['Side'] },
+    'Dead Hang': { joints: ARMS, views: ANY_VIEW },
+    'Hollow Hold': { joints: LEGS, views: ['Side'] }
+};
+
+// Distance from the frame edge a joint must stay inside (frame-height units)
+const EDGE_MARGIN = 0.02;
+
+// Visibility a required joint needs (the far side of a side view is exempt)
+const MIN_JOINT_VISIBILITY = 0.5;
+
+// Torso length (or shoulder width, when the torso points at the camera) needed
+// in normalized units; ~0.12 is a standing body about half the frame tall
+const MIN_TORSO_SIZE = 0.12;
+
+// All checks must pass for this long before counting starts
+export const SETUP_CONFIRM_MS = 1000;
+
+export class SetupCheck {
+    private exercise: ExerciseType = 'Auto-Detect';
+    private viewEstimator = new ViewEstimator();
+    private passingSince: number | null = null;
+    private ready = false;
+
+    setExercise(exercise: ExerciseType) {
+        this.exercise = exercise;
+        this.reset();
+    }
+
+    // Check again from scratch (new exercise, camera switched)
+    reset() {
+        this.viewEstimator.reset();
+        this.passingSince = null;
+        this.ready = false;
+    }
+
+    isReady(): boolean {
+        return this.ready;
+    }
+
+    // Same landmarks and frame size as GeometricRuleEngine.analyzeFrame
+    update(landmarks: PoseLandmark[], now: number, frameSize?: FrameSize | null): SetupStatus {
+        if (this.ready) return { ready: true, issue: null, message: '' };
+
+        const square = toIsotropic(landmarks, frameSize);
+        const estimate = this.viewEstimator.estimate(square);
+        const issue = setupIssue(square, frameAspect(frameSize), REQUIREMENTS[this.exercise], estimate);
+        if (issue) {
+            this.passingSince = null;
+            return { ready: false, issue, message: t(`setup.${issue}`) };
+        }
+
+        if (this.passingSince === null) this.passingSince = now;
+        this.ready = now - this.passingSince >= SETUP_CONFIRM_MS;
+        return { ready: this.ready, issue: null, message: this.ready ? '' : t('setup.almost') };
+    }
+}
+
+/**
+ * First thing wrong with the framing for these requirements (null when it all passes).
+ * Landmarks are in frame-height units; the frame spans 0..aspect horizontally.
+ */
+function setupIssue(landmarks: PoseLandmark[], aspect: number, requirements: SetupRequirements, estimate: ViewEstimate): SetupIssue | null {
+    if (!landmarks || landmarks.length < 33) return 'noPose';
+
+    const both = requirements.joints.map(joint => [landmarks[SIDE_INDICES.left[joint]], landmarks[SIDE_INDICES.right[joint]]]);
+    const points = both.reduce((all, pair) => all.concat(pair), [] as PoseLandmark[]);
+
+    // Cropped: MediaPipe extrapolates joints past the edge of the image
+    if (points.some(p => p.x < EDGE_MARGIN || p.x > aspect - EDGE_MARGIN || p.y < EDGE_MARGIN || p.y > 1 - EDGE_MARGIN)) {
+        return 'stepBack';
+    }
+
+    // From the side only the near half is tracked; from the front both halves must be
+    const frontOn = estimate.view === 'Front';
+    const tracked = both.every(([left, right]) => {
+        const leftVis = left.visibility ?? 1;
+        const rightVis = right.visibility ?? 1;
+        return (frontOn ? Math.min(leftVis, rightVis) : Math.max(leftVis, rightVis)) >= MIN_JOINT_VISIBILITY;
+    });
+    if (!tracked) return 'wholeBody';
+
+    const [leftShoulder, rightShoulder] = [landmarks[SIDE_INDICES.left.shoulder], landmarks[SIDE_INDICES.right.shoulder]];
+    const [leftHip, rightHip] = [landmarks[SIDE_INDICES.left.hip], landmarks[SIDE_INDICES.right.hip]];
+    const torso = Math.hypot(
+        (leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2,
+        (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2
+    );
+    const shoulderWidth = Math.hypot(leftShoulder.x - rightShoulder.x, leftShoulder.y - rightShoulder.y);
+    if (Math.max(torso, shoulderWidth) < MIN_TORSO_SIZE) return 'stepCloser';
+
+    if (estimate.confidence < MIN_VIEW_CONFIDENCE) return 'holdStill';
+    if (requirements.views.includes(estimate.view)) return null;
+
+    const wantsFront = requirements.views.includes('Front');
+    const wantsSide = requirements.views.includes('Side');
+    if (estimate.view === 'Front') return 'turn90Side';
+    if (estimate.view === 'Side') return 'turn90Front';
+    // Halfway round (45°): finish the turn one way or the other
+    if (wantsFront && wantsSide) return 'frontOrSide';
+    return wantsSide ? 'turnSide' : 'turnFront';
+}
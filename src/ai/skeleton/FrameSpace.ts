@@ -0,0 +1,33 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { FrameSize } from './SkeletonAdapters';
+
+/**
+ * Frame Space - Square (isotropic) coordinates for analysis
+ *
+ * Pose models normalize each axis to its own image side: x by the width, y by
+ * the height. On a 9:16 portrait frame one unit of x is only 0.56 units of y,
+ * so every angle and distance that mixes the two is skewed - a 90° elbow reads
+ * anywhere from ~60° to ~120° depending on how the forearm is turned.
+ *
+ * The engine works in frame-height units instead: y is unchanged and x is
+ * scaled by width / height, so the image spans 0..aspect horizontally and 0..1
+ * vertically. Vertical distances (most of the tuned thresholds) keep their
+ * values. The overlay draws in the same space (see FormFeedbackOverlay).
+ *
+ * Without frame dimensions (older pose tracks, synthetic poses) landmarks are
+ * taken as already square.
+ */
+
+// Width / height of the frame (1 when unknown)
+export function frameAspect(frameSize?: FrameSize | null): number {
+    return frameSize && frameSize.width > 0 && frameSize.height > 0 ? frameSize.width / frameSize.height : 1;
+}
+
+/**
+ * Image-normalized landmarks -> frame-height units (world landmarks are metric and kept as is)
+ */
+export function toIsotropic(landmarks: PoseLandmark[], frameSize?: FrameSize | null): PoseLandmark[] {
+    const aspect = frameAspect(frameSize);
+    if (!landmarks || aspect === 1) return landmarks;
+    return landmarks.map(lm => ({ ...lm, x: lm.x * aspect }));
+}
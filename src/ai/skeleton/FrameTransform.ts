@@ -0,0 +1,134 @@
+import { PoseLandmark, WorldPoint } from '../ExerciseAnalyzer';
+import { CameraPosition } from '../recording/PoseTrack';
+import { withWorldLandmarks } from '../analysis/JointAngles';
+import { JointName, JOINT_INDEX } from './Skeleton';
+import { FrameSize } from './SkeletonAdapters';
+
+/**
+ * Frame Transform - Raw detections -> upright, correctly sided landmarks
+ *
+ * The pose model sees each image as it arrives: camera frames in the sensor's
+ * orientation (landscape however the phone is held), front-camera frames as a
+ * mirror image, video thumbnails as stored, before the file's rotation flag.
+ * Everything downstream assumes an upright athlete (y grows toward the feet)
+ * and anatomical sides (left* joints are the athlete's left), so each source
+ * describes its frames as a FrameTransform:
+ *   rotation  clockwise turn that brings the frame upright
+ *   mirrored  the upright frame is a mirror image. It is flipped back and the
+ *             left/right joints are swapped: the model labels the sides of the
+ *             mirrored figure, which are the athlete's opposite ones.
+ * orientPose() applies it to the image landmarks, the world landmarks and the
+ * frame size together.
+ */
+export type FrameRotation = 0 | 90 | 180 | 270;
+
+export interface FrameTransform {
+    rotation: FrameRotation;
+    mirrored: boolean;
+}
+
+// Same names and degrees as the camera library's Orientation
+export type DeviceOrientation = 'portrait' | 'landscape-left' | 'portrait-upside-down' | 'landscape-right';
+
+const ORIENTATION_DEGREES: Record<DeviceOrientation, number> = {
+    'portrait': 0,
+    'landscape-left': 90,
+    'portrait-upside-down': 180,
+    'landscape-right': 270
+};
+
+// Back camera of a phone held upright (sensor mounted at 90°, as on most phones)
+export const DEFAULT_CAMERA_TRANSFORM: FrameTransform = { rotation: 90, mirrored: false };
+
+export interface OrientedPose {
+    landmarks: PoseLandmark[]; // Upright and true-sided, world landmarks attached
+    frameSize: FrameSize;      // Size of the upright frame
+}
+
+/**
+ * Live camera frames: the sensor's mounting is undone against the way the phone
+ * is held (the front sensor faces the other way, so there the two add up).
+ * Front-camera frames arrive mirrored, like the preview.
+ */
+export function cameraFrameTransform(sensor: DeviceOrientation, device: DeviceOrientation, position: CameraPosition): FrameTransform {
+    const sensorDegrees = ORIENTATION_DEGREES[sensor];
+    const deviceDegrees = ORIENTATION_DEGREES[device];
+    const front = position === 'front';
+    return {
+        rotation: toRotation(front ? sensorDegrees + deviceDegrees : sensorDegrees - deviceDegrees),
+        mirrored: front
+    };
+}
+
+/**
+ * Video frames: thumbnails come out as stored. When their shape disagrees with
+ * the orientation the player shows the video in, the rotation flag wasn't
+ * applied; phones write 90° for video recorded upright.
+ */
+export function videoFrameTransform(frameSize: FrameSize, displayOrientation: 'portrait' | 'landscape' | null, mirrored = false): FrameTransform {
+    if (!displayOrientation) return { rotation: 0, mirrored };
+    const framePortrait = frameSize.height > frameSize.width;
+    return { rotation: framePortrait === (displayOrientation === 'portrait') ? 0 : 90, mirrored };
+}
+
+/**
+ * Image landmarks (normalized to the raw frame) and world landmarks -> upright, true-sided pose
+ */
+export function orientPose(
+    landmarks: PoseLandmark[],
+    world: WorldPoint[] | null | undefined,
+    frameSize: FrameSize,
+    transform: FrameTransform
+): OrientedPose {
+    const turned = transform.rotation === 90 || transform.rotation === 270;
+    const oriented = withWorldLandmarks(landmarks, world).map(lm => {
+        const point = rotateImagePoint(lm, transform.rotation);
+        const worldPoint = lm.world ? rotateWorldPoint(lm.world, transform.rotation) : undefined;
+        if (transform.mirrored) {
+            point.x = 1 - point.x;
+            if (worldPoint) worldPoint.x = -worldPoint.x;
+        }
+        return { ...lm, ...point, ...(worldPoint ? { world: worldPoint } : {}) };
+    });
+
+    return {
+        landmarks: transform.mirrored ? swapSides(oriented) : oriented,
+        frameSize: turned ? { width: frameSize.height, height: frameSize.width } : frameSize
+    };
+}
+
+function toRotation(degrees: number): FrameRotation {
+    return (((degrees % 360) + 360) % 360) as FrameRotation;
+}
+
+// Normalized image point turned clockwise with the frame
+function rotateImagePoint(p: { x: number; y: number }, rotation: FrameRotation): { x: number; y: number } {
+    switch (rotation) {
+        case 90: return { x: 1 - p.y, y: p.x };
+        case 180: return { x: 1 - p.x, y: 1 - p.y };
+        case 270: return { x: p.y, y: 1 - p.x };
+        default: return { x: p.x, y: p.y };
+    }
+}
+
+// World landmarks share the image axes (x right, y down) around the hips, so no offset
+function rotateWorldPoint(p: WorldPoint, rotation: FrameRotation): WorldPoint {
+    switch (rotation) {
+        case 90: return { x: -p.y, y: p.x, z: p.z };
+        case 180: return { x: -p.x, y: -p.y, z: p.z };
+        case 270: return { x: p.y, y: -p.x, z: p.z };
+        default: return { x: p.x, y: p.y, z: p.z };
+    }
+}
+
+// Index of each joint's other-side counterpart (itself for the nose)
+const OPPOSITE_INDEX: number[] = (Object.keys(JOINT_INDEX) as JointName[]).reduce((opposite, joint) => {
+    const other = joint.replace(/left|right|Left|Right/, side =>
+        ({ left: 'right', right: 'left', Left: 'Right', Right: 'Left' } as Record<string, string>)[side]) as JointName;
+    opposite[JOINT_INDEX[joint]] = JOINT_INDEX[other];
+    return opposite;
+}, [] as number[]);
+
+function swapSides(landmarks: PoseLandmark[]): PoseLandmark[] {
+    return landmarks.map((lm, i) => landmarks[OPPOSITE_INDEX[i] ?? i] ?? lm);
+}
@@ -0,0 +1,69 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+
+/**
+ * Skeleton - Named joints on top of the canonical landmark layout
+ *
+ * The engine works on the 33-point MediaPipe BlazePose layout internally
+ * (classifier, analyzers and overlay all index into it). Other pose models are
+ * converted to this layout by the adapters in SkeletonAdapters.ts; joints a model
+ * does not produce are filled with a placeholder at the nearest real joint and
+ * MISSING_JOINT_VISIBILITY, so checks can detect them with isJointAvailable().
+ */
+export type JointName =
+    | 'nose'
+    | 'leftEyeInner' | 'leftEye' | 'leftEyeOuter'
+    | 'rightEyeInner' | 'rightEye' | 'rightEyeOuter'
+    | 'leftEar' | 'rightEar'
+    | 'mouthLeft' | 'mouthRight'
+    | 'leftShoulder' | 'rightShoulder'
+    | 'leftElbow' | 'rightElbow'
+    | 'leftWrist' | 'rightWrist'
+    | 'leftPinky' | 'rightPinky'
+    | 'leftIndex' | 'rightIndex'
+    | 'leftThumb' | 'rightThumb'
+    | 'leftHip' | 'rightHip'
+    | 'leftKnee' | 'rightKnee'
+    | 'leftAnkle' | 'rightAnkle'
+    | 'leftHeel' | 'rightHeel'
+    | 'leftFootIndex' | 'rightFootIndex';
+
+// Canonical (BlazePose-33) index of every joint
+export const JOINT_INDEX: Record<JointName, number> = {
+    nose: 0,
+    leftEyeInner: 1, leftEye: 2, leftEyeOuter: 3,
+    rightEyeInner: 4, rightEye: 5, rightEyeOuter: 6,
+    leftEar: 7, rightEar: 8,
+    mouthLeft: 9, mouthRight: 10,
+    leftShoulder: 11, rightShoulder: 12,
+    leftElbow: 13, rightElbow: 14,
+    leftWrist: 15, rightWrist: 16,
+    leftPinky: 17, rightPinky: 18,
+    leftIndex: 19, rightIndex: 20,
+    leftThumb: 21, rightThumb: 22,
+    leftHip: 23, rightHip: 24,
+    leftKnee: 25, rightKnee: 26,
+    leftAnkle: 27, rightAnkle: 28,
+    leftHeel: 29, rightHeel: 30,
+    leftFootIndex: 31, rightFootIndex: 32
+};
+
+export const CANONICAL_JOINT_COUNT = 33;
+
+// Visibility assigned to joints the source model does not provide
+export const MISSING_JOINT_VISIBILITY = 0;
+
+export function getJoint(landmarks: PoseLandmark[], joint: JointName): PoseLandmark {
+    return landmarks[JOINT_INDEX[joint]];
+}
+
+/**
+ * False when the joint was synthesized by an adapter (or is absent entirely).
+ * Use it to skip checks that depend on joints some models don't track (heels, toes, hands).
+ */
+export function isJointAvailable(landmarks: PoseLandmark[], joint: JointName): boolean {
+    return isLandmarkAvailable(landmarks[JOINT_INDEX[joint]]);
+}
+
+export function isLandmarkAvailable(lm: PoseLandmark | undefined): boolean {
+    return !!lm && (lm.visibility ?? 1) > MISSING_JOINT_VISIBILITY;
+}
@@ -0,0 +1,124 @@
+import { PoseLandmark } from '../ExerciseAnalyzer';
+import { JointName, JOINT_INDEX, CANONICAL_JOINT_COUNT, MISSING_JOINT_VISIBILITY } from './Skeleton';
+
+/**
+ * Skeleton Adapters - Convert other pose models to the canonical 33-joint layout
+ *
+ * - BlazePose-33: MediaPipe Pose (passthrough)
+ * - COCO-17: OpenPose/YOLO-pose/RTMPose style keypoints
+ * - MoveNet: COCO-17 ordering, emitted as [y, x, score] tuples
+ *
+ * All adapters expect coordinates normalized to 0-1 (pass frameSize to
+ * normalize pixel coordinates).
+ */
+export type SkeletonFormat = 'blazepose33' | 'coco17' | 'movenet';
+
+export interface RawKeypoint {
+    x: number;
+    y: number;
+    z?: number;
+    score?: number;      // COCO / MoveNet confidence
+    visibility?: number; // MediaPipe visibility
+}
+
+// MoveNet output row: [y, x, score]
+export type MoveNetKeypoint = [number, number, number];
+
+export interface FrameSize {
+    width: number;
+    height: number;
+}
+
+// COCO-17 keypoint order (shared by MoveNet)
+const COCO17_JOINTS: JointName[] = [
+    'nose',
+    'leftEye', 'rightEye',
+    'leftEar', 'rightEar',
+    'leftShoulder', 'rightShoulder',
+    'leftElbow', 'rightElbow',
+    'leftWrist', 'rightWrist',
+    'leftHip', 'rightHip',
+    'leftKnee', 'rightKnee',
+    'leftAnkle', 'rightAnkle'
+];
+
+// Where to place joints a model doesn't track (placeholder position only)
+const FALLBACK_JOINT: Partial<Record<JointName, JointName>> = {
+    leftEyeInner: 'leftEye', leftEyeOuter: 'leftEye',
+    rightEyeInner: 'rightEye', rightEyeOuter: 'rightEye',
+    mouthLeft: 'nose', mouthRight: 'nose',
+    leftPinky: 'leftWrist', leftIndex: 'leftWrist', leftThumb: 'leftWrist',
+    rightPinky: 'rightWrist', rightIndex: 'rightWrist', rightThumb: 'rightWrist',
+    leftHeel: 'leftAnkle', leftFootIndex: 'leftAnkle',
+    rightHeel: 'rightAnkle', rightFootIndex: 'rightAnkle'
+};
+
+export function fromBlazePose33(keypoints: RawKeypoint[], frameSize?: FrameSize): PoseLandmark[] {
+    return keypoints.slice(0, CANONICAL_JOINT_COUNT).map(kp => toLandmark(kp, frameSize));
+}
+
+export function fromCoco17(keypoints: RawKeypoint[], frameSize?: FrameSize): PoseLandmark[] {
+    const named: Partial<Record<JointName, PoseLandmark>> = {};
+    COCO17_JOINTS.forEach((joint, i) => {
+        if (keypoints[i]) named[joint] = toLandmark(keypoints[i], frameSize);
+    });
+    return toCanonical(named);
+}
+
+export function fromMoveNet(keypoints: MoveNetKeypoint[], frameSize?: FrameSize): PoseLandmark[] {
+    return fromCoco17(keypoints.map(([y, x, score]) => ({ x, y, score })), frameSize);
+}
+
+/**
+ * Detect the layout from the keypoint count (33 = BlazePose, 17 = COCO)
+ * and convert to canonical landmarks. Unknown layouts are returned unchanged.
+ */
+export function adaptToCanonical(keypoints: RawKeypoint[]): PoseLandmark[] {
+    if (keypoints.length === CANONICAL_JOINT_COUNT) return keypoints as PoseLandmark[];
+    if (keypoints.length === COCO17_JOINTS.length) return fromCoco17(keypoints);
+    return keypoints as PoseLandmark[];
+}
+
+export function convertSkeleton(format: SkeletonFormat, keypoints: RawKeypoint[] | MoveNetKeypoint[], frameSize?: FrameSize): PoseLandmark[] {
+    switch (format) {
+        case 'coco17': return fromCoco17(keypoints as RawKeypoint[], frameSize);
+        case 'movenet': return fromMoveNet(keypoints as MoveNetKeypoint[], frameSize);
+        default: return fromBlazePose33(keypoints as RawKeypoint[], frameSize);
+    }
+}
+
+// --- Helpers ---
+
+function toLandmark(kp: RawKeypoint, frameSize?: FrameSize): PoseLandmark {
+    return {
+        x: frameSize ? kp.x / frameSize.width : kp.x,
+        y: frameSize ? kp.y / frameSize.height : kp.y,
+        z: kp.z ?? 0,
+        visibility: kp.visibility ?? kp.score ?? 1
+    };
+}
+
+function toCanonical(named: Partial<Record<JointName, PoseLandmark>>): PoseLandmark[] {
+    const landmarks: PoseLandmark[] = new Array(CANONICAL_JOINT_COUNT);
+
+    (Object.keys(JOINT_INDEX) as JointName[]).forEach(joint => {
+        const index = JOINT_INDEX[joint];
+        const source = named[joint];
+        if (source) {
+            landmarks[index] = source;
+            return;
+        }
+
+        // Synthesize a placeholder near the closest tracked joint
+        const fallback = FALLBACK_JOINT[joint];
+        const anchor = (fallback && named[fallback]) || named.nose;
+        landmarks[index] = {
+            x: anchor ? anchor.x : 0,
+            y: anchor ? anchor.y : 0,
+            z: anchor ? anchor.z : 0,
+            visibility: MISSING_JOINT_VISIBILITY
+        };
+    });
+
+    return landmarks;
+}
@@ -0,0 +1,242 @@
+import { RepRecord, CountMode } from '../reps/RepCounter';
+import { t } from '../../i18n/Messages';
+
+/**
+ * Tempo - Rep phase timing vs a prescribed tempo
+ *
+ * Tempo notation "3-1-1-0" = eccentric - bottom pause - concentric - top pause (seconds).
+ * "Bottom" is the end of the eccentric (stretched position), "Top" the end of the
+ * concentric (contracted position), as in RepCounter's phase names for both
+ * count modes. 'X' (explosive) is read as 0.
+ */
+export interface RepTempo {
+    eccentric: number;   // s
+    bottomPause: number; // s
+    concentric: number;  // s
+    topPause: number;    // s
+}
+
+export type TempoPrescription = RepTempo;
+
+export type TempoPhase = keyof RepTempo;
+
+export interface TempoSummary {
+    reps: number;
+    tempos: RepTempo[];        // Per rep, in order
+    average: RepTempo;
+    consistency: number;       // 0-100, how alike the reps were (100 = identical timing)
+    adherence: number | null;  // 0-100 vs the prescription (null without one)
+    prescription: TempoPrescription | null;
+}
+
+const PHASES: TempoPhase[] = ['eccentric', 'bottomPause', 'concentric', 'topPause'];
+
+// A phase is off when it misses the prescription by more than this fraction (and TEMPO_TOLERANCE_S)
+const TEMPO_TOLERANCE = 0.3;
+const TEMPO_TOLERANCE_S = 0.4;
+
+// Rest between sets is not a pause within the rep
+const MAX_PAUSE_S = 5;
+
+// Position speed (full ranges per second) below which the lifter is holding still
+const HOLD_VELOCITY = 0.1;
+const VELOCITY_SMOOTHING = 0.5;
+
+/**
+ * Parse "3-1-1-0" / "3110" / "2-0-X-1". Returns null when the string isn't a tempo.
+ */
+export function parseTempo(text: string): TempoPrescription | null {
+    const parts = text.includes('-') ? text.split('-') : text.trim().split('');
+    if (parts.length !== 4) return null;
+
+    // One digit (seconds) or X per phase; "3--1-1" has an empty part, not a 0
+    const digits = parts.map(p => p.trim().toUpperCase());
+    if (digits.some(v => !/^([0-9]|X)$/.test(v))) return null;
+    const values = digits.map(v => (v === 'X' ? 0 : Number(v)));
+
+    return { eccentric: values[0], bottomPause: values[1], concentric: values[2], topPause: values[3] };
+}
+
+export function formatTempo(tempo: RepTempo): string {
+    return PHASES.map(phase => {
+        const v = tempo[phase];
+        return Number.isInteger(v) ? String(v) : v.toFixed(1);
+    }).join('-');
+}
+
+/**
+ * Times the four tempo phases from the rep position signal (0 = start, 1 = full range).
+ *
+ * RepCounter's phase thresholds only mark rep boundaries: its Eccentric/Concentric
+ * states cover the middle of the range, so the motion at either end would count
+ * as pauses. Here every frame is timed by what the position is doing - moving
+ * down or up the range, or holding still near one end.
+ *
+ * A rep's tempo covers everything since the previous rep ended, plus the rest of
+ * its return movement that continues after RepCounter already counted it. Time
+ * spent still before the first movement of the set (or after a false start) is
+ * setup, not part of the first rep's pause.
+ */
+export class TempoTracker {
+    private highPhase: TempoPhase;  // Pause at full range (completion 1)
+    private lowPhase: TempoPhase;   // Pause at the start position (completion 0)
+    private rising: TempoPhase;     // Moving towards full range
+    private falling: TempoPhase;    // Moving back to the start
+
+    private pending = emptyTempo(); // Since the previous rep ended
+    private tail: RepTempo | null = null; // Finished rep still completing its return
+    private started = false; // A rep has begun moving (earlier time is setup)
+    private lastPosition: number | null = null;
+    private lastTime: number | null = null;
+    private velocity = 0;
+
+    constructor(mode: CountMode) {
+        // EccentricFirst (Squat): full range is the bottom; ConcentricFirst (Curl): the top
+        const eccentricFirst = mode === 'EccentricFirst';
+        this.highPhase = eccentricFirst ? 'bottomPause' : 'topPause';
+        this.lowPhase = eccentricFirst ? 'topPause' : 'bottomPause';
+        this.rising = eccentricFirst ? 'eccentric' : 'concentric';
+        this.falling = eccentricFirst ? 'concentric' : 'eccentric';
+    }
+
+    update(position: number, timestamp: number) {
+        if (this.lastPosition === null || this.lastTime === null || timestamp <= this.lastTime) {
+            this.lastPosition = position;
+            this.lastTime = timestamp;
+            return;
+        }
+
+        const dt = (timestamp - this.lastTime) / 1000;
+        const raw = (position - this.lastPosition) / dt;
+        this.velocity = this.velocity + VELOCITY_SMOOTHING * (raw - this.velocity);
+        this.lastPosition = position;
+        this.lastTime = timestamp;
+
+        let phase: TempoPhase;
+        if (this.velocity > HOLD_VELOCITY) phase = this.rising;
+        else if (this.velocity < -HOLD_VELOCITY) phase = this.falling;
+        else phase = position >= 0.5 ? this.highPhase : this.lowPhase;
+
+        // The counted rep is still on its way back to the start
+        if (this.tail && phase === this.falling) {
+            this.tail[phase] += dt;
+            return;
+        }
+        this.tail = null;
+        if (!this.started && phase !== this.rising) return;
+        this.started = true;
+        this.pending[phase] += dt;
+    }
+
+    /**
+     * The rep just counted. The returned object keeps growing while the
+     * return movement continues.
+     */
+    finishRep(): RepTempo {
+        const tempo = this.pending;
+        tempo.bottomPause = Math.min(MAX_PAUSE_S, tempo.bottomPause);
+        tempo.topPause = Math.min(MAX_PAUSE_S, tempo.topPause);
+
+        this.tail = tempo;
+        this.pending = emptyTempo();
+        return tempo;
+    }
+
+    // False start: the aborted movement belongs to no rep
+    discard() {
+        this.pending = emptyTempo();
+        this.started = false;
+    }
+
+    reset() {
+        this.pending = emptyTempo();
+        this.tail = null;
+        this.started = false;
+        this.lastPosition = null;
+        this.lastTime = null;
+        this.velocity = 0;
+    }
+}
+
+/**
+ * The phase that missed the prescription the most, or null when on tempo.
+ */
+export function tempoCue(tempo: RepTempo, prescription: TempoPrescription): string | null {
+    let worstPhase: TempoPhase | null = null;
+    let worstMiss = 1; // Error in tolerances; <= 1 is on tempo
+
+    for (const phase of PHASES) {
+        const miss = Math.abs(tempo[phase] - prescription[phase]) / tolerance(prescription[phase]);
+        if (miss > worstMiss) {
+            worstPhase = phase;
+            worstMiss = miss;
+        }
+    }
+
+    if (!worstPhase) return null;
+    // Cues are tempo.<phase>.tooFast / tooSlow in the message catalogs
+    return t(`tempo.${worstPhase}.${tempo[worstPhase] < prescription[worstPhase] ? 'tooFast' : 'tooSlow'}`);
+}
+
+/**
+ * Per-set tempo metrics from the set's rep records.
+ */
+export function summarizeTempo(records: RepRecord[], prescription: TempoPrescription | null = null): TempoSummary {
+    const tempos = records.map(r => r.tempo);
+    const average = {} as RepTempo;
+    PHASES.forEach(phase => { average[phase] = mean(tempos.map(t => t[phase])); });
+
+    return {
+        reps: tempos.length,
+        tempos,
+        average,
+        consistency: tempoConsistency(tempos),
+        adherence: prescription ? tempoAdherence(tempos, prescription) : null,
+        prescription
+    };
+}
+
+// --- Helpers ---
+
+// 100 minus the mean coefficient of variation of the moving phases and total rep time
+function tempoConsistency(tempos: RepTempo[]): number {
+    if (tempos.length < 2) return 100;
+
+    const series = [
+        tempos.map(t => t.eccentric),
+        tempos.map(t => t.concentric),
+        tempos.map(t => t.eccentric + t.bottomPause + t.concentric)
+    ];
+    const cv = mean(series.map(values => {
+        const m = mean(values);
+        if (m === 0) return 0;
+        const sd = Math.sqrt(mean(values.map(v => (v - m) * (v - m))));
+        return sd / m;
+    }));
+
+    return Math.round(Math.max(0, Math.min(100, 100 * (1 - cv))));
+}
+
+// Share of rep phases that landed within tolerance of the prescription
+function tempoAdherence(tempos: RepTempo[], prescription: TempoPrescription): number {
+    if (tempos.length === 0) return 100;
+
+    let onTempo = 0;
+    tempos.forEach(t => PHASES.forEach(phase => {
+        if (Math.abs(t[phase] - prescription[phase]) <= tolerance(prescription[phase])) onTempo++;
+    }));
+
+    return Math.round(100 * onTempo / (tempos.length * PHASES.length));
+}
+
+function emptyTempo(): RepTempo {
+    return { eccentric: 0, bottomPause: 0, concentric: 0, topPause: 0 };
+}
+
+function tolerance(target: number): number {
+    return Math.max(TEMPO_TOLERANCE_S, target * TEMPO_TOLERANCE);
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
@@ -2,10 +2,16 @@ import React from 'react';
 import { View, StyleSheet } from 'react-native';
 import Svg, { Line, Circle } from 'react-native-svg';
 import { PoseLandmark, Feedback } from '../ai/ExerciseAnalyzer';
+import { FrameSize } from '../ai/skeleton/SkeletonAdapters';
+import { frameAspect } from '../ai/skeleton/FrameSpace';
 
 interface Props {
-    landmarks: PoseLandmark[];
+    landmarks: PoseLandmark[]; // Image-normalized (0-1 on each axis), as detected
     feedback: Feedback;
+    // Image the landmarks came from and how the camera/video view fits it on screen.
+    // Without a frame size the skeleton is drawn into a square, as before.
+    frameSize?: FrameSize | null;
+    fit?: 'contain' | 'cover';
 }
 
 const CONNECTIONS = [
@@ -18,18 +24,21 @@ const CONNECTIONS = [
     [24, 26], [26, 28]  // right leg
 ];
 
-export const FormFeedbackOverlay = ({ landmarks, feedback }: Props) => {
+export const FormFeedbackOverlay = ({ landmarks, feedback, frameSize, fit = 'contain' }: Props) => {
     if (!landmarks || landmarks.length === 0) return null;
 
     const color = feedback.isGoodForm ? '#44FF44' : '#FF4444';
     const width = 2; // Stroke width
 
-    // Mapping normalized coordinates (0-1) to screen size is handled by the parent 
-    // or we assume full screen SVG. Landmarks from VisionCamera/MediaPipe might be normalized.
+    // Drawn in frame-height units like the engine (x scaled by the aspect), in a
+    // viewBox of the frame's shape fitted the same way as the picture under it
+    const aspect = frameAspect(frameSize);
+    const viewWidth = 100 * aspect;
+    const preserveAspectRatio = frameSize ? (fit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet') : undefined;
 
     return (
         <View style={StyleSheet.absoluteFill} pointerEvents="none">
-            <Svg height="100%" width="100%" viewBox="0 0 100 100">
+            <Svg height="100%" width="100%" viewBox={`0 0 ${viewWidth} 100`} preserveAspectRatio={preserveAspectRatio}>
                 {CONNECTIONS.map(([start, end], index) => {
                     const p1 = landmarks[start];
                     const p2 = landmarks[end];
@@ -38,9 +47,9 @@ export const FormFeedbackOverlay = ({ landmarks, feedback }: Props) => {
                     return (
                         <Line
                             key={index}
-                            x1={p1.x * 100}
+                            x1={p1.x * viewWidth}
                             y1={p1.y * 100}
-                            x2={p2.x * 100}
+                            x2={p2.x * viewWidth}
                             y2={p2.y * 100}
                             stroke={color}
                             strokeWidth={width / 10} // Scaled relative to viewBox
@@ -51,7 +60,7 @@ export const FormFeedbackOverlay = ({ landmarks, feedback }: Props) => {
                     index > 10 && ( // Skip face landmarks for cleaner look
                         <Circle
                             key={index}
-                            cx={lm.x * 100}
+                            cx={lm.x * viewWidth}
                             cy={lm.y * 100}
                             r={0.5}
                             fill="white"
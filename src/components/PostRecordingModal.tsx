@@ -2,23 +2,48 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
 import Svg, { Path, Circle } from 'react-native-svg';
 import { COLORS, FONTS, SPACING } from '../constants/theme';
+import { ExerciseSegment } from '../ai/session/SessionSegmenter';
+import { TempoSummary, formatTempo } from '../ai/tempo/Tempo';
+import { RepAttempt, formatAttempts } from '../ai/reps/RepCounter';
+import { UnilateralSummary } from '../ai/exercises/UnilateralAnalyzer';
+import { HoldSummary } from '../ai/holds/HoldTimer';
+import { isHoldExercise } from '../ai/ExerciseAnalyzer';
+import { FaultSummary, formatFaultStat } from '../ai/faults/FormFault';
+
+const MAX_FAULTS_SHOWN = 3;
 
 interface Props {
     visible: boolean;
     repCount: number;
     duration: number;
     exerciseName?: string; // Detected exercise name for display
+    segments?: ExerciseSegment[]; // Exercise blocks (listed when the session had more than one)
+    tempo?: TempoSummary; // Average rep tempo and set consistency
+    attempts?: RepAttempt[]; // Partial and failed attempts (not in repCount)
+    sides?: UnilateralSummary; // Per-side reps and asymmetry (unilateral exercises)
+    hold?: HoldSummary; // Time held, breaks and quality (holds; repCount is then seconds)
+    faults?: FaultSummary; // Most common form faults of the session
     onAnalyze: () => void;
     onDiscard: () => void;
 }
 
-export default function PostRecordingModal({ visible, repCount, duration, exerciseName, onAnalyze, onDiscard }: Props) {
+export default function PostRecordingModal({ visible, repCount, duration, exerciseName, segments, tempo, attempts = [], sides, hold, faults, onAnalyze, onDiscard }: Props) {
     const formatDuration = (seconds: number): string => {
         const mins = Math.floor(seconds / 60);
         const secs = Math.floor(seconds % 60);
         return `${mins}:${secs.toString().padStart(2, '0')}`;
     };
 
+    const attemptsText = formatAttempts(
+        attempts.filter(a => a.outcome === 'partial').length,
+        attempts.filter(a => a.outcome === 'failed').length
+    );
+
+    // With reps, only faults that showed up during a rep
+    const topFaults = faults
+        ? faults.faults.filter(stat => faults.reps === 0 || stat.reps > 0).slice(0, MAX_FAULTS_SHOWN)
+        : [];
+
     return (
         <Modal
             visible={visible}
@@ -61,8 +86,8 @@ export default function PostRecordingModal({ visible, repCount, duration, exerci
                             </>
                         )}
                         <View style={styles.statItem}>
-                            <Text style={styles.statValue}>{repCount}</Text>
-                            <Text style={styles.statLabel}>REPS</Text>
+                            <Text style={styles.statValue}>{hold ? formatDuration(hold.seconds) : repCount}</Text>
+                            <Text style={styles.statLabel}>{hold ? 'HELD' : 'REPS'}</Text>
                         </View>
                         <View style={styles.statDivider} />
                         <View style={styles.statItem}>
@@ -71,6 +96,56 @@ export default function PostRecordingModal({ visible, repCount, duration, exerci
                         </View>
                     </View>
 
+                    {/* Attempts that didn't count */}
+                    {attemptsText !== '' && (
+                        <Text style={styles.summaryText}>{repCount} reps, {attemptsText}</Text>
+                    )}
+
+                    {/* Left / right (unilateral exercises) */}
+                    {sides && (
+                        <Text style={styles.summaryText}>
+                            Left {sides.left.reps} ({sides.left.averageScore}) • Right {sides.right.reps} ({sides.right.averageScore}) • Asymmetry {sides.asymmetry.range}%
+                        </Text>
+                    )}
+
+                    {/* Hold */}
+                    {hold && (
+                        <Text style={styles.summaryText}>
+                            {hold.target !== null ? `Target ${formatDuration(hold.target)} ${hold.targetReached ? 'reached' : 'missed'} • ` : ''}
+                            Longest {formatDuration(hold.longest)} • {hold.breaks.length} {hold.breaks.length === 1 ? 'break' : 'breaks'} • Quality {hold.quality}
+                        </Text>
+                    )}
+
+                    {/* Tempo */}
+                    {tempo && tempo.reps > 1 && (
+                        <Text style={styles.summaryText}>
+                            Tempo {formatTempo(tempo.average)} • Consistency {tempo.consistency}%
+                            {tempo.adherence !== null ? ` • On tempo ${tempo.adherence}%` : ''}
+                        </Text>
+                    )}
+
+                    {/* Most common faults */}
+                    {faults && topFaults.length > 0 && (
+                        <Text style={styles.summaryText}>
+                            {topFaults.map(stat => formatFaultStat(stat, faults)).join('\n')}
+                        </Text>
+                    )}
+
+                    {/* Exercise Blocks (circuit sessions) */}
+                    {segments && segments.length > 1 && (
+                        <View style={styles.segmentList}>
+                            {segments.map((segment, index) => (
+                                <View key={`${segment.exercise}-${segment.startTime}`} style={styles.segmentRow}>
+                                    <Text style={styles.segmentName}>{index + 1}. {segment.exercise}</Text>
+                                    <Text style={styles.segmentStats}>
+                                        {isHoldExercise(segment.exercise) ? formatDuration(segment.reps) : `${segment.reps} reps`}
+                                        {segment.partialReps + segment.failedReps > 0 ? ` (${formatAttempts(segment.partialReps, segment.failedReps)})` : ''} • {segment.averageScore}
+                                    </Text>
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
                     {/* Description */}
                     <Text style={styles.description}>
                         Send your video to the AI coach for detailed form analysis with scores on stability, posture, range of motion, and more.
@@ -161,6 +236,32 @@ const styles = StyleSheet.create({
         height: 40,
         backgroundColor: 'rgba(255, 255, 255, 0.1)',
     },
+    summaryText: {
+        color: COLORS.textDim,
+        fontSize: 13,
+        textAlign: 'center',
+        marginBottom: SPACING.l,
+    },
+    segmentList: {
+        width: '100%',
+        marginBottom: SPACING.l,
+    },
+    segmentRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        paddingVertical: SPACING.xs,
+        borderBottomWidth: 1,
+        borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    segmentName: {
+        color: COLORS.text,
+        fontSize: 13,
+        fontWeight: 'bold',
+    },
+    segmentStats: {
+        color: COLORS.textDim,
+        fontSize: 13,
+    },
     description: {
         color: COLORS.textDim,
         fontSize: 13,
@@ -0,0 +1,124 @@
+import en from './locales/en.json';
+import ar from './locales/ar.json';
+
+/**
+ * Messages - Localized user-facing text
+ *
+ * Every cue the coach shows and every label on the camera and results
+ * screens is looked up here by key ("faults.kneeValgus.message",
+ * "camera.score"). Catalogs live in ./locales, one JSON file per locale;
+ * en.json is the reference and missing keys fall back to it.
+ *
+ * The current locale is module state so the analyzers can localize their
+ * cues without threading it through every call. App sets it on startup from
+ * the saved setting or the device (see services/LocaleStorage.ts).
+ */
+export type Locale = 'en' | 'ar';
+
+export const LOCALES: Locale[] = ['en', 'ar'];
+
+// Right-to-left scripts
+const RTL_LOCALES: Locale[] = ['ar'];
+
+type Catalog = { [key: string]: string | Catalog };
+
+const CATALOGS: Record<Locale, Catalog> = { en, ar };
+
+const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * Closest supported locale for a BCP 47 tag ("ar-EG" -> 'ar'), English otherwise
+ */
+export function resolveLocale(tag: string | null | undefined): Locale {
+    const language = (tag || '').toLowerCase().split(/[-_]/)[0];
+    return LOCALES.find(locale => locale === language) ?? DEFAULT_LOCALE;
+}
+
+// Hermes ships Intl, but fall back to English if the runtime doesn't
+export function deviceLocale(): Locale {
+    try {
+        return resolveLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+    } catch {
+        return DEFAULT_LOCALE;
+    }
+}
+
+let currentLocale: Locale = deviceLocale();
+
+export function setLocale(locale: Locale): void {
+    currentLocale = locale;
+}
+
+export function getLocale(): Locale {
+    return currentLocale;
+}
+
+export function isRTL(locale: Locale = currentLocale): boolean {
+    return RTL_LOCALES.includes(locale);
+}
+
+function fill(message: string, params: Record<string, string | number>): string {
+    return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+const pluralRules: Partial<Record<Locale, Intl.PluralRules>> = {};
+
+// Plural category of a count in a locale (one/other by English rules if the runtime lacks Intl.PluralRules)
+function pluralCategory(locale: Locale, count: number): Intl.LDMLPluralRule {
+    try {
+        pluralRules[locale] = pluralRules[locale] ?? new Intl.PluralRules(locale);
+        return pluralRules[locale].select(count);
+    } catch {
+        return count === 1 ? 'one' : 'other';
+    }
+}
+
+function pluralMessage(locale: Locale, key: string, count: number): string | undefined {
+    const catalog = CATALOGS[locale];
+    return lookup(catalog, `${key}.${pluralCategory(locale, count)}`) ?? lookup(catalog, `${key}.other`);
+}
+
+function lookup(catalog: Catalog, key: string): string | undefined {
+    let node: string | Catalog | undefined = catalog;
+    for (const part of key.split('.')) {
+        if (typeof node !== 'object') return undefined;
+        node = node[part];
+    }
+    return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Message for a key in the current locale, with {name} placeholders filled in.
+ * Falls back to English, then to the key itself so a missing entry is visible.
+ */
+export function t(key: string, params: Record<string, string | number> = {}): string {
+    const message = lookup(CATALOGS[currentLocale], key) ?? lookup(CATALOGS[DEFAULT_LOCALE], key) ?? key;
+    return fill(message, params);
+}
+
+/**
+ * Count-dependent message ({count} is filled in). Catalog entries are keyed by
+ * CLDR plural category - zero, one, two, few, many, other - and a locale only
+ * lists the ones its language uses (English: one/other; Arabic: all six).
+ * A missing category falls back to key.other.
+ */
+export function plural(key: string, count: number, params: Record<string, string | number> = {}): string {
+    const message = pluralMessage(currentLocale, key, count) ?? pluralMessage(DEFAULT_LOCALE, key, count) ?? key;
+    return fill(message, { ...params, count });
+}
+
+export function exerciseLabel(exercise: string): string {
+    return t(`exercises.${exercise}`);
+}
+
+/**
+ * Display form of a repPhase. Phases are identifiers ("Eccentric",
+ * "Holding Left"), so each word is translated on its own; words without an
+ * entry (exercise-specific phases) are shown as they are.
+ */
+export function phaseLabel(repPhase: string): string {
+    return repPhase
+        .split(' ')
+        .map(word => lookup(CATALOGS[currentLocale], `phases.${word}`) ?? word)
+        .join(' ');
+}
@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Dimensions } from
 import Svg, { Circle, Path, G } from 'react-native-svg';
 import { COLORS, FONTS, SPACING } from '../constants/theme';
 import { AnalyticsResult, PillarResult } from '../services/AnalyticsService';
+import { t, plural, isRTL, exerciseLabel } from '../i18n/Messages';
 
 const { width } = Dimensions.get('window');
 
@@ -11,13 +12,13 @@ interface Props {
     onBack: () => void;
 }
 
-// Pillar icons and colors
-const PILLAR_CONFIG: Record<string, { icon: string; color: string; label: string }> = {
-    stability: { icon: '⚖️', color: '#00F0FF', label: 'STABILITY' },
-    posture: { icon: '🧍', color: '#7000FF', label: 'POSTURE' },
-    range_of_motion: { icon: '📐', color: '#FF6B00', label: 'RANGE OF MOTION' },
-    movement_quality: { icon: '⚡', color: '#00FF88', label: 'MOVEMENT QUALITY' },
-    bracing_core: { icon: '💪', color: '#FF0080', label: 'CORE BRACING' },
+// Pillar icons and colors (labels are analytics.pillars.<name> in the message catalogs)
+const PILLAR_CONFIG: Record<string, { icon: string; color: string }> = {
+    stability: { icon: '⚖️', color: '#00F0FF' },
+    posture: { icon: '🧍', color: '#7000FF' },
+    range_of_motion: { icon: '📐', color: '#FF6B00' },
+    movement_quality: { icon: '⚡', color: '#00FF88' },
+    bracing_core: { icon: '💪', color: '#FF0080' },
 };
 
 // Score color based on value
@@ -32,7 +33,7 @@ const getScoreColor = (score: number): string => {
  * Sometimes the API returns raw JSON wrapped in code blocks
  */
 const cleanSummaryText = (summary: string): string => {
-    if (!summary) return 'Great workout!';
+    if (!summary) return t('analytics.greatWorkout');
 
     let cleaned = summary;
 
@@ -103,7 +104,7 @@ const CircularScore = ({ score, size = 120 }: { score: number; size?: number })
             <View style={StyleSheet.absoluteFill}>
                 <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
                     <Text style={[styles.overallScoreValue, { color }]}>{Math.round(score)}</Text>
-                    <Text style={styles.overallScoreLabel}>OVERALL</Text>
+                    <Text style={styles.overallScoreLabel}>{t('analytics.overall')}</Text>
                 </View>
             </View>
         </View>
@@ -112,24 +113,26 @@ const CircularScore = ({ score, size = 120 }: { score: number; size?: number })
 
 // Pillar card component
 const PillarCard = ({ name, data }: { name: string; data: PillarResult }) => {
-    const config = PILLAR_CONFIG[name] || { icon: '📊', color: COLORS.primary, label: name.toUpperCase() };
+    const config = PILLAR_CONFIG[name] || { icon: '📊', color: COLORS.primary };
+    const label = PILLAR_CONFIG[name] ? t(`analytics.pillars.${name}`) : name.toUpperCase();
     const scoreColor = getScoreColor(data.score);
+    const rtl = isRTL();
 
     return (
-        <View style={[styles.pillarCard, { borderLeftColor: config.color }]}>
-            <View style={styles.pillarHeader}>
-                <Text style={styles.pillarIcon}>{config.icon}</Text>
-                <View style={styles.pillarTitleContainer}>
-                    <Text style={styles.pillarLabel}>{config.label}</Text>
+        <View style={rtl ? [styles.pillarCard, styles.pillarCardRtl, { borderRightColor: config.color }] : [styles.pillarCard, { borderLeftColor: config.color }]}>
+            <View style={[styles.pillarHeader, rtl && styles.rowReverse]}>
+                <Text style={[styles.pillarIcon, rtl && styles.pillarIconRtl]}>{config.icon}</Text>
+                <View style={[styles.pillarTitleContainer, rtl && styles.rowReverse]}>
+                    <Text style={[styles.pillarLabel, rtl && styles.rtlText]}>{label}</Text>
                     <View style={styles.pillarScoreContainer}>
                         <Text style={[styles.pillarScore, { color: scoreColor }]}>{data.score}</Text>
                         <Text style={styles.pillarScoreMax}>/100</Text>
                     </View>
                 </View>
             </View>
-            <Text style={styles.pillarFeedback}>{data.feedback}</Text>
-            {/* Score bar */}
-            <View style={styles.scoreBar}>
+            <Text style={[styles.pillarFeedback, rtl && styles.rtlText]}>{data.feedback}</Text>
+            {/* Score bar (fills from the right in RTL) */}
+            <View style={[styles.scoreBar, rtl && styles.scoreBarRtl]}>
                 <View style={[styles.scoreBarFill, { width: `${data.score}%`, backgroundColor: config.color }]} />
             </View>
         </View>
@@ -137,12 +140,14 @@ const PillarCard = ({ name, data }: { name: string; data: PillarResult }) => {
 };
 
 export default function AnalyticsResultScreen({ result, onBack }: Props) {
+    const rtl = isRTL();
+
     return (
         <View style={styles.container}>
             {/* Header */}
-            <View style={styles.header}>
+            <View style={[styles.header, rtl && styles.rowReverse]}>
                 <TouchableOpacity onPress={onBack} style={styles.backButton}>
-                    <Svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                    <Svg width="24" height="24" viewBox="0 0 24 24" fill="none" style={rtl && styles.mirrored}>
                         <Path
                             d="M19 12H5M5 12L12 19M5 12L12 5"
                             stroke={COLORS.primary}
@@ -153,8 +158,10 @@ export default function AnalyticsResultScreen({ result, onBack }: Props) {
                     </Svg>
                 </TouchableOpacity>
                 <View>
-                    <Text style={styles.headerTitle}>WORKOUT ANALYSIS</Text>
-                    <Text style={styles.headerSubtitle}>{result.exercise} • {result.reps_analyzed} reps</Text>
+                    <Text style={[styles.headerTitle, rtl && styles.rtlHeading]}>{t('analytics.title')}</Text>
+                    <Text style={[styles.headerSubtitle, rtl && styles.rtlHeading]}>
+                        {exerciseLabel(result.exercise)} • {plural('analytics.reps', result.reps_analyzed)}
+                    </Text>
                 </View>
                 <View style={{ width: 40 }} />
             </View>
@@ -168,12 +175,12 @@ export default function AnalyticsResultScreen({ result, onBack }: Props) {
                 {/* AI Summary Card */}
                 <View style={styles.summaryCard}>
                     <Text style={styles.summaryIcon}>🤖</Text>
-                    <Text style={styles.summaryTitle}>Smart Trainer Says:</Text>
-                    <Text style={styles.summaryText}>"{cleanSummaryText(result.summary)}"</Text>
+                    <Text style={[styles.summaryTitle, rtl && styles.rtlText]}>{t('analytics.trainerSays')}</Text>
+                    <Text style={[styles.summaryText, rtl && styles.rtlText]}>"{cleanSummaryText(result.summary)}"</Text>
                 </View>
 
                 {/* 5 Pillars */}
-                <Text style={styles.sectionTitle}>FORM ANALYSIS</Text>
+                <Text style={[styles.sectionTitle, rtl && styles.rtlText]}>{t('analytics.formAnalysis')}</Text>
                 {Object.entries(result.pillars).map(([pillarName, pillarData]) => (
                     <PillarCard key={pillarName} name={pillarName} data={pillarData} />
                 ))}
@@ -181,12 +188,12 @@ export default function AnalyticsResultScreen({ result, onBack }: Props) {
                 {/* Solutions */}
                 {result.solutions && result.solutions.length > 0 && (
                     <>
-                        <Text style={styles.sectionTitle}>HOW TO IMPROVE</Text>
+                        <Text style={[styles.sectionTitle, rtl && styles.rtlText]}>{t('analytics.howToImprove')}</Text>
                         <View style={styles.solutionsCard}>
                             {result.solutions.map((solution, index) => (
-                                <View key={index} style={styles.solutionItem}>
-                                    <Text style={styles.solutionNumber}>{index + 1}</Text>
-                                    <Text style={styles.solutionText}>{solution}</Text>
+                                <View key={index} style={[styles.solutionItem, rtl && styles.rowReverse]}>
+                                    <Text style={[styles.solutionNumber, rtl && styles.solutionNumberRtl]}>{index + 1}</Text>
+                                    <Text style={[styles.solutionText, rtl && styles.rtlText]}>{solution}</Text>
                                 </View>
                             ))}
                         </View>
@@ -195,7 +202,7 @@ export default function AnalyticsResultScreen({ result, onBack }: Props) {
 
                 {/* Back button */}
                 <TouchableOpacity style={styles.doneButton} onPress={onBack}>
-                    <Text style={styles.doneButtonText}>BACK TO HOME</Text>
+                    <Text style={[styles.doneButtonText, rtl && styles.rtlHeading]}>{t('analytics.backHome')}</Text>
                 </TouchableOpacity>
             </ScrollView>
         </View>
@@ -381,4 +388,37 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         letterSpacing: 1,
     },
+    // Right-to-left variants. Letter spacing is dropped because it pulls
+    // joined Arabic letters apart.
+    rowReverse: {
+        flexDirection: 'row-reverse',
+    },
+    mirrored: {
+        transform: [{ scaleX: -1 }],
+    },
+    rtlHeading: {
+        writingDirection: 'rtl',
+        letterSpacing: 0,
+    },
+    rtlText: {
+        writingDirection: 'rtl',
+        textAlign: 'right',
+        letterSpacing: 0,
+    },
+    pillarCardRtl: {
+        borderLeftWidth: 0,
+        borderRightWidth: 4,
+    },
+    pillarIconRtl: {
+        marginRight: 0,
+        marginLeft: SPACING.m,
+    },
+    scoreBarRtl: {
+        flexDirection: 'row-reverse',
+    },
+    solutionNumberRtl: {
+        marginRight: 0,
+        marginLeft: SPACING.m,
+        textAlign: 'right',
+    },
 });
@@ -1,10 +1,21 @@
 import React, { useState } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, StyleSheet, StatusBar, Image } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet, StatusBar, Image } from 'react-native';
 import { COLORS, SPACING, FONTS } from '../constants/theme';
 import { ExerciseType } from '../ai/ExerciseAnalyzer';
+import { StrictnessLevel, STRICTNESS_LEVELS } from '../ai/scoring/ScoringProfile';
+import { parseTempo } from '../ai/tempo/Tempo';
+import { t } from '../i18n/Messages';
 
 interface Props {
     onSelectExercise: (ex: ExerciseType) => void;
+    voiceEnabled: boolean; // Spoken rep counts and cues during live sessions
+    onToggleVoice: () => void;
+    strictness: StrictnessLevel; // How strictly reps are scored
+    onChangeStrictness: (level: StrictnessLevel) => void;
+    calibrateRom: boolean; // Next live session is a dedicated range-of-motion calibration set
+    onToggleCalibrateRom: () => void;
+    tempo: string | null; // Prescribed tempo, e.g. "3-1-1-0" (null = no tempo coaching)
+    onChangeTempo: (tempo: string | null) => void;
 }
 
 // Exercise thumbnail images from Unsplash (royalty-free fitness images)
@@ -12,6 +23,7 @@ const EXERCISE_IMAGES: Record<string, string> = {
     // Legs
     'Squat': 'https://hips.hearstapps.com/hmg-prod/images/man-training-with-weights-royalty-free-image-1718637105.jpg?crop=0.670xw:1.00xh;0.138xw,0&resize=1200:*',
     'Leg Extension': 'https://tecafitness.com/wp-content/uploads/2024/03/ETE100-Leg-Extension-6.webp',
+    'Alternating Lunge': 'https://hips.hearstapps.com/hmg-prod/images/man-training-with-weights-royalty-free-image-1718637105.jpg?crop=0.670xw:1.00xh;0.138xw,0&resize=1200:*',
     'Leg Raises': 'https://cdn11.bigcommerce.com/s-z6voly6yu7/images/stencil/1028x1028/products/2470/26524/IMGL0311__20416.1749485771.jpg?c=1',
 
     // Push
@@ -27,11 +39,18 @@ const EXERCISE_IMAGES: Record<string, string> = {
     'T-Bar Row': 'https://motionsports.de/cdn/shop/files/VF24_LIFESTYLE_PL-FW_INCLINE-LEVER-ROW_male_pulling-upwards_front-angle.jpg?v=1721754109&width=2048',
     'Barbell Biceps Curl': 'https://gripzilla.co/cdn/shop/articles/barbell-bicep-curls-step-wise-guide-benefits-mistakes-to-avoid-965012.jpg?v=1708346720',
 
+    'Alternating Dumbbell Curl': 'https://gripzilla.co/cdn/shop/articles/barbell-bicep-curls-step-wise-guide-benefits-mistakes-to-avoid-965012.jpg?v=1708346720',
+    'Single Arm Dumbbell Row': 'https://motionsports.de/cdn/shop/files/VF24_LIFESTYLE_PL-FW_INCLINE-LEVER-ROW_male_pulling-upwards_front-angle.jpg?v=1721754109&width=2048',
+
     'Lateral Raises': 'https://lh4.googleusercontent.com/proxy/kN7s7rbpPUUykzWIYneId6gGgYq5cetpPh9TvOdhlv4gR8_qcr08zxSAbF6yKrc-wDVTcBDL4mrc5bT8RuAXZ-ROggbEwbLe',
 
     // Core
     'Plank': 'https://images.unsplash.com/photo-1566241142559-40e1dab266c6?w=200&h=200&fit=crop',
     'Russian Twist': 'https://i.ytimg.com/vi/ph1mHi0Ntb8/maxresdefault.jpg',
+    'Side Plank': 'https://images.unsplash.com/photo-1566241142559-40e1dab266c6?w=200&h=200&fit=crop',
+    'Hollow Hold': 'https://i.ytimg.com/vi/ph1mHi0Ntb8/maxresdefault.jpg',
+    'Wall Sit': 'https://images.unsplash.com/photo-1566241142559-40e1dab266c6?w=200&h=200&fit=crop',
+    'Dead Hang': 'https://article.images.consumerreports.org/image/upload/w_652,f_auto,q_auto,ar_16:9,c_lfill/v1718991749/prod/content/dam/CRO-Images-2024/Rapid-Response/CR-RR-InlineHero-Pull-Up-Bars-0624',
 
     // AI
     'Auto-Detect': 'https://static.vecteezy.com/system/resources/thumbnails/076/017/044/small/thinking-gymnastic-rings-and-olympics-with-a-man-gymnast-hanging-on-equipment-for-workout-in-gym-idea-fitness-and-exercise-with-a-male-athlete-training-in-gymnastics-for-health-or-power-photo.jpg',
@@ -40,13 +59,22 @@ const EXERCISE_IMAGES: Record<string, string> = {
 const CATEGORIES = {
     'AI': ['Auto-Detect'],
     'Push': ['Push Up', 'Bench Press', 'Incline Bench Press', 'Tricep Dips', 'Chest Fly Machine'],
-    'Pull': ['Pull Up', 'Lat Pulldown', 'T-Bar Row', 'Barbell Biceps Curl', 'Lateral Raises'],
-    'Core': ['Plank', 'Russian Twist'],
-    'Legs': ['Squat', 'Leg Extension', 'Leg Raises']
+    'Pull': ['Pull Up', 'Lat Pulldown', 'T-Bar Row', 'Barbell Biceps Curl', 'Lateral Raises', 'Alternating Dumbbell Curl', 'Single Arm Dumbbell Row', 'Dead Hang'],
+    'Core': ['Plank', 'Side Plank', 'Hollow Hold', 'Russian Twist'],
+    'Legs': ['Squat', 'Leg Extension', 'Leg Raises', 'Alternating Lunge', 'Wall Sit']
 };
 
-export default function HomeScreen({ onSelectExercise }: Props) {
+export default function HomeScreen({ onSelectExercise, voiceEnabled, onToggleVoice, strictness, onChangeStrictness, calibrateRom, onToggleCalibrateRom, tempo, onChangeTempo }: Props) {
     const [selectedCategory, setSelectedCategory] = useState('All');
+    const [tempoText, setTempoText] = useState(tempo ?? '');
+    const tempoInvalid = tempoText.trim() !== '' && parseTempo(tempoText) === null;
+
+    // Only a valid tempo reaches the session; clearing the field turns tempo coaching off
+    const onTempoText = (text: string) => {
+        setTempoText(text);
+        if (text.trim() === '') onChangeTempo(null);
+        else if (parseTempo(text)) onChangeTempo(text.trim());
+    };
 
     return (
         <View style={styles.container}>
@@ -58,6 +86,47 @@ export default function HomeScreen({ onSelectExercise }: Props) {
                 <Text style={styles.subtitle}>Select your workout</Text>
             </View>
 
+            {/* Session settings */}
+            <View style={styles.settings}>
+                <TouchableOpacity
+                    style={[styles.chip, voiceEnabled && styles.chipActive]}
+                    onPress={onToggleVoice}
+                >
+                    <Text style={[styles.chipText, voiceEnabled && styles.chipTextActive]}>
+                        {voiceEnabled ? '🔊' : '🔇'} {t('home.voice')} {t(voiceEnabled ? 'home.on' : 'home.off')}
+                    </Text>
+                </TouchableOpacity>
+                {STRICTNESS_LEVELS.map(level => (
+                    <TouchableOpacity
+                        key={level}
+                        style={[styles.chip, strictness === level && styles.chipActive]}
+                        onPress={() => onChangeStrictness(level)}
+                    >
+                        <Text style={[styles.chipText, strictness === level && styles.chipTextActive]}>
+                            {t(`home.strictness.${level}`)}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                    style={[styles.chip, calibrateRom && styles.chipActive]}
+                    onPress={onToggleCalibrateRom}
+                >
+                    <Text style={[styles.chipText, calibrateRom && styles.chipTextActive]}>
+                        📏 {t('home.calibrate')}
+                    </Text>
+                </TouchableOpacity>
+                <TextInput
+                    style={[styles.chip, styles.tempoInput, tempoText.trim() !== '' && !tempoInvalid && styles.chipActive, tempoInvalid && styles.tempoInvalid]}
+                    value={tempoText}
+                    onChangeText={onTempoText}
+                    placeholder={t('home.tempo')}
+                    placeholderTextColor={COLORS.textDim}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    maxLength={11}
+                />
+            </View>
+
             {/* Filter Chips */}
             <View style={styles.categories}>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false}>
@@ -116,6 +185,7 @@ const styles = StyleSheet.create({
     title: { color: COLORS.primary, fontSize: 32, fontFamily: FONTS.title, letterSpacing: 2 },
     subtitle: { color: COLORS.textDim, fontSize: 16, marginTop: SPACING.xs },
 
+    settings: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', rowGap: SPACING.s, paddingHorizontal: SPACING.l, marginBottom: SPACING.s },
     categories: { flexDirection: 'row', paddingHorizontal: SPACING.l, marginBottom: SPACING.m, height: 50 },
     chip: {
         marginRight: SPACING.s, paddingHorizontal: SPACING.m, paddingVertical: SPACING.s,
@@ -124,6 +194,8 @@ const styles = StyleSheet.create({
     chipActive: { borderColor: COLORS.primary, backgroundColor: 'rgba(0, 240, 255, 0.1)' },
     chipText: { color: COLORS.textDim, fontWeight: 'bold' },
     chipTextActive: { color: COLORS.primary },
+    tempoInput: { color: COLORS.text, fontWeight: 'bold', minWidth: 130 },
+    tempoInvalid: { borderColor: COLORS.accent },
 
     grid: { paddingHorizontal: SPACING.m, paddingBottom: SPACING.xl },
     section: { marginBottom: SPACING.l },
@@ -1,20 +1,31 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { StyleSheet, Text, View, TouchableOpacity, Alert, Dimensions, Platform } from 'react-native';
-import { Video, ResizeMode, AVPlaybackStatus } from 'expo-av';
+import { Video, ResizeMode, AVPlaybackStatus, VideoReadyForDisplayEvent } from 'expo-av';
 import { COLORS, FONTS, SPACING } from '../constants/theme';
 import Svg, { Path } from 'react-native-svg';
 import PostRecordingModal from '../components/PostRecordingModal';
 import AnalysisLoadingScreen from '../components/AnalysisLoadingScreen';
 import { analyzeWorkout, AnalyticsResult, AnalysisPhase } from '../services/AnalyticsService';
-import { ExerciseType, Feedback } from '../ai/ExerciseAnalyzer';
+import { ExerciseType, Feedback, isHoldExercise } from '../ai/ExerciseAnalyzer';
 import * as VideoThumbnails from 'expo-video-thumbnails';
 import { PoseDetectionOnImage } from 'react-native-mediapipe';
 import * as FileSystem from 'expo-file-system';
 import * as ImageManipulator from 'expo-image-manipulator';
 import { GeometricRuleEngine } from '../ai/GeometricRuleEngine';
 import { RepTimestamp } from '../ai/reps/RepCounter';
+import { TempoSummary, parseTempo } from '../ai/tempo/Tempo';
+import { HoldSummary } from '../ai/holds/HoldTimer';
+import { FaultSummary, mergeFaultSummaries } from '../ai/faults/FormFault';
 import { FormFeedbackOverlay } from '../components/FormFeedbackOverlay';
 import { PoseLandmark } from '../ai/ExerciseAnalyzer';
+import { PoseTrackRecorder } from '../ai/recording/PoseTrack';
+import { savePoseTrack } from '../services/PoseTrackStorage';
+import { FrameSize } from '../ai/skeleton/SkeletonAdapters';
+import { orientPose, videoFrameTransform } from '../ai/skeleton/FrameTransform';
+import { StrictnessLevel } from '../ai/scoring/ScoringProfile';
+import { loadScoringSettings } from '../services/ScoringProfileStorage';
+import { loadRomCalibrations } from '../services/RomCalibrationStorage';
+import { t, exerciseLabel, phaseLabel } from '../i18n/Messages';
 
 const FRAME_INTERVAL_MS = 166; // 6 FPS for analysis (increased from 3 FPS for better accuracy)
 
@@ -48,16 +59,20 @@ interface Props {
     exerciseType: ExerciseType;
     onBack: () => void;
     onAnalysisComplete?: (result: AnalyticsResult) => void;
+    tempo?: string; // Prescribed tempo, e.g. "3-1-1-0" (eccentric-pause-concentric-pause)
+    userId?: string; // Owner of the stored scoring settings and range-of-motion calibrations
+    strictness?: StrictnessLevel; // Scoring strictness (defaults to the user's saved level)
 }
 
-const defaultFeedback: Feedback = {
+// Built on mount so the message is in the current locale
+const defaultFeedback = (): Feedback => ({
     score: 0,
     breakdown: { total: 0, stability: 0, rom: 0, posture: 0, efficiency: 0, bracing: 0 },
     reps: 0,
     repPhase: 'Processing',
-    message: 'Analyzing video...',
+    message: t('video.analyzingMessage'),
     isGoodForm: false
-};
+});
 
 const formatTime = (millis: number): string => {
     const totalSeconds = Math.floor(millis / 1000);
@@ -70,7 +85,10 @@ export default function VideoAnalysisScreen({
     videoUri,
     exerciseType,
     onBack,
-    onAnalysisComplete
+    onAnalysisComplete,
+    tempo,
+    userId = 'default',
+    strictness
 }: Props) {
     const videoRef = useRef<Video>(null);
     const [engine] = useState(() => new GeometricRuleEngine());
@@ -90,10 +108,19 @@ export default function VideoAnalysisScreen({
     const [finalRepCount, setFinalRepCount] = useState(0);
     const [detectedExerciseName, setDetectedExerciseName] = useState<string | null>(null);
     const [repTimestamps, setRepTimestamps] = useState<RepTimestamp[]>([]);
+    const [tempoSummary, setTempoSummary] = useState<TempoSummary | null>(null);
+    const [holdSummary, setHoldSummary] = useState<HoldSummary | null>(null);
+    const [faultSummary, setFaultSummary] = useState<FaultSummary | null>(null);
 
     // Current feedback based on video position
     const [currentFeedback, setCurrentFeedback] = useState<Feedback>(defaultFeedback);
     const [currentLandmarks, setCurrentLandmarks] = useState<PoseLandmark[]>([]);
+    // Size of the frames the landmarks were detected on (same shape as the video)
+    const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
+    // Orientation the player shows the video in (its rotation metadata applied)
+    const [displayOrientation, setDisplayOrientation] = useState<'portrait' | 'landscape' | null>(null);
+    // The user's engine settings are applied (the video is scored like a live session)
+    const [settingsReady, setSettingsReady] = useState(false);
 
     // Modal and API state
     const [showPostRecordingModal, setShowPostRecordingModal] = useState(false);
@@ -105,12 +132,28 @@ export default function VideoAnalysisScreen({
         engine.setExercise(exerciseType);
     }, [engine, exerciseType]);
 
-    // Start processing when video is loaded and duration is known
     useEffect(() => {
-        if (isVideoLoaded && videoDuration > 0 && analysisStatus === 'idle') {
+        engine.setTempoPrescription(tempo ? parseTempo(tempo) : null);
+    }, [engine, tempo]);
+
+    // Scoring profile: the given strictness (or the saved level) with the user's overrides,
+    // and rep positions rescaled to the user's stored range
+    useEffect(() => {
+        const scoring = loadScoringSettings(userId)
+            .then(settings => engine.setScoringProfile(strictness ?? settings.level, settings.overrides))
+            .catch(e => console.warn('Failed to load scoring profile', e));
+        const rom = loadRomCalibrations(userId)
+            .then(stored => engine.setRomCalibration('auto', stored))
+            .catch(e => console.warn('Failed to load ROM calibration', e));
+        Promise.all([scoring, rom]).then(() => setSettingsReady(true));
+    }, [engine, userId, strictness]);
+
+    // Start processing when video is loaded, duration, orientation and settings are known
+    useEffect(() => {
+        if (isVideoLoaded && videoDuration > 0 && displayOrientation && settingsReady && analysisStatus === 'idle') {
             processVideo();
         }
-    }, [isVideoLoaded, videoDuration]);
+    }, [isVideoLoaded, videoDuration, displayOrientation, settingsReady]);
 
     const processVideo = async () => {
         try {
@@ -132,6 +175,10 @@ export default function VideoAnalysisScreen({
             // For uploaded video, timestamps are 0-based relative to the file.
             engine.setRecordingStartTime(0);
 
+            // Record the exact landmark stream for off-device replay
+            const trackRecorder = new PoseTrackRecorder();
+            trackRecorder.start(exerciseType, 'video', 'unknown', 0, engine.getSettings());
+
             for (let time = 0; time < durationMs; time += FRAME_INTERVAL_MS) {
                 let thumbnailUri = null;
                 let resizedUri = null;
@@ -154,6 +201,7 @@ export default function VideoAnalysisScreen({
                         { compress: 0.4, format: ImageManipulator.SaveFormat.JPEG }
                     );
                     resizedUri = maniResult.uri;
+                    const thumbnailSize: FrameSize = { width: maniResult.width, height: maniResult.height };
 
                     // 3. Detect pose on the RESIZED image
                     console.log(`[${time}ms] Detecting pose...`);
@@ -164,14 +212,18 @@ export default function VideoAnalysisScreen({
 
                     if (result.results && result.results.length > 0 && result.results[0].landmarks.length > 0) {
                         const person = result.results[0].landmarks[0];
-                        const landmarks = person.map(p => ({
+                        const detected = person.map(p => ({
                             x: p.x,
                             y: p.y,
                             z: p.z,
                             visibility: p.visibility ?? 1.0
                         }));
+                        // Thumbnails can come out without the video's rotation applied
+                        const transform = videoFrameTransform(thumbnailSize, displayOrientation);
+                        const { landmarks, frameSize: frame } = orientPose(detected, null, thumbnailSize, transform);
 
-                        const feedback = engine.analyzeFrame(landmarks, time);
+                        trackRecorder.addFrame(landmarks, time, frame);
+                        const feedback = engine.analyzeFrame(landmarks, time, frame);
 
                         // Capture detected exercise name for UI display
                         if (feedback.detectedExercise && !detectedExerciseName) {
@@ -187,6 +239,7 @@ export default function VideoAnalysisScreen({
                         landmarksMap.set(time, landmarks); // Store landmarks for playback sync
                         setCurrentFeedback(feedback);
                         setCurrentLandmarks(landmarks); // Update visual skeleton
+                        setFrameSize(frame);
                     } else {
                         console.warn(`[${time}ms] NO POSE DETECTED - MediaPipe returned empty`);
                     }
@@ -231,6 +284,15 @@ export default function VideoAnalysisScreen({
             console.log('Video processing complete. Reps:', maxReps);
             console.log('Generated Rep Timestamps:', JSON.stringify(timestamps, null, 2));
             setRepTimestamps(timestamps);
+            setTempoSummary(engine.getTempoSummary());
+            const segments = engine.getSegments();
+            setHoldSummary(segments.length === 1 ? segments[0].hold || null : null);
+            setFaultSummary(mergeFaultSummaries(segments.map(segment => segment.faults)));
+
+            const track = trackRecorder.finish();
+            if (track) {
+                savePoseTrack(track).catch(e => console.warn('Failed to save pose track', e));
+            }
 
             // Auto-play video after processing
             if (videoRef.current) {
@@ -240,7 +302,7 @@ export default function VideoAnalysisScreen({
 
         } catch (error) {
             console.error('Video processing error:', error);
-            Alert.alert('Processing Error', 'Could not analyze video frames.');
+            Alert.alert(t('video.processingError'), t('video.processingFailed'));
             setAnalysisStatus('ready'); // Fallback to allow playback
         }
     };
@@ -301,6 +363,10 @@ export default function VideoAnalysisScreen({
         }
     }, []);
 
+    const handleReadyForDisplay = useCallback((event: VideoReadyForDisplayEvent) => {
+        setDisplayOrientation(event.naturalSize.orientation);
+    }, []);
+
     const togglePlayPause = async () => {
         if (!videoRef.current) return;
 
@@ -345,7 +411,8 @@ export default function VideoAnalysisScreen({
                 exerciseType,
                 finalRepCount,
                 repTimestamps,
-                (progress) => setUploadProgress(progress)
+                (progress) => setUploadProgress(progress),
+                tempoSummary || undefined
             );
 
             setAnalysisPhase('complete');
@@ -358,9 +425,9 @@ export default function VideoAnalysisScreen({
             console.error('Analysis error:', error);
             setAnalysisPhase('error');
             Alert.alert(
-                'Analysis Failed',
-                error instanceof Error ? error.message : 'Could not analyze workout',
-                [{ text: 'OK', onPress: () => setAnalysisPhase('idle') }]
+                t('camera.analysisFailed'),
+                error instanceof Error ? error.message : t('camera.analysisFailedDefault'),
+                [{ text: t('camera.ok'), onPress: () => setAnalysisPhase('idle') }]
             );
         }
     };
@@ -385,6 +452,7 @@ export default function VideoAnalysisScreen({
                 resizeMode={ResizeMode.CONTAIN}
                 onPlaybackStatusUpdate={handlePlaybackStatusUpdate}
                 onLoad={handleVideoLoad}
+                onReadyForDisplay={handleReadyForDisplay}
                 shouldPlay={false} // Wait for processing
                 isLooping={false}
             />
@@ -394,14 +462,16 @@ export default function VideoAnalysisScreen({
                 <FormFeedbackOverlay
                     feedback={currentFeedback}
                     landmarks={currentLandmarks} // Now using real landmarks
+                    frameSize={frameSize}
+                    fit="contain" // Matches the player's ResizeMode.CONTAIN
                 />
             </View>
 
             {/* Processing Overlay */}
             {analysisStatus === 'processing' && (
                 <View style={styles.processingOverlay}>
-                    <Text style={styles.processingTitle}>ANALYZING VIDEO</Text>
-                    <Text style={styles.processingText}>Extracting frames and detecting pose...</Text>
+                    <Text style={styles.processingTitle}>{t('video.analyzingVideo')}</Text>
+                    <Text style={styles.processingText}>{t('video.extracting')}</Text>
                     <View style={styles.processingBar}>
                         <View style={[styles.processingFill, { width: `${processingProgress}%` }]} />
                     </View>
@@ -410,7 +480,7 @@ export default function VideoAnalysisScreen({
                     {/* Live Preview of analysis */}
                     <View style={styles.previewContainer}>
                         <Text style={styles.previewText}>
-                            Frame Reps: {currentFeedback.reps} • {currentFeedback.repPhase}
+                            {t('video.frameReps', { reps: currentFeedback.reps, phase: phaseLabel(currentFeedback.repPhase) })}
                         </Text>
                     </View>
                 </View>
@@ -434,10 +504,10 @@ export default function VideoAnalysisScreen({
                     <View>
                         <Text style={styles.exerciseTitle}>
                             {(exerciseType === 'Auto-Detect' && detectedExerciseName)
-                                ? detectedExerciseName.toUpperCase()
-                                : exerciseType.toUpperCase()}
+                                ? exerciseLabel(detectedExerciseName).toUpperCase()
+                                : exerciseLabel(exerciseType).toUpperCase()}
                         </Text>
-                        <Text style={styles.subTitle}>📹 VIDEO ANALYSIS</Text>
+                        <Text style={styles.subTitle}>{t('video.title')}</Text>
                     </View>
                     <View style={{ width: 40 }} />
                 </View>
@@ -471,7 +541,7 @@ export default function VideoAnalysisScreen({
 
                 {/* Score display */}
                 <View style={styles.scoreContainer}>
-                    <Text style={styles.scoreLabel}>ANALYZING</Text>
+                    <Text style={styles.scoreLabel}>{t('video.analyzing')}</Text>
                     <Text style={[styles.scoreValue, { color: COLORS.secondary }]}>
                         {Math.round(currentFeedback.score)}
                     </Text>
@@ -482,20 +552,22 @@ export default function VideoAnalysisScreen({
                     {/* Stats Footer */}
                     <View style={styles.footer}>
                         <View style={styles.statBox}>
-                            <Text style={styles.statLabel}>REPS</Text>
-                            <Text style={styles.statValue}>{currentFeedback.reps}</Text>
+                            <Text style={styles.statLabel}>{isHoldExercise(currentFeedback.detectedExercise) ? t('camera.time') : t('camera.reps')}</Text>
+                            <Text style={styles.statValue}>
+                                {isHoldExercise(currentFeedback.detectedExercise) ? formatTime(currentFeedback.reps * 1000) : currentFeedback.reps}
+                            </Text>
                         </View>
 
                         <View style={[styles.statBox, styles.feedbackBox]}>
-                            <Text style={styles.statLabel}>STATUS</Text>
-                            <Text style={styles.phaseText}>{currentFeedback.repPhase}</Text>
+                            <Text style={styles.statLabel}>{t('video.status')}</Text>
+                            <Text style={styles.phaseText}>{phaseLabel(currentFeedback.repPhase)}</Text>
                             <Text style={styles.feedbackText} numberOfLines={2}>
                                 {currentFeedback.message}
                             </Text>
                         </View>
 
                         <View style={styles.statBox}>
-                            <Text style={styles.statLabel}>PROGRESS</Text>
+                            <Text style={styles.statLabel}>{t('video.progress')}</Text>
                             <Text style={styles.statValue}>
                                 {videoDuration ? Math.round((currentPosition / videoDuration) * 100) : 0}%
                             </Text>
@@ -510,6 +582,9 @@ export default function VideoAnalysisScreen({
                 repCount={finalRepCount}
                 duration={Math.floor(videoDuration / 1000)}
                 exerciseName={detectedExerciseName || (exerciseType !== 'Auto-Detect' ? exerciseType : undefined)}
+                tempo={tempoSummary || undefined}
+                hold={holdSummary || undefined}
+                faults={faultSummary || undefined}
                 onAnalyze={handleAnalyze}
                 onDiscard={handleDiscard}
             />
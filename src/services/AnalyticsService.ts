@@ -1,3 +1,5 @@
+import { TempoSummary } from '../ai/tempo/Tempo';
+
 /**
  * Post-Workout Analytics API Service
  * Communicates with the AI feedback model to analyze workout form
@@ -49,7 +51,8 @@ export async function analyzeWorkout(
     exerciseName: string,
     repCount: number,
     repTimestamps?: RepTimestamp[],
-    onProgress?: UploadProgressCallback
+    onProgress?: UploadProgressCallback,
+    tempo?: TempoSummary
 ): Promise<AnalyticsResult> {
     const formData = new FormData();
 
@@ -69,6 +72,11 @@ export async function analyzeWorkout(
         formData.append('rep_timestamps', JSON.stringify(repTimestamps));
     }
 
+    // Per-rep eccentric / pause / concentric / pause durations (seconds)
+    if (tempo && tempo.reps > 0) {
+        formData.append('tempo', JSON.stringify(tempo));
+    }
+
     try {
         // Report upload started
         onProgress?.(0);
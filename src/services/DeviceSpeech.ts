@@ -0,0 +1,27 @@
+/**
+ * Device Speech
+ * SpeechEngine backed by the platform's text-to-speech (expo-speech), used
+ * for voice coaching during live sessions (see ai/coaching/Speech.ts)
+ */
+
+import * as Speech from 'expo-speech';
+import { SpeechEngine, SpeechOptions } from '../ai/coaching/Speech';
+
+export class DeviceSpeech implements SpeechEngine {
+    // Resolves once the last interruption has taken effect (stop() is async)
+    private ready: Promise<void> = Promise.resolve();
+
+    speak(text: string, options: SpeechOptions) {
+        if (options.interrupt) this.ready = this.stopSpeaking();
+        // expo-speech queues utterances itself
+        this.ready.then(() => Speech.speak(text, { language: options.locale }));
+    }
+
+    stop() {
+        this.ready = this.stopSpeaking();
+    }
+
+    private stopSpeaking(): Promise<void> {
+        return Speech.stop().catch(e => console.warn('Failed to stop speech', e));
+    }
+}
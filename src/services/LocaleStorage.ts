@@ -0,0 +1,36 @@
+/**
+ * Locale Storage
+ * Keeps the language picked in settings in the app's document directory.
+ * No saved choice means "follow the device" (see i18n/Messages.ts)
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { Locale, LOCALES } from '../i18n/Messages';
+
+const LOCALE_FILE = 'locale.json';
+
+const getLocaleFile = (): File => new File(Paths.document, LOCALE_FILE);
+
+/**
+ * The saved locale, or null to use the device's
+ */
+export async function loadLocaleSetting(): Promise<Locale | null> {
+    const file = getLocaleFile();
+    if (!file.exists) return null;
+    try {
+        const { locale } = JSON.parse(await file.text()) as { locale: Locale | null };
+        return LOCALES.includes(locale) ? locale : null;
+    } catch (e) {
+        console.warn('Ignoring unreadable locale file', e);
+        return null;
+    }
+}
+
+/**
+ * Save the language choice (null goes back to the device locale)
+ */
+export async function saveLocaleSetting(locale: Locale | null): Promise<void> {
+    const file = getLocaleFile();
+    file.create({ overwrite: true });
+    file.write(JSON.stringify({ locale }));
+}
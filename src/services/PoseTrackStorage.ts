@@ -0,0 +1,53 @@
+/**
+ * Pose Track Storage
+ * Saves recorded pose tracks to the app's document directory so they can be
+ * exported and replayed off-device (see ai/recording/PoseTrack.ts)
+ */
+
+import { File, Directory, Paths } from 'expo-file-system';
+import { PoseTrack, serializePoseTrack, parsePoseTrack } from '../ai/recording/PoseTrack';
+
+const TRACK_DIRECTORY = 'pose-tracks';
+
+const getTrackDirectory = (): Directory => {
+    const directory = new Directory(Paths.document, TRACK_DIRECTORY);
+    if (!directory.exists) {
+        directory.create({ intermediates: true, idempotent: true });
+    }
+    return directory;
+};
+
+/**
+ * Write a track to disk and return its file URI
+ */
+export async function savePoseTrack(track: PoseTrack): Promise<string> {
+    const safeName = track.exerciseType.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+    const fileName = `${track.createdAt.replace(/[:.]/g, '-')}_${safeName}.json`;
+
+    const file = new File(getTrackDirectory(), fileName);
+    file.create({ overwrite: true });
+    file.write(serializePoseTrack(track));
+
+    console.log(`Pose track saved (${track.frames.length} frames):`, file.uri);
+    return file.uri;
+}
+
+/**
+ * Read a previously saved track
+ */
+export async function loadPoseTrack(uri: string): Promise<PoseTrack> {
+    const file = new File(uri);
+    return parsePoseTrack(await file.text());
+}
+
+/**
+ * List saved track URIs (newest first)
+ */
+export function listPoseTracks(): string[] {
+    return getTrackDirectory()
+        .list()
+        .filter((entry): entry is File => entry instanceof File && entry.uri.endsWith('.json'))
+        .map(file => file.uri)
+        .sort()
+        .reverse();
+}
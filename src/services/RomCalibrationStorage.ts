@@ -0,0 +1,50 @@
+/**
+ * ROM Calibration Storage
+ * Keeps each user's learned range of motion per exercise in the app's document
+ * directory (see ai/reps/RomCalibration.ts)
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { RomCalibrations } from '../ai/reps/RomCalibration';
+
+const CALIBRATION_FILE = 'rom-calibration.json';
+
+export type ExerciseCalibrations = RomCalibrations;
+
+// userId -> exercise (or exercise side) -> calibration
+type CalibrationStore = Record<string, ExerciseCalibrations>;
+
+const getCalibrationFile = (): File => new File(Paths.document, CALIBRATION_FILE);
+
+async function readStore(): Promise<CalibrationStore> {
+    const file = getCalibrationFile();
+    if (!file.exists) return {};
+    try {
+        return JSON.parse(await file.text()) as CalibrationStore;
+    } catch (e) {
+        console.warn('Ignoring unreadable ROM calibration file', e);
+        return {};
+    }
+}
+
+/**
+ * Calibrations stored for a user (empty when they never calibrated)
+ */
+export async function loadRomCalibrations(userId: string): Promise<ExerciseCalibrations> {
+    const store = await readStore();
+    return store[userId] || {};
+}
+
+/**
+ * Merge a session's calibrations into the user's stored ones
+ */
+export async function saveRomCalibrations(userId: string, calibrations: ExerciseCalibrations): Promise<void> {
+    if (Object.keys(calibrations).length === 0) return;
+
+    const store = await readStore();
+    store[userId] = { ...store[userId], ...calibrations };
+
+    const file = getCalibrationFile();
+    file.create({ overwrite: true });
+    file.write(JSON.stringify(store));
+}
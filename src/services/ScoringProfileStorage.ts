@@ -0,0 +1,66 @@
+/**
+ * Scoring Profile Storage
+ * Keeps each user's strictness level and scoring overrides in the app's
+ * document directory (see ai/scoring/ScoringProfile.ts)
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { StrictnessLevel, ScoringOverrides, STRICTNESS_LEVELS, parseScoringOverrides } from '../ai/scoring/ScoringProfile';
+
+const SCORING_FILE = 'scoring-profile.json';
+
+export interface ScoringSettings {
+    level: StrictnessLevel;
+    overrides: ScoringOverrides | null;
+}
+
+// userId -> settings
+type ScoringStore = Record<string, ScoringSettings>;
+
+const DEFAULT_SETTINGS: ScoringSettings = { level: 'intermediate', overrides: null };
+
+const getScoringFile = (): File => new File(Paths.document, SCORING_FILE);
+
+async function readStore(): Promise<ScoringStore> {
+    const file = getScoringFile();
+    if (!file.exists) return {};
+    try {
+        return JSON.parse(await file.text()) as ScoringStore;
+    } catch (e) {
+        console.warn('Ignoring unreadable scoring profile file', e);
+        return {};
+    }
+}
+
+/**
+ * Settings stored for a user (intermediate, no overrides when none saved)
+ */
+export async function loadScoringSettings(userId: string): Promise<ScoringSettings> {
+    const store = await readStore();
+    const settings = store[userId];
+    if (!settings) return DEFAULT_SETTINGS;
+
+    try {
+        return {
+            level: STRICTNESS_LEVELS.includes(settings.level) ? settings.level : DEFAULT_SETTINGS.level,
+            overrides: settings.overrides ? parseScoringOverrides(settings.overrides) : null
+        };
+    } catch (e) {
+        console.warn('Ignoring invalid scoring overrides', e);
+        return DEFAULT_SETTINGS;
+    }
+}
+
+/**
+ * Replace a user's settings (overrides are checked before writing)
+ */
+export async function saveScoringSettings(userId: string, settings: ScoringSettings): Promise<void> {
+    const overrides = settings.overrides ? parseScoringOverrides(settings.overrides) : null;
+
+    const store = await readStore();
+    store[userId] = { level: settings.level, overrides };
+
+    const file = getScoringFile();
+    file.create({ overwrite: true });
+    file.write(JSON.stringify(store));
+}
@@ -0,0 +1,29 @@
+/**
+ * Voice Storage
+ * Keeps the voice coaching on/off switch in the app's document directory.
+ * Voice coaching is off until the user turns it on.
+ */
+
+import { File, Paths } from 'expo-file-system';
+
+const VOICE_FILE = 'voice.json';
+
+const getVoiceFile = (): File => new File(Paths.document, VOICE_FILE);
+
+export async function loadVoiceEnabled(): Promise<boolean> {
+    const file = getVoiceFile();
+    if (!file.exists) return false;
+    try {
+        const { enabled } = JSON.parse(await file.text()) as { enabled: boolean };
+        return enabled === true;
+    } catch (e) {
+        console.warn('Ignoring unreadable voice setting file', e);
+        return false;
+    }
+}
+
+export async function saveVoiceEnabled(enabled: boolean): Promise<void> {
+    const file = getVoiceFile();
+    file.create({ overwrite: true });
+    file.write(JSON.stringify({ enabled }));
+}